@@ -0,0 +1,284 @@
+/**
+ * @file Loading of the assets in the manifest, with placeholders for failures.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    AssetEntry,
+    AssetKey,
+    assetManifest,
+    AssetOf,
+    AssetType,
+} from "@game/assets/manifest";
+
+/** Loading state of a single asset. */
+export type AssetStatus = "pending" | "loading" | "loaded" | "failed";
+
+/**
+ * Loads files of each asset type. Implemented separately from the manager so
+ * that assets can be loaded without p5 in tests.
+ */
+export interface AssetLoader {
+    /**
+     * Loads a file.
+     *
+     * @param entry - File to load.
+     * @returns Promise of the loaded asset, which is rejected if the file
+     * could not be loaded.
+     */
+    load(entry: AssetEntry): Promise<unknown>;
+
+    /**
+     * Creates an asset used in place of one which failed to load.
+     *
+     * @param type - Type of the asset which failed to load.
+     * @returns Placeholder asset.
+     */
+    placeholder(type: AssetType): unknown;
+}
+
+/**
+ * Loads every asset in the manifest and hands them out by key, so that scenes
+ * do not load files by path themselves. Assets which fail to load are
+ * reported to the console and replaced by placeholders, so that a single
+ * missing file does not stop the game from starting.
+ */
+export class AssetManager {
+    /** Number of assets in the manifest. */
+    get total(): number {
+        return this.keys.length;
+    }
+
+    /** Number of assets which have finished loading or failed. */
+    get settledCount(): number {
+        return this.keys.filter(
+            (key) =>
+                this.statuses.get(key) === "loaded" ||
+                this.statuses.get(key) === "failed"
+        ).length;
+    }
+
+    /** Fraction of the assets which have finished loading or failed. */
+    get progress(): number {
+        return this.total === 0 ? 1 : this.settledCount / this.total;
+    }
+
+    /** Whether every asset has finished loading or failed. */
+    get isComplete(): boolean {
+        return this.settledCount === this.total;
+    }
+
+    /** Keys of the assets which failed to load. */
+    get failedKeys(): AssetKey[] {
+        return this.keys.filter((key) => this.statuses.get(key) === "failed");
+    }
+
+    /** Loads files of each asset type. */
+    private loader: AssetLoader;
+
+    /** Keys of all assets in the manifest. */
+    private keys = Object.keys(assetManifest) as AssetKey[];
+
+    /** Loading state of each asset. */
+    private statuses = new Map<AssetKey, AssetStatus>();
+
+    /** Loaded assets and placeholders, by key. */
+    private assets = new Map<AssetKey, unknown>();
+
+    /** Promise of all assets settling, once loading has started. */
+    private loading?: Promise<void>;
+
+    /**
+     * Creates a new asset manager. No assets are loaded until {@link load} is
+     * called.
+     *
+     * @param props - Asset manager properties.
+     * @param props.loader - Loads files of each asset type.
+     */
+    constructor({ loader }: { loader: AssetLoader }) {
+        this.loader = loader;
+        this.keys.forEach((key) => this.statuses.set(key, "pending"));
+    }
+
+    /**
+     * Starts loading every asset in the manifest, unless loading has already
+     * started.
+     *
+     * @returns Promise which is resolved once every asset has loaded or
+     * failed. It is never rejected.
+     */
+    load(): Promise<void> {
+        if (this.loading === undefined) {
+            this.loading = Promise.all(
+                this.keys.map((key) => this.loadAsset(key))
+            ).then(() => undefined);
+        }
+        return this.loading;
+    }
+
+    /**
+     * Gets the loading state of an asset.
+     *
+     * @param key - Key of the asset in the manifest.
+     * @returns Loading state.
+     */
+    status(key: AssetKey): AssetStatus {
+        return this.statuses.get(key);
+    }
+
+    /**
+     * Gets a loaded asset, or its placeholder if it failed to load or has not
+     * loaded yet.
+     *
+     * @param key - Key of the asset in the manifest.
+     * @returns Asset or placeholder.
+     */
+    get<K extends AssetKey>(key: K): AssetOf<K> {
+        if (this.assets.has(key)) {
+            return this.assets.get(key) as AssetOf<K>;
+        }
+        return this.loader.placeholder(assetManifest[key].type) as AssetOf<K>;
+    }
+
+    /**
+     * Loads a single asset, storing a placeholder in its place if it fails.
+     *
+     * @param key - Key of the asset in the manifest.
+     * @returns Promise which is resolved once the asset has loaded or failed.
+     */
+    private loadAsset(key: AssetKey): Promise<void> {
+        const entry: AssetEntry = assetManifest[key];
+        this.statuses.set(key, "loading");
+        return this.loader
+            .load(entry)
+            .then((asset) => {
+                this.assets.set(key, asset);
+                this.statuses.set(key, "loaded");
+            })
+            .catch((reason) => {
+                console.error(
+                    `Failed to load asset "${key}" from "${entry.path}"`,
+                    reason
+                );
+                this.assets.set(key, this.loader.placeholder(entry.type));
+                this.statuses.set(key, "failed");
+            });
+    }
+}
+
+/**
+ * Time in milliseconds to wait for an audio file before treating it as
+ * failed.
+ */
+export const audioLoadTimeout = 10000;
+
+/**
+ * Loads an audio file into an element. The element is ready once it has
+ * loaded its first frame, rather than once it could play through, since
+ * browsers which only buffer audio after a user gesture, such as mobile
+ * Safari, may never report that it can play through. Browsers may also never
+ * start loading it, so it is rejected after a timeout.
+ *
+ * @param audio - Element to load the file into.
+ * @param path - Path of the audio file.
+ * @param timeout - Time in milliseconds to wait before rejecting.
+ * @returns Promise of the element, which is rejected if the file could not be
+ * loaded in time.
+ */
+export function loadAudio(
+    audio: HTMLAudioElement,
+    path: string,
+    timeout = audioLoadTimeout
+): Promise<HTMLAudioElement> {
+    return new Promise((resolve, reject) => {
+        const settle = (callback: () => void) => {
+            clearTimeout(timer);
+            audio.removeEventListener("loadeddata", onLoaded);
+            audio.removeEventListener("canplaythrough", onLoaded);
+            audio.removeEventListener("error", onError);
+            callback();
+        };
+        const onLoaded = () => settle(() => resolve(audio));
+        const onError = (event: Event) => settle(() => reject(event));
+        const timer = setTimeout(
+            () =>
+                settle(() =>
+                    reject(new Error(`Timed out after ${timeout} ms`))
+                ),
+            timeout
+        );
+        audio.addEventListener("loadeddata", onLoaded);
+        audio.addEventListener("canplaythrough", onLoaded);
+        audio.addEventListener("error", onError);
+        audio.preload = "auto";
+        audio.src = path;
+    });
+}
+
+/**
+ * Creates a loader which loads files with p5, and audio with
+ * {@link HTMLAudioElement}. Failed images are replaced by a magenta and black
+ * checkerboard, so that missing art is easy to spot. Audio which does not load
+ * within {@link audioLoadTimeout} fails.
+ *
+ * @param p - p5 instance.
+ * @returns Asset loader.
+ */
+export function createP5AssetLoader(p: p5): AssetLoader {
+    let placeholderImage: p5.Image | undefined;
+
+    return {
+        load: (entry) =>
+            new Promise((resolve, reject) => {
+                switch (entry.type) {
+                    case "image":
+                        p.loadImage(entry.path, resolve, reject);
+                        break;
+                    case "font":
+                        p.loadFont(entry.path, resolve, reject);
+                        break;
+                    case "json":
+                        p.loadJSON(entry.path, resolve, reject);
+                        break;
+                    case "audio":
+                        loadAudio(new Audio(), entry.path).then(
+                            resolve,
+                            reject
+                        );
+                        break;
+                }
+            }),
+        placeholder: (type) => {
+            if (type !== "image") {
+                return type === "json" ? null : undefined;
+            }
+            if (placeholderImage === undefined) {
+                placeholderImage = p.createImage(2, 2);
+                placeholderImage.loadPixels();
+                placeholderImage.set(0, 0, p.color(255, 0, 255));
+                placeholderImage.set(1, 0, p.color(0));
+                placeholderImage.set(0, 1, p.color(0));
+                placeholderImage.set(1, 1, p.color(255, 0, 255));
+                placeholderImage.updatePixels();
+            }
+            return placeholderImage;
+        },
+    };
+}
@@ -0,0 +1,69 @@
+/**
+ * @file Manifest of the assets loaded before the game starts.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+/** Types of file which can be loaded as assets. */
+export type AssetType = "image" | "font" | "audio" | "json";
+
+/**
+ * Maps each asset type to the type of the loaded asset. Fonts and audio which
+ * fail to load are `undefined`, and the default font or silence are used
+ * instead.
+ */
+export interface AssetTypes {
+    image: p5.Image;
+    font: p5.Font | undefined;
+    audio: HTMLAudioElement | undefined;
+    json: unknown;
+}
+
+/** File to load as an asset. */
+export interface AssetEntry {
+    /** Type of the file. */
+    readonly type: AssetType;
+
+    /** Path of the file, relative to the web root. */
+    readonly path: string;
+}
+
+/**
+ * All assets used by the game, by key. Paths are relative to the `static`
+ * directory in the source distribution.
+ */
+export const assetManifest = {
+    background: { type: "image", path: "images/bg.png" },
+    level1: { type: "json", path: "levels/level-1.json" },
+    level2: { type: "json", path: "levels/level-2.json" },
+    catchSound: { type: "audio", path: "sounds/catch.wav" },
+    missSound: { type: "audio", path: "sounds/miss.wav" },
+    jumpSound: { type: "audio", path: "sounds/jump.wav" },
+    landSound: { type: "audio", path: "sounds/land.wav" },
+    confirmSound: { type: "audio", path: "sounds/confirm.wav" },
+    menuMusic: { type: "audio", path: "music/menu.wav" },
+    gameMusic: { type: "audio", path: "music/game.wav" },
+} as const satisfies Record<string, AssetEntry>;
+
+/** Key of an asset in {@link assetManifest}. */
+export type AssetKey = keyof typeof assetManifest;
+
+/** Type of the loaded asset with the given key. */
+export type AssetOf<K extends AssetKey> =
+    AssetTypes[(typeof assetManifest)[K]["type"]];
@@ -0,0 +1,151 @@
+/**
+ * @file Playback of audio assets, behind an interface for headless runs.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { AssetManager } from "@game/assets/asset-manager";
+import { AssetKey } from "@game/assets/manifest";
+
+/** Single playing sound, which can be changed or stopped while it plays. */
+export interface AudioVoice {
+    /**
+     * Sets the volume of the sound.
+     *
+     * @param volume - Volume from 0 (silent) to 1 (full volume).
+     */
+    setVolume(volume: number): void;
+
+    /** Stops the sound. A stopped voice cannot be restarted. */
+    stop(): void;
+}
+
+/**
+ * Plays audio assets. Implemented separately from the audio manager so that
+ * the game can run silently in tests and without a browser.
+ */
+export interface AudioBackend {
+    /**
+     * Starts playing an audio asset.
+     *
+     * @param key - Key of the audio asset in the manifest.
+     * @param props - Destructured property parameters.
+     * @param props.volume - Starting volume from 0 to 1.
+     * @param props.loop - Whether to restart the sound each time it ends.
+     * @returns Voice controlling the playing sound.
+     */
+    play(
+        key: AssetKey,
+        { volume, loop }: { volume: number; loop: boolean }
+    ): AudioVoice;
+}
+
+/** Backend which plays nothing, for tests and runs without a browser. */
+export class SilentAudioBackend implements AudioBackend {
+    /**
+     * Pretends to start playing an audio asset.
+     *
+     * @returns Voice which does nothing.
+     */
+    play(): AudioVoice {
+        return { setVolume: () => undefined, stop: () => undefined };
+    }
+}
+
+/**
+ * Backend which plays audio assets loaded as {@link HTMLAudioElement}s. Each
+ * sound plays on a copy of the loaded element, so that the same sound can
+ * overlap itself.
+ */
+export class HtmlAudioBackend implements AudioBackend {
+    /** Provides the loaded audio elements. */
+    private assets: AssetManager;
+
+    /**
+     * Creates a new HTML audio backend.
+     *
+     * @param assets - Provides the loaded audio elements.
+     */
+    constructor(assets: AssetManager) {
+        this.assets = assets;
+    }
+
+    /**
+     * Starts playing an audio asset. Assets which failed to load are not
+     * played. Browsers only allow audio to start after the user has
+     * interacted with the page, so sounds which are blocked are retried on
+     * the next key press or pointer press.
+     *
+     * @param key - Key of the audio asset in the manifest.
+     * @param props - Destructured property parameters.
+     * @param props.volume - Starting volume from 0 to 1.
+     * @param props.loop - Whether to restart the sound each time it ends.
+     * @returns Voice controlling the playing sound.
+     */
+    play(
+        key: AssetKey,
+        { volume, loop }: { volume: number; loop: boolean }
+    ): AudioVoice {
+        const source = this.assets.get(key);
+        if (!(source instanceof HTMLAudioElement)) {
+            return new SilentAudioBackend().play();
+        }
+
+        const element = source.cloneNode() as HTMLAudioElement;
+        element.volume = volume;
+        element.loop = loop;
+        let isStopped = false;
+        const retry = () => {
+            document.removeEventListener("keydown", retry);
+            document.removeEventListener("pointerdown", retry);
+            if (!isStopped) {
+                element.play().catch(() => undefined);
+            }
+        };
+        element.play().catch(() => {
+            // Only looping sounds are worth starting late.
+            if (loop) {
+                document.addEventListener("keydown", retry);
+                document.addEventListener("pointerdown", retry);
+            }
+        });
+
+        return {
+            setVolume: (newVolume) => {
+                element.volume = Math.max(0, Math.min(newVolume, 1));
+            },
+            stop: () => {
+                isStopped = true;
+                element.pause();
+            },
+        };
+    }
+}
+
+/**
+ * Creates a backend which plays audio in the browser if supported, or
+ * otherwise a silent backend.
+ *
+ * @param assets - Provides the loaded audio elements.
+ * @returns Audio backend.
+ */
+export function createAudioBackend(assets: AssetManager): AudioBackend {
+    if (typeof HTMLAudioElement !== "undefined") {
+        return new HtmlAudioBackend(assets);
+    }
+    return new SilentAudioBackend();
+}
@@ -0,0 +1,268 @@
+/**
+ * @file Sound effects and crossfaded music with volume controls.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { AssetKey } from "@game/assets/manifest";
+import { AudioBackend, AudioVoice } from "./audio-backend";
+
+/** Audio assets played as sound effects, by name. */
+export const SoundEffects = {
+    catch: "catchSound",
+    miss: "missSound",
+    jump: "jumpSound",
+    land: "landSound",
+    confirm: "confirmSound",
+} as const satisfies Record<string, AssetKey>;
+
+/** Name of a sound effect in {@link SoundEffects}. */
+export type SoundEffectName = keyof typeof SoundEffects;
+
+/** Audio assets played as looping background music, by name. */
+export const MusicTracks = {
+    menu: "menuMusic",
+    game: "gameMusic",
+} as const satisfies Record<string, AssetKey>;
+
+/** Name of a music track in {@link MusicTracks}. */
+export type MusicTrackName = keyof typeof MusicTracks;
+
+/** Music track which is playing, or fading in or out. */
+interface MusicVoice {
+    name: MusicTrackName;
+    voice: AudioVoice;
+
+    /** Volume of the track relative to the music volume, from 0 to 1. */
+    fade: number;
+
+    /** Relative volume the track is fading towards, 1 to fade in or 0 out. */
+    target: number;
+}
+
+/**
+ * Plays sound effects and background music through an {@link AudioBackend}.
+ * Only one music track plays at a time, and changing the track crossfades
+ * between the old and new tracks. Sound effects and music have separate
+ * volumes, which are both scaled by the master volume.
+ */
+export class AudioManager {
+    /** Time in milliseconds taken to crossfade between music tracks. */
+    crossfadeDuration: number;
+
+    /** Volume of all audio from 0 to 1. */
+    get masterVolume(): number {
+        return this._masterVolume;
+    }
+
+    set masterVolume(value) {
+        this._masterVolume = AudioManager.clampVolume(value);
+        this.applyMusicVolume();
+    }
+
+    /** Volume of music from 0 to 1, before scaling by the master volume. */
+    get musicVolume(): number {
+        return this._musicVolume;
+    }
+
+    set musicVolume(value) {
+        this._musicVolume = AudioManager.clampVolume(value);
+        this.applyMusicVolume();
+    }
+
+    /**
+     * Volume of sound effects from 0 to 1, before scaling by the master
+     * volume. Only affects sound effects played after it is set.
+     */
+    get sfxVolume(): number {
+        return this._sfxVolume;
+    }
+
+    set sfxVolume(value) {
+        this._sfxVolume = AudioManager.clampVolume(value);
+    }
+
+    /**
+     * Whether all audio is silenced. Music keeps playing silently while muted,
+     * so that it continues from the same place when unmuted.
+     */
+    get isMuted(): boolean {
+        return this._isMuted;
+    }
+
+    set isMuted(value) {
+        this._isMuted = value;
+        this.applyMusicVolume();
+    }
+
+    /** Name of the music track playing or fading in, if any. */
+    get currentMusic(): MusicTrackName | undefined {
+        return this.music.find((track) => track.target === 1)?.name;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link masterVolume}.
+     */
+    private _masterVolume = 1;
+
+    /**
+     * Private mutable to store the readonly property {@link musicVolume}.
+     */
+    private _musicVolume = 1;
+
+    /**
+     * Private mutable to store the readonly property {@link sfxVolume}.
+     */
+    private _sfxVolume = 1;
+
+    /**
+     * Private mutable to store the readonly property {@link isMuted}.
+     */
+    private _isMuted = false;
+
+    /** Plays the audio assets. */
+    private backend: AudioBackend;
+
+    /** Music tracks which are playing, or fading in or out. */
+    private music: MusicVoice[] = [];
+
+    /** Volume of music at full fade, from the volume settings. */
+    private get musicOutput(): number {
+        return this.isMuted ? 0 : this.masterVolume * this.musicVolume;
+    }
+
+    /**
+     * Creates a new audio manager with no music playing.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.backend - Plays the audio assets.
+     * @param props.crossfadeDuration - Time in milliseconds taken to
+     * crossfade between music tracks.
+     */
+    constructor({
+        backend,
+        crossfadeDuration = 1000,
+    }: {
+        backend: AudioBackend;
+        crossfadeDuration?: number;
+    }) {
+        this.backend = backend;
+        this.crossfadeDuration = crossfadeDuration;
+    }
+
+    /**
+     * Plays a sound effect once, unless muted.
+     *
+     * @param name - Name of the sound effect.
+     */
+    playSound(name: SoundEffectName): void {
+        const volume = this.masterVolume * this.sfxVolume;
+        if (this.isMuted || volume === 0) {
+            return;
+        }
+        this.backend.play(SoundEffects[name], { volume: volume, loop: false });
+    }
+
+    /**
+     * Crossfades to a music track, which loops until another track is played.
+     * Nothing changes if the track is already playing.
+     *
+     * @param name - Name of the music track, or `undefined` to fade out to
+     * silence.
+     */
+    playMusic(name: MusicTrackName | undefined): void {
+        if (name === this.currentMusic) {
+            return;
+        }
+        this.music.forEach((track) => {
+            track.target = 0;
+        });
+        if (name === undefined) {
+            return;
+        }
+
+        // Fade a track back in if it was still fading out, rather than
+        // starting it again from the beginning.
+        const fading = this.music.find((track) => track.name === name);
+        if (fading !== undefined) {
+            fading.target = 1;
+            return;
+        }
+        const fade = this.crossfadeDuration > 0 ? 0 : 1;
+        this.music.push({
+            name: name,
+            voice: this.backend.play(MusicTracks[name], {
+                volume: fade * this.musicOutput,
+                loop: true,
+            }),
+            fade: fade,
+            target: 1,
+        });
+    }
+
+    /**
+     * Advances crossfades between music tracks, stopping tracks which have
+     * faded out. Should be called once per frame.
+     *
+     * @param deltaTime - Real time in milliseconds since the last update.
+     */
+    update(deltaTime: number): void {
+        const step =
+            this.crossfadeDuration > 0
+                ? deltaTime / this.crossfadeDuration
+                : Infinity;
+        this.music.forEach((track) => {
+            if (track.fade < track.target) {
+                track.fade = Math.min(track.fade + step, track.target);
+            } else if (track.fade > track.target) {
+                track.fade = Math.max(track.fade - step, track.target);
+            }
+        });
+        this.music = this.music.filter((track) => {
+            if (track.fade === 0 && track.target === 0) {
+                track.voice.stop();
+                return false;
+            }
+            return true;
+        });
+        this.applyMusicVolume();
+    }
+
+    /** Stops all music immediately. */
+    stopMusic(): void {
+        this.music.forEach((track) => track.voice.stop());
+        this.music = [];
+    }
+
+    /** Sets the volume of each music track from its fade and the settings. */
+    private applyMusicVolume(): void {
+        const output = this.musicOutput;
+        this.music.forEach((track) => {
+            track.voice.setVolume(track.fade * output);
+        });
+    }
+
+    /**
+     * Limits a volume to the range 0 to 1.
+     *
+     * @param volume - Volume to limit.
+     * @returns Limited volume.
+     */
+    private static clampVolume(volume: number): number {
+        return Math.max(0, Math.min(volume, 1));
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * @file Anchored layout of heads-up display widgets.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import { Drawable } from "@game/utils/drawable";
+import { V2d } from "@game/utils/vector";
+
+/**
+ * Represents a drawable part of the heads-up display (HUD) which is positioned
+ * by a {@link HudLayout}. Widgets only report their own size, and the layout
+ * sets their position before they are drawn.
+ */
+export interface HudWidget extends Drawable {
+    /** Top left corner on the canvas, set by the layout. */
+    position: V2d;
+
+    /** Width and height of the widget in pixels. */
+    readonly size: V2d;
+
+    /**
+     * Whether the widget is drawn. Hidden widgets take up no space, so the
+     * widgets stacked after them move up to fill the gap.
+     */
+    readonly isVisible: boolean;
+}
+
+/** Points of the canvas to which {@link HudLayout} widgets are anchored. */
+export enum HudAnchor {
+    TopLeft,
+    Top,
+    TopRight,
+    Left,
+    Center,
+    Right,
+    BottomLeft,
+    Bottom,
+    BottomRight,
+}
+
+/**
+ * Drawable container which places heads-up display (HUD) widgets at nine
+ * anchor points on the canvas. Widgets at the same anchor are stacked
+ * vertically in the order in which they were added, with a fixed space between
+ * them, and the stack is kept a fixed margin from the edges of the canvas.
+ *
+ * Widgets are laid out again each time the HUD is drawn, so that they follow
+ * changes to the size of the canvas, such as when the window is resized, and
+ * to their own sizes, such as when a score gains a digit.
+ */
+export class HudLayout implements Drawable {
+    /** Distance of the widgets from the edges of the canvas in pixels. */
+    margin: number;
+
+    /** Vertical space between widgets stacked at an anchor in pixels. */
+    spacing: number;
+
+    /** Widgets stacked at each anchor, from the top of the stack. */
+    private stacks = new Map<HudAnchor, HudWidget[]>();
+
+    /**
+     * Fractions of the space left around a stack which are to the left of and
+     * above it, for each anchor.
+     */
+    private static readonly anchorFractions: Readonly<Record<HudAnchor, V2d>> =
+        {
+            [HudAnchor.TopLeft]: { x: 0, y: 0 },
+            [HudAnchor.Top]: { x: 0.5, y: 0 },
+            [HudAnchor.TopRight]: { x: 1, y: 0 },
+            [HudAnchor.Left]: { x: 0, y: 0.5 },
+            [HudAnchor.Center]: { x: 0.5, y: 0.5 },
+            [HudAnchor.Right]: { x: 1, y: 0.5 },
+            [HudAnchor.BottomLeft]: { x: 0, y: 1 },
+            [HudAnchor.Bottom]: { x: 0.5, y: 1 },
+            [HudAnchor.BottomRight]: { x: 1, y: 1 },
+        };
+
+    /**
+     * Creates an empty layout.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.margin - Distance of the widgets from the edges of the
+     * canvas in pixels.
+     * @param props.spacing - Vertical space between widgets stacked at an
+     * anchor in pixels.
+     */
+    constructor({
+        margin = 8,
+        spacing = 8,
+    }: { margin?: number; spacing?: number } = {}) {
+        this.margin = margin;
+        this.spacing = spacing;
+    }
+
+    /**
+     * Adds a widget to the bottom of the stack at an anchor. A widget which is
+     * already in the layout is moved.
+     *
+     * @param widget - Widget to add.
+     * @param anchor - Anchor at which to place the widget.
+     */
+    add(widget: HudWidget, anchor: HudAnchor): void {
+        this.remove(widget);
+        if (!this.stacks.has(anchor)) {
+            this.stacks.set(anchor, []);
+        }
+        this.stacks.get(anchor).push(widget);
+    }
+
+    /**
+     * Removes a widget from the layout, if it is in it.
+     *
+     * @param widget - Widget to remove.
+     */
+    remove(widget: HudWidget): void {
+        this.stacks.forEach((stack, anchor) => {
+            this.stacks.set(
+                anchor,
+                stack.filter((other) => other !== widget)
+            );
+        });
+    }
+
+    /**
+     * Sets the position of each visible widget for a canvas of the given
+     * size.
+     *
+     * @param bounds - Width and height of the canvas in pixels.
+     */
+    layout(bounds: V2d): void {
+        this.stacks.forEach((stack, anchor) => {
+            const visible = stack.filter((widget) => widget.isVisible);
+            if (visible.length === 0) {
+                return;
+            }
+            const fraction = HudLayout.anchorFractions[anchor];
+            const height =
+                visible.reduce((sum, widget) => sum + widget.size.y, 0) +
+                this.spacing * (visible.length - 1);
+
+            let y =
+                this.margin +
+                (bounds.y - 2 * this.margin - height) * fraction.y;
+            visible.forEach((widget) => {
+                const size = widget.size;
+                widget.position = {
+                    x:
+                        this.margin +
+                        (bounds.x - 2 * this.margin - size.x) * fraction.x,
+                    y: y,
+                };
+                y += size.y + this.spacing;
+            });
+        });
+    }
+
+    /**
+     * Lays out the widgets for the current size of the canvas, then draws each
+     * visible widget.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        this.layout({ x: p.width, y: p.height });
+        this.stacks.forEach((stack) => {
+            stack.forEach((widget) => {
+                if (widget.isVisible) {
+                    widget.draw(p);
+                }
+            });
+        });
+    }
+}
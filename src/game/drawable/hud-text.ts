@@ -21,16 +21,17 @@
 import * as p5 from "p5";
 
 import { ColorComponents, fill } from "@game/utils/color";
-import { Drawable } from "@game/utils/drawable";
+import { HudWidget } from "@game/drawable/hud-layout";
 import { FontMetadata } from "@game/utils/font";
 import { V2d } from "@game/utils/vector";
 import { TextComponent, TextProperties } from "@game/utils/text";
 
 /**
  * Drawable heads-up display (HUD) class for drawing static text on the corners
- * of the canvas.
+ * of the canvas, or as a widget in a {@link HudLayout}, which uses the default
+ * left alignment and no margins.
  */
-export class HudText implements Drawable {
+export class HudText implements HudWidget {
     /** Starting x- and y-coordinates on the canvas. */
     position: V2d;
 
@@ -43,6 +44,21 @@ export class HudText implements Drawable {
      */
     alignment: HudAlignment;
 
+    /** Width of both components and height of the larger font, in pixels. */
+    get size(): V2d {
+        return {
+            x:
+                this.labelComponent.lastCalculatedWidth +
+                this.valueComponent.lastCalculatedWidth,
+            y: Math.max(
+                this.labelComponent.font.size,
+                this.valueComponent.font.size
+            ),
+        };
+    }
+
+    readonly isVisible = true;
+
     /** Data for the label (leftmost) section of the HUD. */
     private labelComponent: HudTextComponent;
 
@@ -177,6 +193,21 @@ export class HudText implements Drawable {
         this.valueComponent.str = str;
         this.valueComponent.calcWidth();
     }
+
+    /**
+     * Sets the fill colors of the label and value text components.
+     *
+     * @param labelFillColor - Label component fill color.
+     * @param valueFillColor - Value component fill color (defaults to the
+     * label fill color).
+     */
+    setFillColor(
+        labelFillColor: ColorComponents,
+        valueFillColor = labelFillColor
+    ): void {
+        this.labelComponent.fillColor = labelFillColor;
+        this.valueComponent.fillColor = valueFillColor;
+    }
 }
 
 /**
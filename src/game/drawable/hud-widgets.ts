@@ -0,0 +1,362 @@
+/**
+ * @file Heads-up display widgets for lives, time, combos and power-ups.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import { HudWidget } from "@game/drawable/hud-layout";
+import { ColorComponents, fill } from "@game/utils/color";
+import { FontMetadata } from "@game/utils/font";
+import { TextProperties } from "@game/utils/text";
+import { V2d } from "@game/utils/vector";
+
+/**
+ * Row of icons showing the player's lives, with an empty icon for each life
+ * lost.
+ */
+export class LivesRow implements HudWidget {
+    position: V2d = { x: 0, y: 0 };
+
+    /** Number of lives left, shown as filled icons. */
+    lives = 0;
+
+    /** Number of icons shown when fewer lives are left. */
+    maxLives = 0;
+
+    /** Width and height of each icon in pixels. */
+    iconSize: number;
+
+    /** Horizontal space between icons in pixels. */
+    spacing: number;
+
+    /** Color of the icons for lives left. */
+    fillColor: ColorComponents;
+
+    /** Color of the icons for lives lost. */
+    emptyColor: ColorComponents;
+
+    get size(): V2d {
+        const count = this.iconCount;
+        return {
+            x: Math.max(
+                count * (this.iconSize + this.spacing) - this.spacing,
+                0
+            ),
+            y: this.iconSize,
+        };
+    }
+
+    get isVisible(): boolean {
+        return this.iconCount > 0;
+    }
+
+    /** Number of icons drawn. */
+    private get iconCount(): number {
+        return Math.max(this.lives, this.maxLives, 0);
+    }
+
+    /**
+     * Creates a new row of life icons.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.iconSize - Width and height of each icon in pixels.
+     * @param props.spacing - Horizontal space between icons in pixels.
+     * @param props.fillColor - Color of the icons for lives left.
+     * @param props.emptyColor - Color of the icons for lives lost.
+     */
+    constructor({
+        iconSize = 20,
+        spacing = 6,
+        fillColor,
+        emptyColor = { red: 255, green: 255, blue: 255, alpha: 64 },
+    }: {
+        iconSize?: number;
+        spacing?: number;
+        fillColor: ColorComponents;
+        emptyColor?: ColorComponents;
+    }) {
+        this.iconSize = iconSize;
+        this.spacing = spacing;
+        this.fillColor = fillColor;
+        this.emptyColor = emptyColor;
+    }
+
+    /**
+     * Draws a circle for each life, filled for the lives left.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.noStroke();
+        const radius = this.iconSize / 2;
+        for (let i = 0; i < this.iconCount; ++i) {
+            fill(p, i < this.lives ? this.fillColor : this.emptyColor);
+            p.ellipse(
+                this.position.x + i * (this.iconSize + this.spacing) + radius,
+                this.position.y + radius,
+                this.iconSize
+            );
+        }
+    }
+}
+
+/**
+ * Minutes and seconds left to survive, which changes color when time is
+ * running out.
+ */
+export class CountdownTimer implements HudWidget {
+    position: V2d = { x: 0, y: 0 };
+
+    /** Time left in milliseconds, or `undefined` to hide the timer. */
+    remaining?: number;
+
+    /** Time left in milliseconds below which the warning color is used. */
+    warningTime: number;
+
+    /** Properties of the font used to draw the time. */
+    font: FontMetadata;
+
+    /** Color of the time. */
+    fillColor: ColorComponents;
+
+    /** Color of the time when it is running out. */
+    warningColor: ColorComponents;
+
+    get size(): V2d {
+        return {
+            x: TextProperties.getWidth(this.text, this.font),
+            y: this.font.size,
+        };
+    }
+
+    get isVisible(): boolean {
+        return this.remaining !== undefined;
+    }
+
+    /** Time left as text, such as "1:05", rounding up to whole seconds. */
+    get text(): string {
+        const seconds = Math.ceil(Math.max(this.remaining ?? 0, 0) / 1000);
+        const minutes = Math.floor(seconds / 60);
+        return `${minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+    }
+
+    /**
+     * Creates a new, hidden countdown timer.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.font - Properties of the font used to draw the time.
+     * @param props.fillColor - Color of the time.
+     * @param props.warningColor - Color of the time when it is running out.
+     * @param props.warningTime - Time left in milliseconds below which the
+     * warning color is used.
+     */
+    constructor({
+        font,
+        fillColor,
+        warningColor = { red: 255, green: 64, blue: 64 },
+        warningTime = 10000,
+    }: {
+        font: FontMetadata;
+        fillColor: ColorComponents;
+        warningColor?: ColorComponents;
+        warningTime?: number;
+    }) {
+        this.font = font;
+        this.fillColor = fillColor;
+        this.warningColor = warningColor;
+        this.warningTime = warningTime;
+    }
+
+    /**
+     * Draws the time left.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.noStroke();
+        p.textAlign("left");
+        p.textSize(this.font.size);
+        p.textStyle(this.font.weight === "bold" ? "bold" : "normal");
+        fill(
+            p,
+            this.remaining < this.warningTime
+                ? this.warningColor
+                : this.fillColor
+        );
+        p.text(this.text, this.position.x, this.position.y + this.font.size);
+    }
+}
+
+/**
+ * Label above a bar which is filled by a fraction, from which the combo meter
+ * and power-up bar are made.
+ */
+export abstract class HudMeter implements HudWidget {
+    position: V2d = { x: 0, y: 0 };
+
+    /** Properties of the font used to draw the label. */
+    font: FontMetadata;
+
+    /** Color of the label and the filled part of the bar. */
+    fillColor: ColorComponents;
+
+    /** Color of the empty part of the bar. */
+    emptyColor: ColorComponents;
+
+    /** Width of the bar in pixels. */
+    barWidth: number;
+
+    /** Height of the bar in pixels. */
+    barHeight: number;
+
+    /** Vertical space between the label and the bar in pixels. */
+    gap: number;
+
+    get size(): V2d {
+        return {
+            x: Math.max(
+                this.barWidth,
+                TextProperties.getWidth(this.label, this.font)
+            ),
+            y: this.font.size + this.gap + this.barHeight,
+        };
+    }
+
+    abstract get isVisible(): boolean;
+
+    /** Text drawn above the bar. */
+    protected abstract get label(): string;
+
+    /** Fraction of the bar which is filled, from 0 to 1. */
+    protected abstract get fraction(): number;
+
+    /**
+     * Creates a new meter.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.font - Properties of the font used to draw the label.
+     * @param props.fillColor - Color of the label and the filled part of the
+     * bar.
+     * @param props.emptyColor - Color of the empty part of the bar.
+     * @param props.barWidth - Width of the bar in pixels.
+     * @param props.barHeight - Height of the bar in pixels.
+     * @param props.gap - Vertical space between the label and the bar in
+     * pixels.
+     */
+    constructor({
+        font,
+        fillColor,
+        emptyColor = { red: 255, green: 255, blue: 255, alpha: 64 },
+        barWidth = 120,
+        barHeight = 6,
+        gap = 4,
+    }: {
+        font: FontMetadata;
+        fillColor: ColorComponents;
+        emptyColor?: ColorComponents;
+        barWidth?: number;
+        barHeight?: number;
+        gap?: number;
+    }) {
+        this.font = font;
+        this.fillColor = fillColor;
+        this.emptyColor = emptyColor;
+        this.barWidth = barWidth;
+        this.barHeight = barHeight;
+        this.gap = gap;
+    }
+
+    /**
+     * Draws the label above the bar, with the filled part of the bar drawn
+     * from the left.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        const { x, y } = this.position;
+        p.noStroke();
+        p.textAlign("left");
+        p.textSize(this.font.size);
+        p.textStyle(this.font.weight === "bold" ? "bold" : "normal");
+        fill(p, this.fillColor);
+        p.text(this.label, x, y + this.font.size);
+
+        const barY = y + this.font.size + this.gap;
+        fill(p, this.emptyColor);
+        p.rect(x, barY, this.barWidth, this.barHeight);
+        fill(p, this.fillColor);
+        p.rect(
+            x,
+            barY,
+            this.barWidth * Math.max(0, Math.min(this.fraction, 1)),
+            this.barHeight
+        );
+    }
+}
+
+/**
+ * Number of items caught in a row, with a bar which fills as the combo grows.
+ * Hidden until at least two items have been caught in a row.
+ */
+export class ComboMeter extends HudMeter {
+    /** Number of items caught in a row. */
+    combo = 0;
+
+    /** Combo at which the bar is full. */
+    maxCombo = 10;
+
+    get isVisible(): boolean {
+        return this.combo >= 2;
+    }
+
+    protected get label(): string {
+        return `Combo x${this.combo}`;
+    }
+
+    protected get fraction(): number {
+        return this.combo / this.maxCombo;
+    }
+}
+
+/**
+ * Name of an active power-up, with a bar which empties as the power-up runs
+ * out. Hidden while no power-up is active.
+ */
+export class PowerUpBar extends HudMeter {
+    /** Name of the active power-up shown to the player. */
+    name = "";
+
+    /** Time in milliseconds until the power-up runs out. */
+    remaining = 0;
+
+    /** Time in milliseconds for which the power-up lasts. */
+    duration = 1;
+
+    get isVisible(): boolean {
+        return this.remaining > 0;
+    }
+
+    protected get label(): string {
+        return this.name;
+    }
+
+    protected get fraction(): number {
+        return this.remaining / this.duration;
+    }
+}
@@ -0,0 +1,368 @@
+/**
+ * @file Drawable list of selectable menu items.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import { ColorComponents, fill } from "@game/utils/color";
+import { Drawable } from "@game/utils/drawable";
+import { FontMetadata } from "@game/utils/font";
+import { TextProperties } from "@game/utils/text";
+import { Rect, V2d } from "@game/utils/vector";
+
+/**
+ * Item in a {@link MenuList}. Items are plain objects, so scenes can change
+ * their labels and disabled state at any time, such as to show the value of an
+ * option in its label.
+ */
+export interface MenuItem {
+    /** Text shown for the item. */
+    label: string;
+
+    /** Whether the item is shown dimmed and cannot be selected. */
+    disabled?: boolean;
+
+    /** Called when the item is activated, unless it opens a submenu. */
+    select?: () => void;
+
+    /**
+     * Called when the selected item is changed to the left or right, for items
+     * which choose between values.
+     *
+     * @param offset - Direction of the change, -1 for left or 1 for right.
+     */
+    change?: (offset: number) => void;
+
+    /** Items of the submenu opened when the item is activated, if any. */
+    submenu?: MenuItem[];
+}
+
+/** Items of an open menu and the index of the item selected in it. */
+interface MenuLevel {
+    items: MenuItem[];
+    selectedIndex: number;
+}
+
+/**
+ * Drawable vertical list of menu items, centered horizontally on its position,
+ * with the selected item highlighted. The selection moves between enabled
+ * items, wrapping around at either end, and follows the pointer.
+ *
+ * Activating an item runs its callback, or opens its submenu in place of the
+ * list until {@link back} is called. Items which choose between values show
+ * arrows either side of their label while selected.
+ */
+export class MenuList implements Drawable {
+    /** Center of the top edge of the list on the canvas. */
+    position: V2d;
+
+    /** Properties of the font used to draw the items. */
+    font: FontMetadata;
+
+    /** Vertical space between items in pixels. */
+    spacing: number;
+
+    /** Color of items which are not selected. */
+    fillColor: ColorComponents;
+
+    /** Color of the selected item. */
+    highlightColor: ColorComponents;
+
+    /** Color of disabled items. */
+    disabledColor: ColorComponents;
+
+    /** Items of the open menu, which may be a submenu. */
+    get items(): readonly MenuItem[] {
+        return this.currentLevel.items;
+    }
+
+    /** Index of the selected item in {@link items}, or -1 if none. */
+    get selectedIndex(): number {
+        return this.currentLevel.selectedIndex;
+    }
+
+    /** Selected item, if any. */
+    get selectedItem(): MenuItem | undefined {
+        return this.items[this.selectedIndex];
+    }
+
+    /** Number of submenus open above the top menu. */
+    get depth(): number {
+        return this.levels.length - 1;
+    }
+
+    /** Open menus, from the top menu to the open submenu. */
+    private levels: MenuLevel[];
+
+    /** Open menu or submenu. */
+    private get currentLevel(): MenuLevel {
+        return this.levels[this.levels.length - 1];
+    }
+
+    /**
+     * Creates a new menu list with the first enabled item selected.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.items - Items of the top menu.
+     * @param props.position - Center of the top edge of the list on the
+     * canvas.
+     * @param props.font - Properties of the font used to draw the items.
+     * @param props.spacing - Vertical space between items in pixels.
+     * @param props.fillColor - Color of items which are not selected.
+     * @param props.highlightColor - Color of the selected item.
+     * @param props.disabledColor - Color of disabled items.
+     */
+    constructor({
+        items,
+        position = { x: 0, y: 0 },
+        font,
+        spacing = 12,
+        fillColor = { red: 255, green: 255, blue: 255 },
+        highlightColor = { red: 255, green: 215, blue: 0 },
+        disabledColor = { red: 128, green: 128, blue: 128 },
+    }: {
+        items: MenuItem[];
+        position?: V2d;
+        font: FontMetadata;
+        spacing?: number;
+        fillColor?: ColorComponents;
+        highlightColor?: ColorComponents;
+        disabledColor?: ColorComponents;
+    }) {
+        this.position = { ...position };
+        this.font = font;
+        this.spacing = spacing;
+        this.fillColor = fillColor;
+        this.highlightColor = highlightColor;
+        this.disabledColor = disabledColor;
+        this.levels = [MenuList.openLevel(items)];
+    }
+
+    /**
+     * Moves the selection to an enabled item, skipping disabled items and
+     * wrapping around at either end. The selection is unchanged if no other
+     * item is enabled.
+     *
+     * @param offset - Number of enabled items to move by, negative to move up.
+     */
+    moveSelection(offset: number): void {
+        const level = this.currentLevel;
+        if (level.items.every((item) => item.disabled)) {
+            return;
+        }
+
+        // Step one item at a time, stepping again past disabled items. An
+        // enabled item is always reached, so each search ends.
+        const count = level.items.length;
+        const step = Math.sign(offset);
+        let index = level.selectedIndex;
+        for (let moved = 0; moved < Math.abs(offset); ++moved) {
+            do {
+                index = (index + step + count) % count;
+            } while (level.items[index].disabled);
+        }
+        level.selectedIndex = index;
+    }
+
+    /**
+     * Activates the selected item, opening its submenu if it has one and
+     * otherwise running its callback. Disabled items are not activated.
+     *
+     * @returns `true` if an item was activated, otherwise `false`.
+     */
+    activate(): boolean {
+        const item = this.selectedItem;
+        if (item === undefined || item.disabled) {
+            return false;
+        }
+        if (item.submenu !== undefined) {
+            this.levels.push(MenuList.openLevel(item.submenu));
+        } else {
+            item.select?.();
+        }
+        return true;
+    }
+
+    /**
+     * Changes the selected item to the left or right, if it chooses between
+     * values and is enabled.
+     *
+     * @param offset - Direction of the change, -1 for left or 1 for right.
+     * @returns `true` if the item was changed, otherwise `false`.
+     */
+    change(offset: number): boolean {
+        const item = this.selectedItem;
+        if (item?.change === undefined || item.disabled) {
+            return false;
+        }
+        item.change(offset);
+        return true;
+    }
+
+    /**
+     * Closes the open submenu, returning to the menu which opened it.
+     *
+     * @returns `true` if a submenu was closed, or `false` if the top menu is
+     * open.
+     */
+    back(): boolean {
+        if (this.levels.length <= 1) {
+            return false;
+        }
+        this.levels.pop();
+        return true;
+    }
+
+    /** Closes any open submenus and selects the first enabled item. */
+    reset(): void {
+        this.levels = [MenuList.openLevel(this.levels[0].items)];
+    }
+
+    /**
+     * Finds the item drawn at a point on the canvas.
+     *
+     * @param point - Point on the canvas, such as the pointer position.
+     * @returns Index of the item in {@link items}, or -1 if there is none.
+     */
+    itemAt(point: V2d): number {
+        return this.items.findIndex((item, index) => {
+            const rect = this.itemRect(index);
+            return (
+                point.x >= rect.min.x &&
+                point.x <= rect.max.x &&
+                point.y >= rect.min.y &&
+                point.y <= rect.max.y
+            );
+        });
+    }
+
+    /**
+     * Selects the enabled item under the pointer, if any.
+     *
+     * @param point - Position of the pointer on the canvas.
+     */
+    pointerMoved(point: V2d): void {
+        const index = this.itemAt(point);
+        if (index !== -1 && !this.items[index].disabled) {
+            this.currentLevel.selectedIndex = index;
+        }
+    }
+
+    /**
+     * Selects and activates the enabled item under the pointer, if any.
+     *
+     * @param point - Position of the pointer on the canvas.
+     * @returns `true` if an item was activated, otherwise `false`.
+     */
+    pointerPressed(point: V2d): boolean {
+        const index = this.itemAt(point);
+        if (index === -1 || this.items[index].disabled) {
+            return false;
+        }
+        this.currentLevel.selectedIndex = index;
+        return this.activate();
+    }
+
+    /**
+     * Draws each item of the open menu onto the canvas, with the selected
+     * item in bold.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.noStroke();
+        p.textAlign(p.CENTER);
+        p.textSize(this.font.size);
+        this.items.forEach((item, index) => {
+            const isSelected = index === this.selectedIndex;
+            if (item.disabled) {
+                fill(p, this.disabledColor);
+            } else if (isSelected) {
+                fill(p, this.highlightColor);
+            } else {
+                fill(p, this.fillColor);
+            }
+            p.textStyle(
+                isSelected || this.font.weight === "bold" ? "bold" : "normal"
+            );
+            p.text(
+                this.displayText(index),
+                this.position.x,
+                this.itemTop(index) + this.font.size
+            );
+        });
+    }
+
+    /**
+     * Gets the text drawn for an item, with arrows either side of the label
+     * if the item is selected and chooses between values.
+     *
+     * @param index - Index of the item in {@link items}.
+     * @returns Text to draw.
+     */
+    private displayText(index: number): string {
+        const item = this.items[index];
+        return index === this.selectedIndex && item.change !== undefined
+            ? `< ${item.label} >`
+            : item.label;
+    }
+
+    /**
+     * Computes the area of the canvas covered by an item, including half of
+     * the spacing above and below it.
+     *
+     * @param index - Index of the item in {@link items}.
+     * @returns Bounds of the item.
+     */
+    private itemRect(index: number): Rect {
+        const halfWidth =
+            TextProperties.getWidth(this.displayText(index), this.font) / 2;
+        const top = this.itemTop(index);
+        return {
+            min: { x: this.position.x - halfWidth, y: top - this.spacing / 2 },
+            max: {
+                x: this.position.x + halfWidth,
+                y: top + this.font.size + this.spacing / 2,
+            },
+        };
+    }
+
+    /**
+     * Computes the y-coordinate of the top of an item's text.
+     *
+     * @param index - Index of the item in {@link items}.
+     * @returns Top of the item on the canvas in pixels.
+     */
+    private itemTop(index: number): number {
+        return this.position.y + index * (this.font.size + this.spacing);
+    }
+
+    /**
+     * Opens a menu with its first enabled item selected.
+     *
+     * @param items - Items of the menu.
+     * @returns Open menu.
+     */
+    private static openLevel(items: MenuItem[]): MenuLevel {
+        return {
+            items: items,
+            selectedIndex: items.findIndex((item) => !item.disabled),
+        };
+    }
+}
@@ -0,0 +1,382 @@
+/**
+ * @file Pooled particle effects, such as bursts and dust clouds.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import { ColorComponents } from "@game/utils/color";
+import { Drawable } from "@game/utils/drawable";
+import { V2d } from "@game/utils/vector";
+
+/**
+ * Area in which particles are created, centered on the emitted position. A
+ * point creates every particle at the same position.
+ */
+export type EmitterShape =
+    | { readonly type: "point" }
+    | { readonly type: "circle"; readonly radius: number }
+    | {
+          readonly type: "rect";
+          readonly width: number;
+          readonly height: number;
+      };
+
+/** Range from which a random value is chosen for each particle. */
+export interface NumberRange {
+    readonly min: number;
+    readonly max: number;
+}
+
+/** Value which changes linearly over a particle's life. */
+export interface ValueOverLife {
+    /** Value when the particle is created. */
+    readonly start: number;
+
+    /** Value when the particle dies. */
+    readonly end: number;
+}
+
+/** Appearance and motion of the particles created by a single emission. */
+export interface ParticleEffect {
+    /** Number of particles created. */
+    readonly count: number;
+
+    /** Area in which particles are created. */
+    readonly shape: EmitterShape;
+
+    /** Lifetime of each particle in milliseconds. */
+    readonly lifetime: NumberRange;
+
+    /** Starting speed of each particle in pixels per millisecond. */
+    readonly speed: NumberRange;
+
+    /**
+     * Mean direction of the starting velocity in radians, measured clockwise
+     * from the positive x-axis, so that `-Math.PI / 2` is up the canvas.
+     */
+    readonly direction: number;
+
+    /** Total angle in radians across which directions are spread. */
+    readonly spread: number;
+
+    /**
+     * Acceleration down the canvas in pixels per millisecond squared. Negative
+     * gravity makes particles float upwards.
+     */
+    readonly gravity: number;
+
+    /** Diameter in pixels over each particle's life. */
+    readonly size: ValueOverLife;
+
+    /**
+     * Colors over each particle's life, evenly spaced from creation to death.
+     * Only the color components are used.
+     */
+    readonly colors: readonly ColorComponents[];
+
+    /** Alpha (0-255) over each particle's life. */
+    readonly alpha: ValueOverLife;
+}
+
+/** Effects shown by the game, by name. */
+export const ParticleEffects = {
+    /** Sparks thrown out in every direction when an item is caught. */
+    catchBurst: {
+        count: 16,
+        shape: { type: "circle", radius: 8 },
+        lifetime: { min: 300, max: 600 },
+        speed: { min: 0.1, max: 0.35 },
+        direction: -Math.PI / 2,
+        spread: 2 * Math.PI,
+        gravity: 0.0006,
+        size: { start: 10, end: 2 },
+        colors: [
+            { red: 255, green: 255, blue: 255 },
+            { red: 255, green: 215, blue: 0 },
+        ],
+        alpha: { start: 255, end: 0 },
+    },
+
+    /** Droplets thrown upwards when an item hits the ground. */
+    missSplash: {
+        count: 12,
+        shape: { type: "rect", width: 40, height: 0 },
+        lifetime: { min: 250, max: 500 },
+        speed: { min: 0.2, max: 0.45 },
+        direction: -Math.PI / 2,
+        spread: Math.PI / 2,
+        gravity: 0.0015,
+        size: { start: 8, end: 4 },
+        colors: [{ red: 160, green: 160, blue: 160 }],
+        alpha: { start: 220, end: 0 },
+    },
+
+    /** Slowly spreading dust kicked up when the player lands. */
+    landingDust: {
+        count: 10,
+        shape: { type: "rect", width: 120, height: 8 },
+        lifetime: { min: 300, max: 700 },
+        speed: { min: 0.01, max: 0.06 },
+        direction: -Math.PI / 2,
+        spread: Math.PI,
+        gravity: -0.00005,
+        size: { start: 8, end: 24 },
+        colors: [
+            { red: 200, green: 190, blue: 170 },
+            { red: 140, green: 130, blue: 120 },
+        ],
+        alpha: { start: 150, end: 0 },
+    },
+} as const satisfies Record<string, ParticleEffect>;
+
+/** Single particle, reused once it dies. */
+interface Particle {
+    position: V2d;
+    velocity: V2d;
+
+    /** Time in milliseconds since the particle was created. */
+    age: number;
+
+    /** Time in milliseconds after which the particle dies. */
+    lifetime: number;
+
+    /** Effect which created the particle. */
+    effect: ParticleEffect;
+
+    /** Colors over the particle's life. */
+    colors: readonly ColorComponents[];
+}
+
+/**
+ * Creates, moves and draws short-lived particles for visual effects. Any scene
+ * can own a particle system, emit effects into it, and update and draw it
+ * along with its other objects. Dead particles are pooled and reused, and no
+ * more than a fixed number of particles are alive at once.
+ */
+export class ParticleSystem implements Drawable {
+    /** Number of particles currently alive. */
+    get activeCount(): number {
+        return this.active.length;
+    }
+
+    /** Number of dead particles waiting to be reused. */
+    get pooledCount(): number {
+        return this.pool.length;
+    }
+
+    /** Largest number of particles alive at once. */
+    readonly maxParticles: number;
+
+    /** Particles currently alive. */
+    private active: Particle[] = [];
+
+    /** Dead particles waiting to be reused. */
+    private pool: Particle[] = [];
+
+    /** Source of random numbers used to vary each particle. */
+    private random: () => number;
+
+    /**
+     * Creates a new particle system with no particles.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.maxParticles - Largest number of particles alive at once.
+     * Particles emitted beyond this are not created.
+     * @param props.random - Source of random numbers from 0 (inclusive) to 1
+     * (exclusive), used to vary each particle.
+     */
+    constructor({
+        maxParticles = 512,
+        random = Math.random,
+    }: {
+        maxParticles?: number;
+        random?: () => number;
+    } = {}) {
+        this.maxParticles = maxParticles;
+        this.random = random;
+    }
+
+    /**
+     * Creates the particles of an effect.
+     *
+     * @param effect - Effect to emit.
+     * @param position - Center of the emitter shape on the canvas.
+     * @param colors - Colors over each particle's life, replacing those of
+     * the effect, such as to match the color of a caught item.
+     */
+    emit(
+        effect: ParticleEffect,
+        position: V2d,
+        colors: readonly ColorComponents[] = effect.colors
+    ): void {
+        const count = Math.min(
+            effect.count,
+            this.maxParticles - this.active.length
+        );
+        for (let i = 0; i < count; ++i) {
+            const particle = this.pool.pop() ?? {
+                position: { x: 0, y: 0 },
+                velocity: { x: 0, y: 0 },
+                age: 0,
+                lifetime: 0,
+                effect: effect,
+                colors: colors,
+            };
+            const offset = this.pointIn(effect.shape);
+            const angle =
+                effect.direction + (this.random() - 0.5) * effect.spread;
+            const speed = this.between(effect.speed);
+            particle.position.x = position.x + offset.x;
+            particle.position.y = position.y + offset.y;
+            particle.velocity.x = Math.cos(angle) * speed;
+            particle.velocity.y = Math.sin(angle) * speed;
+            particle.age = 0;
+            particle.lifetime = this.between(effect.lifetime);
+            particle.effect = effect;
+            particle.colors = colors;
+            this.active.push(particle);
+        }
+    }
+
+    /**
+     * Ages and moves every particle, removing those which have died.
+     *
+     * @param deltaTime - Time in milliseconds since the last update.
+     */
+    update(deltaTime: number): void {
+        for (let i = this.active.length - 1; i >= 0; --i) {
+            const particle = this.active[i];
+            particle.age += deltaTime;
+            if (particle.age >= particle.lifetime) {
+                // Replace the dead particle with the last particle, so that
+                // no particles are moved along the list.
+                this.active[i] = this.active[this.active.length - 1];
+                this.active.pop();
+                this.pool.push(particle);
+                continue;
+            }
+            particle.velocity.y += particle.effect.gravity * deltaTime;
+            particle.position.x += particle.velocity.x * deltaTime;
+            particle.position.y += particle.velocity.y * deltaTime;
+        }
+    }
+
+    /**
+     * Draws every particle onto the canvas as a circle.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.noStroke();
+        this.active.forEach((particle) => {
+            const life = particle.age / particle.lifetime;
+            const color = ParticleSystem.colorAt(particle.colors, life);
+            const size = ParticleSystem.lerp(particle.effect.size, life);
+            p.fill(
+                color.red,
+                color.green,
+                color.blue,
+                ParticleSystem.lerp(particle.effect.alpha, life)
+            );
+            p.ellipse(particle.position.x, particle.position.y, size, size);
+        });
+    }
+
+    /** Removes every particle and pools them for reuse. */
+    clear(): void {
+        this.pool.push(...this.active);
+        this.active = [];
+    }
+
+    /**
+     * Chooses a random point within an emitter shape.
+     *
+     * @param shape - Emitter shape.
+     * @returns Point relative to the center of the shape.
+     */
+    private pointIn(shape: EmitterShape): V2d {
+        switch (shape.type) {
+            case "point":
+                return { x: 0, y: 0 };
+            case "circle": {
+                // Take the square root so that points are spread evenly over
+                // the area of the circle rather than bunched at its center.
+                const distance = Math.sqrt(this.random()) * shape.radius;
+                const angle = this.random() * 2 * Math.PI;
+                return {
+                    x: Math.cos(angle) * distance,
+                    y: Math.sin(angle) * distance,
+                };
+            }
+            case "rect":
+                return {
+                    x: (this.random() - 0.5) * shape.width,
+                    y: (this.random() - 0.5) * shape.height,
+                };
+        }
+    }
+
+    /**
+     * Chooses a random value within a range.
+     *
+     * @param range - Range of values.
+     * @returns Random value.
+     */
+    private between(range: NumberRange): number {
+        return range.min + this.random() * (range.max - range.min);
+    }
+
+    /**
+     * Gets a value part of the way through a particle's life.
+     *
+     * @param value - Value over the particle's life.
+     * @param life - Fraction of the particle's life which has passed.
+     * @returns Value at that point.
+     */
+    private static lerp(value: ValueOverLife, life: number): number {
+        return value.start + (value.end - value.start) * life;
+    }
+
+    /**
+     * Gets the color part of the way through a particle's life, blending
+     * between the two nearest colors.
+     *
+     * @param colors - Colors evenly spaced over the particle's life.
+     * @param life - Fraction of the particle's life which has passed.
+     * @returns Blended color.
+     */
+    private static colorAt(
+        colors: readonly ColorComponents[],
+        life: number
+    ): ColorComponents {
+        if (colors.length === 1) {
+            return colors[0];
+        }
+        const position = life * (colors.length - 1);
+        const index = Math.min(Math.floor(position), colors.length - 2);
+        const t = position - index;
+        const from = colors[index];
+        const to = colors[index + 1];
+        return {
+            red: from.red + (to.red - from.red) * t,
+            green: from.green + (to.green - from.green) * t,
+            blue: from.blue + (to.blue - from.blue) * t,
+        };
+    }
+}
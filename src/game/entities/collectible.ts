@@ -20,14 +20,23 @@
 
 import * as p5 from "p5";
 
+import {
+    CollectibleKind,
+    CollectibleKinds,
+} from "@game/simulation/collectible-kind";
+import { Collider } from "@game/utils/collider";
 import { MovingEntity } from "@game/utils/entity";
 import { Sprite } from "@game/utils/sprite";
+import { World } from "@game/utils/world";
 
 /**
  * Entity representing an item on the canvas which can be collected by the
- * player.
+ * player. Its points, appearance and catch effect are defined by its kind.
  */
 export class Collectible extends MovingEntity {
+    /** Kind of item, defining its points, appearance and catch effect. */
+    kind: CollectibleKind;
+
     /**
      * Creates a new collectible entity.
      *
@@ -37,6 +46,10 @@ export class Collectible extends MovingEntity {
      * @param props.dx - x-velocity in pixels per millisecond.
      * @param props.dy - y-velocity in pixels per millisecond.
      * @param props.sprite - Sprite with which to draw the entity.
+     * @param props.kind - Kind of item. The sprite's size is only set from the
+     * kind by {@link reset}.
+     * @param props.collider - Shape used to detect collisions. Defaults to a
+     * circle as wide as the sprite, matching the shape drawn without art.
      */
     constructor({
         x = 0,
@@ -44,51 +57,114 @@ export class Collectible extends MovingEntity {
         dx = 0,
         dy = 0,
         sprite,
+        kind = CollectibleKinds.basic,
+        collider = new Collider({
+            shape: { type: "circle", radius: sprite.centerPoint.x },
+        }),
     }: {
         x?: number;
         y?: number;
         dx?: number;
         dy?: number;
         sprite: Sprite;
+        kind?: CollectibleKind;
+        collider?: Collider;
     }) {
-        super({ x: x, y: y, dx: dx, dy: dy, sprite: sprite });
+        super({
+            x: x,
+            y: y,
+            dx: dx,
+            dy: dy,
+            sprite: sprite,
+            collider: collider,
+        });
+        this.kind = kind;
+    }
+
+    /**
+     * Moves the entity to a new position and trajectory, so that a removed
+     * entity can be reused without interpolating from its old position.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.x - x-coordinate in pixels.
+     * @param props.y - y-coordinate in pixels.
+     * @param props.dx - x-velocity in pixels per millisecond.
+     * @param props.dy - y-velocity in pixels per millisecond.
+     * @param props.kind - New kind of item, which also sets the sprite's size
+     * and the radius of a circular collider. The current kind is kept if not
+     * given.
+     */
+    reset({
+        x = 0,
+        y = 0,
+        dx = 0,
+        dy = 0,
+        kind,
+    }: {
+        x?: number;
+        y?: number;
+        dx?: number;
+        dy?: number;
+        kind?: CollectibleKind;
+    }): void {
+        if (kind !== undefined) {
+            this.kind = kind;
+            this.sprite.size = { x: kind.size, y: kind.size };
+            if (this.collider.shape.type === "circle") {
+                this.collider = new Collider({
+                    shape: { type: "circle", radius: kind.size / 2 },
+                    offset: this.collider.offset,
+                });
+            }
+        }
+        this.position = { x: x, y: y };
+        this.velocity = { x: dx, y: dy };
+        this.storePreviousPosition();
+        this.renderPosition = { x: x, y: y };
     }
 
     /**
      * Updates the canvas position of the entity using the current trajectory
-     * properties.
+     * properties, and advances its sprite's animation.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      */
-    update(p: p5): void {
-        this.updatePosition(p);
+    update(world: World): void {
+        this.updatePosition(world);
+        this.sprite.update(world.deltaTime);
     }
 
     /**
      * Updates the canvas position of the entity using the current trajectory
      * properties.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      */
-    private updatePosition(p: p5): void {
-        this.position.y = Collectible.calcAxisPosition(p, {
+    private updatePosition(world: World): void {
+        this.position.y = Collectible.calcAxisPosition(world, {
             currentPosition: this.position.y,
             velocity: this.velocity.y,
         });
     }
 
     /**
-     * Draws the collectible's sprite onto the canvas. Should be called once per
-     * frame after calling {@link update}.
+     * Draws the collectible's sprite onto the canvas, or a filled circle in the
+     * color of its kind if the sprite has no art. Should be called once per
+     * frame after calling {@link interpolate}.
      *
      * @param p - p5 instance.
      */
     draw(p: p5): void {
+        if (this.sprite.draw(p, this.renderPosition)) {
+            return;
+        }
+
+        // Fall back to a shape if the sprite has no art.
         p.noStroke();
-        p.fill(200);
+        p.fill(this.kind.color);
         p.ellipse(
-            this.position.x,
-            this.position.y,
+            this.renderPosition.x,
+            this.renderPosition.y,
             this.sprite.size.x,
             this.sprite.size.y
         );
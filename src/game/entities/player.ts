@@ -23,8 +23,21 @@ import * as p5 from "p5";
 import { MovingEntity } from "@game/utils/entity";
 import { Sprite } from "@game/utils/sprite";
 import { V2d } from "@game/utils/vector";
+import { World } from "@game/utils/world";
 import { XDirection } from "@game/utils/direction";
 
+/**
+ * Animation states of the player, used as the names of the animations played
+ * by its sprite.
+ */
+export enum PlayerAnimationState {
+    Idle = "idle",
+    RunLeft = "runLeft",
+    RunRight = "runRight",
+    Rise = "rise",
+    Fall = "fall",
+}
+
 export class Player extends MovingEntity {
     /** x- and y-acceleration in pixels per millisecond squared. */
     acceleration: V2d;
@@ -51,6 +64,40 @@ export class Player extends MovingEntity {
     /** Jump flag set by user input. */
     isJumping: boolean;
 
+    /**
+     * x-coordinate in pixels which the player moves towards, set by pointer
+     * input. Overrides {@link inputDirection} while set.
+     */
+    targetX?: number;
+
+    /**
+     * Distance in pixels from {@link targetX} within which the player stops
+     * moving towards it, preventing the player from oscillating around the
+     * target after a small overshoot.
+     */
+    targetTolerance = 16;
+
+    /**
+     * Smallest x-speed in pixels per millisecond at which the player is
+     * animated as running rather than idle.
+     */
+    runSpeedThreshold = 0.05;
+
+    /** Whether the player is rising or falling from a jump. */
+    get isAirborne(): boolean {
+        return this.isRising || this.isFalling;
+    }
+
+    /** Animation state chosen from the player's movement in the last update. */
+    get animationState(): PlayerAnimationState {
+        return this._animationState;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link animationState}.
+     */
+    private _animationState = PlayerAnimationState.Idle;
+
     /**
      * Flag signifying upwards acceleration in the y-axis, set at the start of a
      * jump.
@@ -80,33 +127,80 @@ export class Player extends MovingEntity {
     }
 
     /**
-     * Resets the player position to the bottom left of the canvas.
+     * Resets the player's movement, input and state flags, and moves the
+     * player to the bottom left of the world.
      *
-     * @param p - p5 instance.
+     * @param bounds - Width (x) and height (y) of the world in pixels.
      */
-    resetPosition(p: p5): void {
+    reset(bounds: V2d): void {
+        this.acceleration = { x: 0, y: 0 };
+        this.velocity = { x: 0, y: 0 };
+        this.inputDirection = { left: false, right: false };
+        this.isJumping = false;
+        this.targetX = undefined;
+        this.isRising = false;
+        this.isFalling = false;
+        this._animationState = PlayerAnimationState.Idle;
+        this.sprite.play(this._animationState, true);
+        this.resetPosition(bounds);
+    }
+
+    /**
+     * Resets the player position to the bottom left of the world.
+     *
+     * @param bounds - Width (x) and height (y) of the world in pixels.
+     */
+    resetPosition(bounds: V2d): void {
         this.position.x = this.sprite.centerPoint.x;
-        this.position.y = p.height - this.sprite.centerPoint.y;
+        this.position.y = bounds.y - this.sprite.centerPoint.y;
+        this.storePreviousPosition();
     }
 
     /**
      * Updates all calculated properties of the player. Should be called once
-     * per frame before calling {@link draw}.
+     * per fixed update step.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
+     */
+    update(world: World): void {
+        this.updateTrajectory(world);
+        this.updatePosition(world);
+        this.updateAnimation(world);
+    }
+
+    /**
+     * Chooses the animation state from the jump flags and x-velocity, and
+     * advances the sprite's animation for that state.
+     *
+     * @param world - Context in which the update is simulated.
      */
-    update(p: p5): void {
-        this.updateTrajectory(p);
-        this.updatePosition(p);
+    private updateAnimation(world: World): void {
+        if (this.isRising) {
+            this._animationState = PlayerAnimationState.Rise;
+        } else if (this.isFalling) {
+            this._animationState = PlayerAnimationState.Fall;
+        } else if (this.velocity.x <= -this.runSpeedThreshold) {
+            this._animationState = PlayerAnimationState.RunLeft;
+        } else if (this.velocity.x >= this.runSpeedThreshold) {
+            this._animationState = PlayerAnimationState.RunRight;
+        } else {
+            this._animationState = PlayerAnimationState.Idle;
+        }
+        this.sprite.play(this._animationState);
+        this.sprite.update(world.deltaTime);
     }
 
     /**
      * Updates the acceleration, velocity and internal movement states of the
      * player.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      */
-    private updateTrajectory(p: p5): void {
+    private updateTrajectory(world: World): void {
+        if (this.targetX !== undefined) {
+            this.followTarget(this.targetX);
+        }
+
         this.acceleration.x = 0;
         this.acceleration.y = 0;
         if (this.inputDirection.left) {
@@ -127,19 +221,19 @@ export class Player extends MovingEntity {
                 this.isFalling = true;
             }
         } else if (this.isFalling) {
-            if (this.position.y < p.height - this.sprite.centerPoint.y) {
+            if (this.position.y < world.bounds.y - this.sprite.centerPoint.y) {
                 this.acceleration.y = this.decelerationModifier.y;
             } else {
                 this.isFalling = false;
             }
         }
 
-        this.velocity.x = Player.calcAxisVelocity(p, {
+        this.velocity.x = Player.calcAxisVelocity(world, {
             currentVelocity: this.velocity.x,
             acceleration: this.acceleration.x,
             decelerationModifier: this.decelerationModifier.x,
         });
-        this.velocity.y = Player.calcAxisVelocity(p, {
+        this.velocity.y = Player.calcAxisVelocity(world, {
             currentVelocity: this.velocity.y,
             acceleration: this.acceleration.y,
             decelerationModifier: this.decelerationModifier.y,
@@ -157,31 +251,57 @@ export class Player extends MovingEntity {
         }
     }
 
+    /**
+     * Sets the input direction towards a target x-coordinate, releasing it
+     * once the player is within the distance needed to decelerate to a stop
+     * or within the target tolerance, so that the player does not overshoot
+     * the target.
+     *
+     * @param targetX - x-coordinate in pixels to move towards.
+     */
+    private followTarget(targetX: number): void {
+        const distance = targetX - this.position.x;
+        const stoppingDistance = Math.max(
+            this.decelerationModifier.x > 0
+                ? Math.abs(this.velocity.x) / this.decelerationModifier.x
+                : 0,
+            this.targetTolerance
+        );
+        this.inputDirection.left = distance < -stoppingDistance;
+        this.inputDirection.right = distance > stoppingDistance;
+    }
+
     /**
      * Updates the canvas position of the player sprite using the current
-     * trajectory properties and canvas limits.
+     * trajectory properties and world limits.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      */
-    private updatePosition(p: p5): void {
-        this.position.x = Player.calcAxisPosition(p, {
+    private updatePosition(world: World): void {
+        this.position.x = Player.calcAxisPosition(world, {
             currentPosition: this.position.x,
             velocity: this.velocity.x,
         });
-        this.position.y = Player.calcAxisPosition(p, {
+        this.position.y = Player.calcAxisPosition(world, {
             currentPosition: this.position.y,
             velocity: this.velocity.y,
         });
 
         if (this.position.x < this.sprite.centerPoint.x) {
             this.position.x = this.sprite.centerPoint.x;
-        } else if (this.position.x > p.width - this.sprite.centerPoint.x) {
-            this.position.x = p.width - this.sprite.centerPoint.x;
+        } else if (
+            this.position.x >
+            world.bounds.x - this.sprite.centerPoint.x
+        ) {
+            this.position.x = world.bounds.x - this.sprite.centerPoint.x;
         }
         if (this.position.y < this.sprite.centerPoint.y) {
             this.position.y = this.sprite.centerPoint.y;
-        } else if (this.position.y > p.height - this.sprite.centerPoint.y) {
-            this.position.y = p.height - this.sprite.centerPoint.y;
+        } else if (
+            this.position.y >
+            world.bounds.y - this.sprite.centerPoint.y
+        ) {
+            this.position.y = world.bounds.y - this.sprite.centerPoint.y;
         }
     }
 
@@ -189,7 +309,7 @@ export class Player extends MovingEntity {
      * Calculates the player's velocity in pixels per millisecond along a single
      * axis of the canvas.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      * @param props - Destructured property parameters.
      * @param props.currentVelocity - The current velocity in pixels per
      * millisecond along the single axis of the canvas.
@@ -200,7 +320,7 @@ export class Player extends MovingEntity {
      * may intentionally counteract the current acceleration.
      */
     private static calcAxisVelocity(
-        p: p5,
+        world: World,
         {
             currentVelocity,
             acceleration,
@@ -211,8 +331,8 @@ export class Player extends MovingEntity {
             decelerationModifier: number;
         }
     ): number {
-        let velocity = currentVelocity + p.deltaTime * acceleration;
-        velocity *= 1 - p.deltaTime * decelerationModifier;
+        let velocity = currentVelocity + world.deltaTime * acceleration;
+        velocity *= 1 - world.deltaTime * decelerationModifier;
         if (
             (velocity > 0 && velocity < decelerationModifier) ||
             (velocity < 0 && velocity > -decelerationModifier)
@@ -223,17 +343,23 @@ export class Player extends MovingEntity {
     }
 
     /**
-     * Draws the player sprite onto the canvas. Should be called once per frame
-     * after calling {@link update}.
+     * Draws the player sprite onto the canvas, or a white ellipse if the sprite
+     * has no art. Should be called once per frame after calling
+     * {@link interpolate}.
      *
      * @param p - p5 instance.
      */
     draw(p: p5): void {
+        if (this.sprite.draw(p, this.renderPosition)) {
+            return;
+        }
+
+        // Fall back to a shape if the sprite has no art.
         p.noStroke();
         p.fill(255);
         p.ellipse(
-            this.position.x,
-            this.position.y,
+            this.renderPosition.x,
+            this.renderPosition.y,
             this.sprite.size.x,
             this.sprite.size.y
         );
@@ -0,0 +1,266 @@
+/**
+ * @file Gamepad polling and mapping of controls to input actions.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { InputAction } from "@game/input/input-map";
+
+/** State of a single gamepad button, such as {@link GamepadButton}. */
+export interface GamepadButtonState {
+    /** Whether the button is pressed. */
+    readonly pressed: boolean;
+}
+
+/**
+ * State of a connected controller, such as {@link Gamepad}. Only the
+ * properties used by {@link GamepadPoller} are required, so that fake
+ * controllers can be created in tests.
+ */
+export interface GamepadState {
+    /** Index of the controller, unique among connected controllers. */
+    readonly index: number;
+
+    /** Identifying description of the controller. */
+    readonly id: string;
+
+    /** Whether the controller is still connected. */
+    readonly connected: boolean;
+
+    /** Axis positions, from -1 to 1, with the left stick first. */
+    readonly axes: readonly number[];
+
+    /** Buttons, ordered by the standard gamepad mapping. */
+    readonly buttons: readonly GamepadButtonState[];
+}
+
+/**
+ * Provides the controllers to poll, such as {@link Navigator}. Empty slots are
+ * `null`.
+ */
+export interface GamepadSource {
+    /**
+     * Gets the state of all controllers.
+     *
+     * @returns State of the controller in each slot, or `null` for empty
+     * slots.
+     */
+    getGamepads(): readonly (GamepadState | null)[];
+}
+
+/** Changes found by a single call to {@link GamepadPoller.poll}. */
+export interface GamepadPollResult {
+    /** Actions which started being held on any controller. */
+    pressed: InputAction[];
+
+    /** Actions which stopped being held on all controllers. */
+    released: InputAction[];
+
+    /** Controllers which were connected since the last poll. */
+    connected: GamepadState[];
+
+    /** Indices of controllers which were disconnected since the last poll. */
+    disconnected: number[];
+}
+
+/**
+ * Button indices in the standard gamepad mapping. See
+ * {@link https://w3c.github.io/gamepad/#remapping}.
+ */
+export enum GamepadButton {
+    /** Bottom face button, such as A or cross. */
+    South = 0,
+    /** Right face button, such as B or circle. */
+    East = 1,
+    /** Left face button, such as X or square. */
+    West = 2,
+    /** Top face button, such as Y or triangle. */
+    North = 3,
+    /** Left center button, such as back or select. */
+    Select = 8,
+    /** Right center button, such as start or options. */
+    Start = 9,
+    /** Up on the directional pad. */
+    DPadUp = 12,
+    /** Down on the directional pad. */
+    DPadDown = 13,
+    /** Left on the directional pad. */
+    DPadLeft = 14,
+    /** Right on the directional pad. */
+    DPadRight = 15,
+}
+
+/** Buttons which hold each action. */
+export type GamepadBindings = Record<InputAction, GamepadButton[]>;
+
+/**
+ * Polls controllers once per frame, mapping the left stick and buttons to
+ * input actions. Actions held on any connected controller are treated as held,
+ * so that a controller being disconnected releases the actions it held.
+ */
+export class GamepadPoller {
+    /** Buttons bound to each action. */
+    static readonly bindings: Readonly<GamepadBindings> = {
+        moveLeft: [GamepadButton.DPadLeft],
+        moveRight: [GamepadButton.DPadRight],
+        jump: [GamepadButton.South],
+        confirm: [GamepadButton.South, GamepadButton.Start],
+        back: [GamepadButton.East],
+        pause: [GamepadButton.Start],
+        quit: [GamepadButton.Select],
+        navigateUp: [GamepadButton.DPadUp],
+        navigateDown: [GamepadButton.DPadDown],
+        showScores: [GamepadButton.North],
+        openSettings: [GamepadButton.West],
+        mute: [],
+    };
+
+    /**
+     * Distance from the center, from 0 to 1, within which stick movement is
+     * ignored. Prevents worn sticks which do not return exactly to the center
+     * from triggering movement.
+     */
+    deadZone: number;
+
+    /** Number of controllers connected as of the last poll. */
+    get connectedCount(): number {
+        return this.connectedIds.size;
+    }
+
+    /** Source from which controllers are polled. */
+    private source: GamepadSource;
+
+    /** Identifiers of controllers connected as of the last poll, by index. */
+    private connectedIds = new Map<number, string>();
+
+    /** Actions held on any controller as of the last poll. */
+    private heldActions = new Set<InputAction>();
+
+    /**
+     * Creates a new poller. No controllers are treated as connected until the
+     * first poll.
+     *
+     * @param props - Poller properties.
+     * @param props.source - Source from which controllers are polled.
+     * @param props.deadZone - Distance from the center, from 0 to 1, within
+     * which stick movement is ignored.
+     */
+    constructor({
+        source,
+        deadZone = 0.25,
+    }: {
+        source: GamepadSource;
+        deadZone?: number;
+    }) {
+        this.source = source;
+        this.deadZone = deadZone;
+    }
+
+    /**
+     * Reads the state of all controllers, finding actions which were pressed
+     * or released and controllers which were connected or disconnected since
+     * the last poll.
+     *
+     * @returns Changes since the last poll.
+     */
+    poll(): GamepadPollResult {
+        const pads = this.source
+            .getGamepads()
+            .filter((pad) => pad !== null && pad.connected);
+
+        // Compare connected controllers by index and identifier, as a
+        // different controller may take the slot of a disconnected one.
+        const connected = pads.filter(
+            (pad) => this.connectedIds.get(pad.index) !== pad.id
+        );
+        const disconnected: number[] = [];
+        this.connectedIds.forEach((id, index) => {
+            if (!pads.some((pad) => pad.index === index && pad.id === id)) {
+                disconnected.push(index);
+            }
+        });
+        this.connectedIds = new Map(pads.map((pad) => [pad.index, pad.id]));
+
+        const held = new Set<InputAction>();
+        pads.forEach((pad) => {
+            this.actionsHeldOn(pad).forEach((action) => held.add(action));
+        });
+        const pressed = GamepadPoller.actions.filter(
+            (action) => held.has(action) && !this.heldActions.has(action)
+        );
+        const released = GamepadPoller.actions.filter(
+            (action) => !held.has(action) && this.heldActions.has(action)
+        );
+        this.heldActions = held;
+
+        return { pressed, released, connected, disconnected };
+    }
+
+    /**
+     * Checks if an action was held on any controller as of the last poll.
+     *
+     * @param action - Action to check.
+     * @returns `true` if the action is held, otherwise `false`.
+     */
+    isDown(action: InputAction): boolean {
+        return this.heldActions.has(action);
+    }
+
+    /**
+     * Finds the actions held on a single controller by its buttons and left
+     * stick. Stick positions within the dead zone are ignored.
+     *
+     * @param pad - Controller to check.
+     * @returns Actions held on the controller.
+     */
+    private actionsHeldOn(pad: GamepadState): InputAction[] {
+        const [x = 0, y = 0] = pad.axes;
+        const stickActions: InputAction[] = [];
+        if (Math.abs(x) > this.deadZone) {
+            stickActions.push(x < 0 ? "moveLeft" : "moveRight");
+        }
+        if (Math.abs(y) > this.deadZone) {
+            stickActions.push(y < 0 ? "navigateUp" : "navigateDown");
+        }
+
+        return GamepadPoller.actions.filter(
+            (action) =>
+                stickActions.indexOf(action) !== -1 ||
+                GamepadPoller.bindings[action].some(
+                    (button) => pad.buttons[button]?.pressed
+                )
+        );
+    }
+
+    /** All actions which can be held on a controller. */
+    private static get actions(): InputAction[] {
+        return Object.keys(GamepadPoller.bindings) as InputAction[];
+    }
+}
+
+/**
+ * Gets the browser's controllers if the Gamepad API is supported, or
+ * otherwise a source without controllers.
+ *
+ * @returns Source from which controllers can be polled.
+ */
+export function createGamepadSource(): GamepadSource {
+    if (typeof navigator !== "undefined" && "getGamepads" in navigator) {
+        return navigator;
+    }
+    return { getGamepads: () => [] };
+}
@@ -0,0 +1,369 @@
+/**
+ * @file Action-based input mapping.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { KeyValueStorage } from "@game/utils/storage";
+
+/** Named action which can be triggered by one or more physical inputs. */
+export type InputAction =
+    | "moveLeft"
+    | "moveRight"
+    | "jump"
+    | "confirm"
+    | "back"
+    | "pause"
+    | "quit"
+    | "navigateUp"
+    | "navigateDown"
+    | "showScores"
+    | "openSettings"
+    | "mute";
+
+/**
+ * Keys bound to each action, as {@link KeyboardEvent.key} values. Single
+ * character keys are stored in lower case.
+ */
+export type InputBindings = Record<InputAction, string[]>;
+
+/**
+ * Maps physical keys to named actions and tracks which actions are held.
+ * Scenes query actions instead of key codes, so that keys can be rebound at
+ * runtime. Bindings are saved to storage when changed and loaded when the map
+ * is created.
+ */
+export class InputMap {
+    /** Bindings used for actions which have not been rebound. */
+    static readonly defaultBindings: Readonly<InputBindings> = {
+        moveLeft: ["ArrowLeft", "a"],
+        moveRight: ["ArrowRight", "d"],
+        jump: [" ", "ArrowUp", "w"],
+        confirm: ["Enter"],
+        back: ["Escape"],
+        pause: ["Escape", "p"],
+        quit: ["q"],
+        navigateUp: ["ArrowUp", "w"],
+        navigateDown: ["ArrowDown", "s"],
+        showScores: ["h"],
+        openSettings: ["o"],
+        mute: ["m"],
+    };
+
+    /** Keys bound to each action. */
+    get bindings(): Readonly<InputBindings> {
+        return this._bindings;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link bindings}.
+     */
+    private _bindings: InputBindings;
+
+    /** Keys currently held down. */
+    private heldKeys = new Set<string>();
+
+    /** Actions currently held by devices other than the keyboard. */
+    private heldDeviceActions = new Set<InputAction>();
+
+    /** Storage to which bindings are saved. */
+    private storage: KeyValueStorage;
+
+    /** Key under which bindings are saved in {@link storage}. */
+    private storageKey: string;
+
+    /**
+     * Creates a new input map, loading any saved bindings.
+     *
+     * @param storage - Storage to which bindings are saved.
+     * @param storageKey - Key under which bindings are saved in the storage.
+     */
+    constructor(
+        storage: KeyValueStorage,
+        storageKey = "catch-game.input-bindings"
+    ) {
+        this.storage = storage;
+        this.storageKey = storageKey;
+        this._bindings = InputMap.copyBindings(InputMap.defaultBindings);
+        this.load();
+    }
+
+    /**
+     * Checks if any key bound to an action is held down.
+     *
+     * @param action - Action to check.
+     * @returns `true` if the action is held, otherwise `false`.
+     */
+    isDown(action: InputAction): boolean {
+        return (
+            this.heldDeviceActions.has(action) ||
+            this._bindings[action].some((key) => this.heldKeys.has(key))
+        );
+    }
+
+    /**
+     * Gets the actions to which a key is bound.
+     *
+     * @param key - {@link KeyboardEvent.key} value, such as {@link p5.key}.
+     * @returns Actions bound to the key.
+     */
+    actionsFor(key: string): InputAction[] {
+        const normalized = InputMap.normalizeKey(key);
+        return InputMap.actions.filter(
+            (action) => this._bindings[action].indexOf(normalized) !== -1
+        );
+    }
+
+    /**
+     * Gets the name of the first key bound to an action as shown to the
+     * player, for prompts such as "Press RETURN to continue", so that prompts
+     * follow rebound keys.
+     *
+     * @param action - Action to describe.
+     * @returns Upper case name of the key, or "NO KEY" if none is bound.
+     */
+    keyLabel(action: InputAction): string {
+        const keys = this._bindings[action];
+        return keys.length === 0 ? "NO KEY" : InputMap.keyName(keys[0]);
+    }
+
+    /**
+     * Records that a key has been pressed.
+     *
+     * @param key - {@link KeyboardEvent.key} value, such as {@link p5.key}.
+     * @returns Actions which were not held before the key was pressed.
+     */
+    press(key: string): InputAction[] {
+        const actions = this.actionsFor(key).filter(
+            (action) => !this.isDown(action)
+        );
+        this.heldKeys.add(InputMap.normalizeKey(key));
+        return actions;
+    }
+
+    /**
+     * Records that a key has been released.
+     *
+     * @param key - {@link KeyboardEvent.key} value, such as {@link p5.key}.
+     * @returns Actions which are no longer held after the key was released.
+     */
+    release(key: string): InputAction[] {
+        this.heldKeys.delete(InputMap.normalizeKey(key));
+        return this.actionsFor(key).filter((action) => !this.isDown(action));
+    }
+
+    /**
+     * Records that an action has been pressed by a device other than the
+     * keyboard, such as a gamepad.
+     *
+     * @param action - Action which was pressed.
+     * @returns `true` if the action was not held before, otherwise `false`.
+     */
+    pressAction(action: InputAction): boolean {
+        const wasDown = this.isDown(action);
+        this.heldDeviceActions.add(action);
+        return !wasDown;
+    }
+
+    /**
+     * Records that an action has been released by a device other than the
+     * keyboard, such as a gamepad.
+     *
+     * @param action - Action which was released.
+     * @returns `true` if the action is no longer held, otherwise `false`.
+     */
+    releaseAction(action: InputAction): boolean {
+        this.heldDeviceActions.delete(action);
+        return !this.isDown(action);
+    }
+
+    /**
+     * Records that all keys and actions have been released, such as when the
+     * window loses focus and key releases are no longer received.
+     */
+    releaseAll(): void {
+        this.heldKeys.clear();
+        this.heldDeviceActions.clear();
+    }
+
+    /**
+     * Adds a key to the bindings of an action, and saves the bindings.
+     *
+     * @param action - Action to bind the key to.
+     * @param key - {@link KeyboardEvent.key} value.
+     */
+    bind(action: InputAction, key: string): void {
+        const normalized = InputMap.normalizeKey(key);
+        if (this._bindings[action].indexOf(normalized) === -1) {
+            this._bindings[action].push(normalized);
+            this.save();
+        }
+    }
+
+    /**
+     * Removes a key from the bindings of an action, and saves the bindings.
+     *
+     * @param action - Action to unbind the key from.
+     * @param key - {@link KeyboardEvent.key} value.
+     */
+    unbind(action: InputAction, key: string): void {
+        const normalized = InputMap.normalizeKey(key);
+        this._bindings[action] = this._bindings[action].filter(
+            (bound) => bound !== normalized
+        );
+        this.save();
+    }
+
+    /**
+     * Replaces all keys bound to an action, and saves the bindings.
+     *
+     * @param action - Action to rebind.
+     * @param keys - {@link KeyboardEvent.key} values.
+     */
+    setBindings(action: InputAction, keys: string[]): void {
+        this._bindings[action] = keys.map((key) => InputMap.normalizeKey(key));
+        this.save();
+    }
+
+    /**
+     * Replaces a single key bound to an action, keeping its other keys, and
+     * saves the bindings. The new key is unbound from the other given actions,
+     * so that a key only triggers one action in a group of actions used at
+     * the same time, such as movement and jumping.
+     *
+     * @param action - Action to rebind.
+     * @param slot - Index of the key to replace in the action's bindings. The
+     * key is added after the other keys if there is no key at the index.
+     * @param key - {@link KeyboardEvent.key} value.
+     * @param exclusive - Actions from which the key is unbound.
+     */
+    rebind(
+        action: InputAction,
+        slot: number,
+        key: string,
+        exclusive: readonly InputAction[] = []
+    ): void {
+        const normalized = InputMap.normalizeKey(key);
+        exclusive
+            .filter((other) => other !== action)
+            .forEach((other) => {
+                this._bindings[other] = this._bindings[other].filter(
+                    (bound) => bound !== normalized
+                );
+            });
+
+        // Keep the other keys of the action without repeating the new key.
+        const keys = this._bindings[action].slice();
+        if (slot >= 0 && slot < keys.length) {
+            keys[slot] = normalized;
+        } else {
+            keys.push(normalized);
+        }
+        this._bindings[action] = keys.filter(
+            (bound, index) => keys.indexOf(bound) === index
+        );
+        this.save();
+    }
+
+    /** Restores the default bindings of all actions, and saves them. */
+    resetBindings(): void {
+        this._bindings = InputMap.copyBindings(InputMap.defaultBindings);
+        this.save();
+    }
+
+    /** Saves the bindings of all actions to storage. */
+    private save(): void {
+        this.storage.setItem(this.storageKey, JSON.stringify(this._bindings));
+    }
+
+    /**
+     * Loads saved bindings from storage. Actions without valid saved bindings
+     * keep their default bindings.
+     */
+    private load(): void {
+        let saved: unknown;
+        try {
+            saved = JSON.parse(this.storage.getItem(this.storageKey));
+        } catch {
+            return;
+        }
+        if (typeof saved !== "object" || saved === null) {
+            return;
+        }
+
+        InputMap.actions.forEach((action) => {
+            const keys = (saved as Record<string, unknown>)[action];
+            if (
+                Array.isArray(keys) &&
+                keys.every((key) => typeof key === "string")
+            ) {
+                this._bindings[action] = keys.map((key) =>
+                    InputMap.normalizeKey(key)
+                );
+            }
+        });
+    }
+
+    /**
+     * Gets the name of a key as shown to the player, such as "SPACE" or "A".
+     *
+     * @param key - {@link KeyboardEvent.key} value.
+     * @returns Upper case name of the key.
+     */
+    static keyName(key: string): string {
+        switch (key) {
+            case " ":
+                return "SPACE";
+            case "Enter":
+                return "RETURN";
+            default:
+                return key.replace(/^Arrow/, "").toUpperCase();
+        }
+    }
+
+    /** All actions which can be bound. */
+    private static get actions(): InputAction[] {
+        return Object.keys(InputMap.defaultBindings) as InputAction[];
+    }
+
+    /**
+     * Creates a deep copy of a set of bindings.
+     *
+     * @param bindings - Bindings to copy.
+     * @returns New bindings with the same keys.
+     */
+    private static copyBindings(
+        bindings: Readonly<InputBindings>
+    ): InputBindings {
+        const copy = {} as InputBindings;
+        InputMap.actions.forEach((action) => {
+            copy[action] = bindings[action].slice();
+        });
+        return copy;
+    }
+
+    /**
+     * Converts a key to the form in which it is bound, so that keys are matched
+     * regardless of the state of modifier keys such as SHIFT.
+     *
+     * @param key - {@link KeyboardEvent.key} value.
+     * @returns Lower case key for single characters, otherwise the given key.
+     */
+    private static normalizeKey(key: string): string {
+        return key.length === 1 ? key.toLowerCase() : key;
+    }
+}
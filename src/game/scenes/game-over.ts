@@ -0,0 +1,196 @@
+/**
+ * @file Game over scene class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    Scene,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    ScenePayloads,
+    SceneSetupHandler,
+} from "@game/utils/scene";
+import { InputAction } from "@game/input/input-map";
+import { DifficultyPreset } from "@game/simulation/difficulty";
+import { Sketch } from "@game/sketch";
+import { Title } from "@game/drawable/title";
+import { FontMetadata } from "@game/utils/font";
+import { CrossfadeTransition, FadeTransition } from "@game/utils/transition";
+
+/**
+ * Scene shown when the player has lost all of their lives, or won or failed a
+ * level.
+ * Shows the final score, and waits for input to either restart the game or
+ * return to the menu.
+ */
+export class GameOver
+    extends Scene
+    implements
+        SceneSetupHandler,
+        SceneEnterHandler<"gameOver">,
+        SceneActionPressedHandler
+{
+    readonly music = "menu";
+
+    private title: Title;
+
+    /** Difficulty preset of the game which ended, used to play again. */
+    private difficulty: DifficultyPreset;
+
+    /** Index of the level of the game which ended, used to play again. */
+    private level?: number;
+
+    /**
+     * Creates the game over scene.
+     *
+     * @param sketch - Parent sketch.
+     */
+    constructor(sketch: Sketch) {
+        super(sketch);
+    }
+
+    /**
+     * Called once when the sketch starts, used to define initial environment
+     * properties such as screen size and background color and to load media
+     * such as images and fonts.
+     *
+     * Creates the title, score and prompt text.
+     *
+     * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
+     * more information.
+     */
+    setup(): void {
+        this.title = new Title([
+            {
+                str: "Game Over",
+                font: FontMetadata.auto({
+                    weight: "bold",
+                    size: 64,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 8,
+            },
+            {
+                str: "",
+                font: FontMetadata.auto({
+                    size: 32,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 24,
+            },
+            {
+                str: "",
+                font: FontMetadata.auto({
+                    size: 24,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 0,
+            },
+        ]);
+    }
+
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Sets the heading to show whether the level was won or failed, the
+     * score text to the final score and difficulty of the game and its place
+     * in the high-score table, if it was added, and the prompt to the keys
+     * currently bound to its actions.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.goTo} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param payload - Results of the game which ended.
+     */
+    enter(p: p5, payload: ScenePayloads["gameOver"]): void {
+        this.difficulty = payload.difficulty;
+        this.level = payload.level;
+        if (payload.won) {
+            this.title.lines[0].str = "Level Complete";
+        } else if (payload.failed) {
+            this.title.lines[0].str = "Level Failed";
+        } else {
+            this.title.lines[0].str = "Game Over";
+        }
+        const name = payload.difficulty.name;
+        const rank =
+            payload.rank === undefined
+                ? ""
+                : `, #${payload.rank + 1} in the high scores`;
+        this.title.lines[1].str = `Score ${payload.score} on ${name}${rank}`;
+        const input = this.sketch.input;
+        this.title.lines[2].str =
+            `Press ${input.keyLabel("confirm")} to play again or ` +
+            `${input.keyLabel("back")} for the menu`;
+    }
+
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Sets the background and draws the game over text.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.background(0);
+        this.title.draw(p);
+    }
+
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Plays the confirm sound and restarts the game at the same difficulty and
+     * level when the confirm action is pressed, or returns to the menu when
+     * the back action is pressed.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void {
+        if (action === "confirm") {
+            this.sketch.audio.playSound("confirm");
+            this.sketch
+                .goTo(
+                    "game",
+                    { difficulty: this.difficulty, level: this.level },
+                    new FadeTransition({ duration: 800 })
+                )
+                .catch((reason) => {
+                    console.error(reason);
+                });
+        } else if (action === "back") {
+            this.sketch
+                .goTo("menu", undefined, new CrossfadeTransition())
+                .catch((reason) => {
+                    console.error(reason);
+                });
+        }
+    }
+}
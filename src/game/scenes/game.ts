@@ -20,20 +20,42 @@
 
 import * as p5 from "p5";
 
-import { Collectible } from "@game/entities/collectible";
+import { AssetManager } from "@game/assets/asset-manager";
+import { AssetKey, assetManifest } from "@game/assets/manifest";
 import { Drawable } from "@game/utils/drawable";
-import { Entity } from "@game/utils/entity";
-import { HudAlignment, HudText } from "@game/drawable/hud-text";
-import { Player } from "@game/entities/player";
+import { ColorComponents, parseHexColor } from "@game/utils/color";
+import { GameClock } from "@game/utils/clock";
+import { HudAnchor, HudLayout } from "@game/drawable/hud-layout";
+import { HudText } from "@game/drawable/hud-text";
+import {
+    ComboMeter,
+    CountdownTimer,
+    LivesRow,
+    PowerUpBar,
+} from "@game/drawable/hud-widgets";
+import {
+    ParticleEffects,
+    ParticleSystem,
+} from "@game/drawable/particle-system";
+import { InputAction } from "@game/input/input-map";
 import {
     Scene,
-    SceneKeyPressedHandler,
-    SceneKeyReleasedHandler,
-    ScenePreloadHandler,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    SceneGamepadDisconnectedHandler,
+    SceneMouseMovedHandler,
+    SceneMousePressedHandler,
+    SceneMouseReleasedHandler,
+    ScenePayloads,
+    SceneResumeHandler,
+    SceneUpdateHandler,
 } from "@game/utils/scene";
+import { DifficultyPreset } from "@game/simulation/difficulty";
+import { LevelDefinition, parseLevel } from "@game/simulation/level";
+import { Simulation } from "@game/simulation/simulation";
 import { Sketch } from "@game/sketch";
-import { Sprite } from "@game/utils/sprite";
 import { FontMetadata } from "@game/utils/font";
+import { FadeTransition } from "@game/utils/transition";
 
 /**
  * Scene for the main game.
@@ -41,56 +63,70 @@ import { FontMetadata } from "@game/utils/font";
 export class Game
     extends Scene
     implements
-        ScenePreloadHandler,
-        SceneKeyPressedHandler,
-        SceneKeyReleasedHandler
+        SceneEnterHandler<"game">,
+        SceneResumeHandler,
+        SceneUpdateHandler,
+        SceneActionPressedHandler,
+        SceneGamepadDisconnectedHandler,
+        SceneMousePressedHandler,
+        SceneMouseMovedHandler,
+        SceneMouseReleasedHandler
 {
-    /** Image used as the canvas background. */
-    private backgroundImage: p5.Image;
+    readonly music = "game";
 
-    /** All entities to be updated each frame. */
-    private get entities(): Entity[] {
-        const all: Entity[] = [this.player];
-        return all.concat(this.collectibles);
-    }
+    /**
+     * Keys of the level files in the asset manifest. Levels are selected by
+     * their index in this list.
+     */
+    static readonly levelKeys: readonly AssetKey[] = ["level1", "level2"];
 
-    /** All objects to be drawn to the canvas. */
+    /** All objects to be drawn to the canvas, with the HUD on top. */
     private get drawables(): Drawable[] {
-        const all: Drawable[] = [this.hudText];
-        return all.concat(this.entities);
+        const all: Drawable[] = this.simulation.entities;
+        return all.concat([this.particles, this.hud]);
     }
 
-    /** Heads-up display (score counter). */
-    private hudText: HudText;
+    /** Heads-up display (HUD) laid out around the edges of the canvas. */
+    private hud: HudLayout;
 
-    /** User-controllable player entity. */
-    private player: Player;
+    /** HUD widget (score counter). */
+    private scoreText: HudText;
 
-    /** Collectible item entities. */
-    private collectibles: Collectible[];
+    /** HUD widget (items caught in a row), below the score counter. */
+    private comboMeter: ComboMeter;
 
-    /**
-     * Time in milliseconds until a new collectible item entity should be
-     * spawned.
-     */
-    private spawnTimer: number;
+    /** HUD widget (lives left). */
+    private livesRow: LivesRow;
 
-    /** Default value to reset {@link spawnTimer} to. */
-    private spawnInterval = 600;
+    /** HUD widget (difficulty level), below the lives. */
+    private levelText: HudText;
 
-    /** Number of items collected by the player. Limited to 999999. */
-    private get score(): number {
-        return this._score;
-    }
+    /** HUD widget (time left to survive in levels with a time limit). */
+    private countdown: CountdownTimer;
 
-    private set score(value: number) {
-        if (this._score >= 999999) {
-            return;
-        }
-        this._score = value;
-    }
+    /** HUD widget (time left of the slow motion power-up). */
+    private powerUpBar: PowerUpBar;
+
+    /** Difficulty preset of the current game, used to restart the game. */
+    private difficulty: DifficultyPreset;
+
+    /** Index of the level being played, or `undefined` in endless games. */
+    private levelIndex?: number;
+
+    /** Particle effects shown for events in the simulation. */
+    private particles = new ParticleSystem();
+
+    /** State and logic of the current game. */
+    private simulation = new Simulation();
+
+    /**
+     * Clock measuring game time, passed to the simulation in place of the
+     * real time between frames.
+     */
+    private clock = new GameClock();
 
-    private _score: number;
+    /** Jump flag set by pressing the pointer above the player. */
+    private isPointerJumping = false;
 
     /**
      * Creates the game scene.
@@ -101,199 +137,427 @@ export class Game
         super(sketch);
     }
 
-    /**
-     * Called before {@link setup} to handle asynchronous loading of external
-     * files in a blocking way.
-     *
-     * Loads the background image.
-     *
-     * See {@link ScenePreloadHandler}, {@link Sketch.preload} and
-     * {@link p5.preload} for more information.
-     *
-     * @param p - p5 instance.
-     */
-    preload(p: p5): void {
-        this.backgroundImage = p.loadImage("images/bg.png");
-    }
-
     /**
      * Called once when the sketch starts, used to define initial environment
      * properties such as screen size and background color and to load media
      * such as images and fonts as the program starts.
      *
-     * Initializes the HUD, arrays to be populated, the player, and game state
-     * properties.
+     * Initializes the HUD, and recolors it whenever the high-contrast
+     * preference changes. The game state is reset each time the scene is
+     * entered.
      *
      * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
      * more information.
-     *
-     * @param p - p5 instance.
      */
-    setup(p: p5): void {
-        this.hudText = new HudText({
-            y: 0,
-            hMargin: 8,
-            vMargin: 8,
-            alignment: HudAlignment.Right,
+    setup(): void {
+        const white = { red: 255, green: 255, blue: 255 };
+        this.scoreText = new HudText({
             labelStr: "Score ",
             labelFont: FontMetadata.auto({
                 size: 24,
             }),
-            labelFillColor: { red: 255, green: 255, blue: 255 },
+            labelFillColor: white,
             valueFont: FontMetadata.auto({
                 weight: "bold",
                 size: 24,
             }),
         });
+        this.comboMeter = new ComboMeter({
+            font: FontMetadata.auto({
+                weight: "bold",
+                size: 18,
+            }),
+            fillColor: white,
+        });
+        this.livesRow = new LivesRow({ fillColor: white });
+        this.levelText = new HudText({
+            labelStr: "Difficulty ",
+            labelFont: FontMetadata.auto({
+                size: 24,
+            }),
+            labelFillColor: white,
+            valueFont: FontMetadata.auto({
+                weight: "bold",
+                size: 24,
+            }),
+        });
+        this.countdown = new CountdownTimer({
+            font: FontMetadata.auto({
+                weight: "bold",
+                size: 32,
+            }),
+            fillColor: white,
+        });
+        this.powerUpBar = new PowerUpBar({
+            font: FontMetadata.auto({
+                size: 18,
+            }),
+            fillColor: white,
+            barWidth: 200,
+        });
+        this.powerUpBar.name = "Slow motion";
 
-        this.collectibles = [];
+        this.hud = new HudLayout();
+        this.hud.add(this.scoreText, HudAnchor.TopRight);
+        this.hud.add(this.comboMeter, HudAnchor.TopRight);
+        this.hud.add(this.livesRow, HudAnchor.TopLeft);
+        this.hud.add(this.levelText, HudAnchor.TopLeft);
+        this.hud.add(this.countdown, HudAnchor.Top);
+        this.hud.add(this.powerUpBar, HudAnchor.Bottom);
+        this.applyPreferences();
+        this.sketch.preferences.onChange(() => this.applyPreferences());
+    }
 
-        this.player = new Player();
-        this.player.sprite.size = { x: 200, y: 200 };
-        this.player.accelerationModifier = { x: 1, y: 0.4 };
-        this.player.decelerationModifier = { x: 0.0075, y: 0.005 };
-        this.player.maxSpeed = { x: 0.75, y: 2 };
-        this.player.resetPosition(p);
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Resets the game state so that each game starts afresh at the selected
+     * difficulty and level, removing any state left from a previous game. An
+     * endless game is started if the level could not be loaded.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.goTo} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param payload - Settings of the new game.
+     */
+    enter(p: p5, payload: ScenePayloads["game"]): void {
+        this.difficulty = payload.difficulty;
+        this.levelIndex = payload.level;
+        const levels = Game.levelKeys;
+        const level =
+            this.levelIndex === undefined
+                ? undefined
+                : Game.loadLevel(this.sketch.assets, levels[this.levelIndex]);
+        if (this.levelIndex !== undefined && level === undefined) {
+            console.error(
+                `Level ${this.levelIndex + 1} is unavailable, ` +
+                    "starting an endless game"
+            );
+            this.levelIndex = undefined;
+        }
 
-        this.spawnTimer = 0;
-        this.score = 0;
+        this.clock.reset();
+        this.clock.timeScale = 1;
+        this.particles.clear();
+        this.simulation.reset(
+            { x: p.width, y: p.height },
+            this.difficulty,
+            level
+        );
+        this.updateHud();
     }
 
     /**
-     * Continuously executes the lines of code contained inside its block until
-     * the program is stopped or {@link p5.noLoop} is called when the scene is
-     * active.
+     * Called at a fixed rate before {@link draw} while the scene is not frozen
+     * below an overlay.
      *
-     * Clears the canvas, sets canvas properties, updates timers, updates HUD
-     * details, and updates and draws all current game objects.
+     * Advances the game clock, sets player controls, steps the simulation,
+     * shows particle effects for its events, updates HUD widgets, and ends the
+     * game when no lives are left or the level has been won or failed, asking
+     * for the player's name first if the score makes the high-score table.
      *
-     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * See {@link SceneUpdateHandler} and {@link Sketch.draw} for more
      * information.
      *
      * @param p - p5 instance.
+     * @param deltaTime - Length of the fixed update step in milliseconds.
      */
-    draw(p: p5): void {
-        // Reset canvas base.
-        p.clear(0, 0, 0, 0);
-        p.background(this.backgroundImage);
-
-        // Conditionally spawn collectibles.
-        this.updateSpawnTimer(p);
-
-        // Call entity update routines comprising the internal entity movement
-        // and data logic.
-        this.entities.forEach((entity) => {
-            entity.update(p);
-        });
+    update(p: p5, deltaTime: number): void {
+        // Advance game time by the length of the step.
+        this.clock.tick(deltaTime);
 
-        // Check collisions.
-        this.collectibles.forEach((entity, i, arr) => {
-            if (entity.didCollide(this.player)) {
-                // Increment score and delete collectible if collided with
-                // player.
-                ++this.score;
-                delete arr[i];
-            }
+        // Set player state flags from held input actions, which are ignored
+        // while a transition is in progress.
+        const input = this.sketch.input;
+        const isBlocked = this.sketch.isTransitioning;
+        const player = this.simulation.player;
+        player.inputDirection.left = !isBlocked && input.isDown("moveLeft");
+        player.inputDirection.right = !isBlocked && input.isDown("moveRight");
+        player.isJumping =
+            this.isPointerJumping || (!isBlocked && input.isDown("jump"));
+
+        // Step the game's entity movement and data logic.
+        this.simulation.step({
+            deltaTime: this.clock.deltaTime,
+            bounds: { x: p.width, y: p.height },
+            random: Math.random,
         });
+        this.showEffects();
+        this.particles.update(this.clock.deltaTime);
+
+        this.updateHud();
+
+        // End the game once all lives have been lost, or the level has been
+        // won or can no longer be won.
+        if (
+            this.simulation.isOver ||
+            this.simulation.isWon ||
+            this.simulation.isFailed
+        ) {
+            const results: ScenePayloads["nameEntry"] = {
+                score: this.simulation.score,
+                difficulty: this.difficulty,
+                level: this.levelIndex,
+                won: this.simulation.isWon,
+                failed: this.simulation.isFailed,
+            };
+            const transition = new FadeTransition({ duration: 1000 });
+            (this.sketch.highScores.qualifies(results.score)
+                ? this.sketch.goTo("nameEntry", results, transition)
+                : this.sketch.goTo("gameOver", results, transition)
+            ).catch((reason) => {
+                console.error(reason);
+            });
+        }
+    }
 
-        // Update HUD text.
-        this.hudText.setValueText(this.score.toString());
-        this.hudText.position.x = p.width;
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Draws the background and all current game objects, with entities
+     * interpolated between their last two updated positions. The background
+     * image is replaced by black when high contrast is preferred.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param alpha - Fraction of a fixed update step since the last update,
+     * from 0 to 1.
+     */
+    draw(p: p5, alpha: number): void {
+        // Reset canvas base. The background image covers the whole canvas, so
+        // the canvas is not cleared first, which would erase the scenes drawn
+        // below this one during a crossfade transition.
+        if (this.sketch.preferences.values.highContrast) {
+            p.background(0);
+        } else {
+            p.background(this.sketch.assets.get("background"));
+        }
 
         // Draw all objects.
+        this.simulation.entities.forEach((entity) => {
+            entity.interpolate(alpha);
+        });
         this.drawables.forEach((obj) => {
             obj.draw(p);
         });
     }
 
     /**
-     * Updates the collectible spawn timer and spawns a collectible if the timer
-     * has completed.
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Pauses the game when the pause action is pressed. Movement actions are
+     * read from the input map on each update instead.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
      *
      * @param p - p5 instance.
+     * @param action - Action which was pressed.
      */
-    private updateSpawnTimer(p: p5): void {
-        if (this.spawnTimer <= 0) {
-            this.spawnTimer = this.spawnInterval;
-            this.spawnCollectible(p);
-        } else {
-            this.spawnTimer -= p.deltaTime;
+    actionPressed(p: p5, action: InputAction): void {
+        if (action === "pause") {
+            this.pause();
         }
     }
 
     /**
-     * Pushes a new collectible entity to the entities array, randomly
-     * positioned on the x-axis and moving from the top to the bottom of the
-     * screen.
+     * Called once every time a gamepad is disconnected when the scene is
+     * active.
+     *
+     * Pauses the game, as the player may have lost control of the game.
+     *
+     * See {@link SceneGamepadDisconnectedHandler} and
+     * {@link Sketch.gamepads} for more information.
+     */
+    gamepadDisconnected(): void {
+        this.pause();
+    }
+
+    /**
+     * Called once every time a mouse button is pressed or a touch starts when
+     * the scene is active.
+     *
+     * Starts moving the player towards the pointer, and makes the player jump
+     * if the pointer is above the player.
+     *
+     * See {@link Scene.mousePressed}, {@link Sketch.mousePressed} and
+     * {@link p5.mousePressed} for more information.
      *
      * @param p - p5 instance.
      */
-    private spawnCollectible(p: p5): void {
-        const collectibleSprite = new Sprite({ width: 100, height: 100 });
-        const collectible = new Collectible({
-            x:
-                collectibleSprite.centerPoint.x +
-                Math.random() * (p.width - 2 * collectibleSprite.centerPoint.x),
-            y: -collectibleSprite.centerPoint.y,
-            dy: 0.2,
-            sprite: collectibleSprite,
-        });
-        this.collectibles.push(collectible);
+    mousePressed(p: p5): void {
+        const player = this.simulation.player;
+        player.targetX = p.mouseX;
+        this.isPointerJumping =
+            p.mouseY < player.position.y - player.sprite.centerPoint.y;
     }
 
     /**
-     * Called once every time a key is pressed when the scene is active. The key
-     * code for the key that was pressed is stored in the {@link p5.key}
-     * variable. For non-ASCII keys, the {@link p5.keyCode} variable is used.
+     * Called every time the mouse or a touch moves when the scene is active.
      *
-     * Sets player state flags based on controls.
+     * Moves the player's target to the pointer while the pointer is pressed.
      *
-     * See {@link Scene.keyPressed}, {@link Sketch.keyPressed} and
-     * {@link p5.keyPressed} for more information.
+     * See {@link Scene.mouseMoved}, {@link Sketch.mouseMoved} and
+     * {@link p5.mouseMoved} for more information.
      *
      * @param p - p5 instance.
      */
-    keyPressed(p: p5): void {
-        switch (p.key) {
-            case " ":
-                this.player.isJumping = true;
-                break;
-            default:
-                switch (p.keyCode) {
-                    case p.LEFT_ARROW:
-                        this.player.inputDirection.left = true;
-                        break;
-                    case p.RIGHT_ARROW:
-                        this.player.inputDirection.right = true;
-                        break;
-                }
+    mouseMoved(p: p5): void {
+        if (this.simulation.player.targetX !== undefined) {
+            this.simulation.player.targetX = p.mouseX;
         }
     }
 
     /**
-     * Called once every time a key is released.
+     * Called once every time a mouse button is released or a touch ends when
+     * the scene is active.
      *
-     * Clears player state flags based on controls.
+     * Stops the player following the pointer and clears the jump set by the
+     * pointer.
      *
-     * See {@link Scene.keyReleased}, {@link p5.key}, {@link p5.keyCode}, and
-     * {@link p5.keyReleased} for more information.
+     * See {@link Scene.mouseReleased}, {@link Sketch.mouseReleased} and
+     * {@link p5.mouseReleased} for more information.
+     */
+    mouseReleased(): void {
+        this.simulation.player.targetX = undefined;
+        this.isPointerJumping = false;
+    }
+
+    /**
+     * Called when the pause overlay is removed from above this scene.
      *
-     * @param p - p5 instance.
+     * Resumes the game clock.
+     *
+     * See {@link SceneResumeHandler} and {@link Sketch.pop} for more
+     * information.
+     */
+    resume(): void {
+        this.clock.resume();
+    }
+
+    /**
+     * Pauses the game clock and pushes the pause overlay onto the scene stack.
+     * Player state set by the pointer is cleared first, as pointer releases
+     * are not received by this scene while the overlay is active.
+     */
+    private pause(): void {
+        this.simulation.player.targetX = undefined;
+        this.isPointerJumping = false;
+        this.clock.pause();
+        this.sketch.push("pause").catch((reason) => {
+            console.error(reason);
+        });
+    }
+
+    /**
+     * Updates the HUD widgets from the state of the simulation. The HUD lays
+     * the widgets out again when drawn, as their sizes may have changed.
      */
-    keyReleased(p: p5): void {
-        switch (p.key) {
-            case " ":
-                this.player.isJumping = false;
-                break;
-            default:
-                switch (p.keyCode) {
-                    case p.LEFT_ARROW:
-                        this.player.inputDirection.left = false;
-                        break;
-                    case p.RIGHT_ARROW:
-                        this.player.inputDirection.right = false;
-                        break;
-                }
+    private updateHud(): void {
+        const simulation = this.simulation;
+        this.scoreText.setValueText(simulation.score.toString());
+        this.comboMeter.combo = simulation.combo;
+        this.livesRow.lives = Math.max(simulation.lives, 0);
+        this.livesRow.maxLives = simulation.startingLives;
+        this.levelText.setValueText(simulation.difficulty.level.toString());
+
+        // Only levels which must be survived for a time have a time limit.
+        const survive = simulation.level?.win.survive;
+        this.countdown.remaining =
+            survive === undefined ? undefined : survive - simulation.elapsed;
+
+        this.powerUpBar.remaining = simulation.slowMotionRemaining;
+        this.powerUpBar.duration = simulation.slowMotionDuration;
+    }
+
+    /**
+     * Recolors the HUD for the high-contrast preference, and removes any
+     * particles if reduced motion is preferred.
+     */
+    private applyPreferences(): void {
+        const values = this.sketch.preferences.values;
+        const color: ColorComponents = values.highContrast
+            ? { red: 255, green: 255, blue: 0 }
+            : { red: 255, green: 255, blue: 255 };
+        this.scoreText.setFillColor(color);
+        this.levelText.setFillColor(color);
+        this.livesRow.fillColor = color;
+        this.comboMeter.fillColor = color;
+        this.countdown.fillColor = color;
+        this.powerUpBar.fillColor = color;
+        if (values.reducedMotion) {
+            this.particles.clear();
+        }
+    }
+
+    /**
+     * Plays sound effects for the events which happened during the last
+     * simulation step, and emits particle effects for them unless reduced
+     * motion is preferred: bursts for caught items, splashes for missed items
+     * and dust where the player jumps and lands.
+     */
+    private showEffects(): void {
+        const reducedMotion = this.sketch.preferences.values.reducedMotion;
+        this.simulation.events.forEach((event) => {
+            this.sketch.audio.playSound(event.type);
+            if (reducedMotion) {
+                return;
+            }
+            switch (event.type) {
+                case "catch":
+                    this.particles.emit(
+                        ParticleEffects.catchBurst,
+                        event.position,
+                        [
+                            { red: 255, green: 255, blue: 255 },
+                            parseHexColor(event.kind.color),
+                        ]
+                    );
+                    break;
+                case "miss":
+                    this.particles.emit(
+                        ParticleEffects.missSplash,
+                        event.position,
+                        [parseHexColor(event.kind.color)]
+                    );
+                    break;
+                case "jump":
+                case "land":
+                    this.particles.emit(
+                        ParticleEffects.landingDust,
+                        event.position
+                    );
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Parses a level file from the asset manager. Level files which failed to
+     * load or are invalid are reported to the console and cannot be played.
+     *
+     * @param assets - Asset manager which loaded the level file.
+     * @param key - Key of the level file in the asset manifest.
+     * @returns Parsed level, or `undefined` if it is unavailable.
+     */
+    static loadLevel(
+        assets: AssetManager,
+        key: AssetKey
+    ): LevelDefinition | undefined {
+        if (assets.status(key) !== "loaded") {
+            return undefined;
+        }
+        try {
+            return parseLevel(assets.get(key), assetManifest[key].path);
+        } catch (error) {
+            console.error(error);
+            return undefined;
         }
     }
 }
@@ -0,0 +1,168 @@
+/**
+ * @file High scores scene class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    Scene,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    SceneSetupHandler,
+} from "@game/utils/scene";
+import { InputAction } from "@game/input/input-map";
+import { formatMode } from "@game/scores/high-score-table";
+import { Sketch } from "@game/sketch";
+import { Title, TitleTextComponent } from "@game/drawable/title";
+import { FontMetadata } from "@game/utils/font";
+import { CrossfadeTransition } from "@game/utils/transition";
+
+/**
+ * Scene listing the runs in the high-score table, opened from the menu.
+ */
+export class HighScores
+    extends Scene
+    implements
+        SceneSetupHandler,
+        SceneEnterHandler<"highScores">,
+        SceneActionPressedHandler
+{
+    readonly music = "menu";
+
+    private title: Title;
+
+    /**
+     * Creates the high scores scene.
+     *
+     * @param sketch - Parent sketch.
+     */
+    constructor(sketch: Sketch) {
+        super(sketch);
+    }
+
+    /**
+     * Called once when the sketch starts, used to define initial environment
+     * properties such as screen size and background color and to load media
+     * such as images and fonts.
+     *
+     * Creates the title. The table is listed each time the scene is entered.
+     *
+     * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
+     * more information.
+     */
+    setup(): void {
+        this.title = new Title();
+    }
+
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Lists the runs currently in the high-score table, followed by a prompt
+     * naming the keys currently bound to the back and confirm actions.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.goTo} for more
+     * information.
+     */
+    enter(): void {
+        const entries = this.sketch.highScores.entries;
+        const rows = entries.map(
+            (entry, i) =>
+                `${i + 1}. ${entry.name}   ${entry.score}   ` +
+                `${formatMode(entry)}   ${entry.date.slice(0, 10)}`
+        );
+        if (rows.length === 0) {
+            rows.push("No high scores yet");
+        }
+
+        const input = this.sketch.input;
+        const prompt =
+            `Press ${input.keyLabel("back")} or ` +
+            `${input.keyLabel("confirm")} for the menu`;
+        this.title.lines = [
+            HighScores.line("High Scores", 56, 24, "bold"),
+            ...rows.map((row) => HighScores.line(row, 20, 6)),
+            HighScores.line(prompt, 20, 0),
+        ];
+
+        // Leave a larger gap between the last row and the prompt.
+        this.title.lines[this.title.lines.length - 2].yEndPadding = 24;
+    }
+
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Sets the background and draws the table.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.background(0);
+        this.title.draw(p);
+    }
+
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Crossfades back to the menu when the back or confirm action is pressed.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void {
+        if (action === "back" || action === "confirm") {
+            this.sketch
+                .goTo("menu", undefined, new CrossfadeTransition())
+                .catch((reason) => {
+                    console.error(reason);
+                });
+        }
+    }
+
+    /**
+     * Creates a line of white text for the title.
+     *
+     * @param str - Text of the line.
+     * @param size - Font size in pixels.
+     * @param yEndPadding - Space below the line in pixels.
+     * @param weight - CSS font weight, or `undefined` for the default.
+     * @returns New line.
+     */
+    private static line(
+        str: string,
+        size: number,
+        yEndPadding: number,
+        weight?: string
+    ): TitleTextComponent {
+        return {
+            str: str,
+            font: FontMetadata.auto({ weight: weight, size: size }),
+            fillColor: { red: 255, green: 255, blue: 255 },
+            yEndPadding: yEndPadding,
+        };
+    }
+}
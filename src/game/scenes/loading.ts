@@ -0,0 +1,142 @@
+/**
+ * @file Loading scene class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    Scene,
+    SceneSetupHandler,
+    SceneUpdateHandler,
+} from "@game/utils/scene";
+import { Sketch } from "@game/sketch";
+import { Title } from "@game/drawable/title";
+import { FontMetadata } from "@game/utils/font";
+import { FadeTransition } from "@game/utils/transition";
+
+/**
+ * Scene shown when the sketch starts, while the assets in the manifest are
+ * loaded. Draws a progress bar and fades to the menu once every asset has
+ * loaded or failed.
+ */
+export class Loading
+    extends Scene
+    implements SceneSetupHandler, SceneUpdateHandler
+{
+    /** Width of the progress bar in pixels. */
+    private barWidth = 320;
+
+    /** Height of the progress bar in pixels. */
+    private barHeight = 16;
+
+    private title: Title;
+
+    /** Whether the transition to the menu has been started. */
+    private isFinished = false;
+
+    /**
+     * Creates the loading scene.
+     *
+     * @param sketch - Parent sketch.
+     */
+    constructor(sketch: Sketch) {
+        super(sketch);
+    }
+
+    /**
+     * Called once when the sketch starts, used to define initial environment
+     * properties such as screen size and background color and to load media
+     * such as images and fonts.
+     *
+     * Creates the title and starts loading the assets.
+     *
+     * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
+     * more information.
+     */
+    setup(): void {
+        this.title = new Title([
+            {
+                str: "Loading",
+                font: FontMetadata.auto({
+                    weight: "bold",
+                    size: 48,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 0,
+            },
+        ]);
+        this.sketch.assets.load().catch((reason) => {
+            console.error(reason);
+        });
+    }
+
+    /**
+     * Called at a fixed rate before {@link draw} while the scene is not frozen
+     * below an overlay.
+     *
+     * Fades to the menu once loading is complete.
+     *
+     * See {@link SceneUpdateHandler} and {@link Sketch.draw} for more
+     * information.
+     */
+    update(): void {
+        if (this.isFinished || !this.sketch.assets.isComplete) {
+            return;
+        }
+        this.isFinished = true;
+        this.sketch
+            .goTo("menu", undefined, new FadeTransition({ duration: 500 }))
+            .catch((reason) => {
+                console.error(reason);
+            });
+    }
+
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Draws the title above a bar filled in proportion to the number of
+     * assets loaded.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.background(0);
+        this.title.draw(p);
+
+        const x = (p.width - this.barWidth) / 2;
+        const y = p.height / 2 + 48;
+        p.noFill();
+        p.stroke(255);
+        p.strokeWeight(2);
+        p.rect(x, y, this.barWidth, this.barHeight);
+        p.noStroke();
+        p.fill(255);
+        p.rect(
+            x,
+            y,
+            this.barWidth * this.sketch.assets.progress,
+            this.barHeight
+        );
+    }
+}
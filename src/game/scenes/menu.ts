@@ -22,23 +22,72 @@ import * as p5 from "p5";
 
 import {
     Scene,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    SceneMouseMovedHandler,
+    SceneMousePressedHandler,
     SceneSetupHandler,
-    SceneKeyPressedHandler,
 } from "@game/utils/scene";
+import { InputAction } from "@game/input/input-map";
+import {
+    DifficultyPresetName,
+    DifficultyPresets,
+} from "@game/simulation/difficulty";
+import { Game } from "@game/scenes/game";
 import { Sketch } from "@game/sketch";
+import { MenuItem, MenuList } from "@game/drawable/menu-list";
 import { Title } from "@game/drawable/title";
 import { FontMetadata } from "@game/utils/font";
+import { CrossfadeTransition, FadeTransition } from "@game/utils/transition";
 
 /**
- * Scene for the Main Menu. Shows title and information, and waits for input
- * before advancing the scene in the sketch.
+ * Scene for the Main Menu. Shows the title above a list of items for starting
+ * a game, choosing its mode and difficulty, and opening the high scores,
+ * settings and credits. Items are chosen with the navigation actions or the
+ * pointer.
  */
 export class Menu
     extends Scene
-    implements SceneSetupHandler, SceneKeyPressedHandler
+    implements
+        SceneSetupHandler,
+        SceneEnterHandler<"menu">,
+        SceneActionPressedHandler,
+        SceneMousePressedHandler,
+        SceneMouseMovedHandler
 {
+    readonly music = "menu";
+
     private title: Title;
 
+    /** Items of the menu, drawn below the title. */
+    private menuList: MenuList;
+
+    /** Item opening the mode submenu, labelled with the selected mode. */
+    private modeItem: MenuItem;
+
+    /** Items of the mode submenu for each level, in order of the levels. */
+    private levelItems: MenuItem[];
+
+    /** Item showing the preferred difficulty. */
+    private difficultyItem: MenuItem;
+
+    /** Names of the selectable difficulty presets, from easiest to hardest. */
+    private difficultyNames = Object.keys(
+        DifficultyPresets
+    ) as DifficultyPresetName[];
+
+    /**
+     * Index of the selected level in {@link Game.levelKeys}, or `undefined`
+     * for an endless game.
+     */
+    private selectedLevel?: number;
+
+    /**
+     * Whether each level in {@link Game.levelKeys} loaded and is valid, found
+     * when the menu is first entered, once every asset has loaded.
+     */
+    private playableLevels?: boolean[];
+
     /**
      * Creates the menu scene.
      *
@@ -53,7 +102,8 @@ export class Menu
      * properties such as screen size and background color and to load media
      * such as images and fonts.
      *
-     * Creates the title and prompt text.
+     * Creates the title and the menu items, and updates the difficulty item
+     * whenever the preferred difficulty changes.
      *
      * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
      * more information.
@@ -70,14 +120,102 @@ export class Menu
                 yEndPadding: 8,
             },
             {
-                str: "Press RETURN to start",
+                str: "",
                 font: FontMetadata.auto({
-                    size: 32,
+                    size: 20,
                 }),
                 fillColor: { red: 255, green: 255, blue: 255 },
                 yEndPadding: 0,
             },
         ]);
+
+        const back: MenuItem = {
+            label: "Back",
+            select: () => this.menuList.back(),
+        };
+        this.levelItems = Game.levelKeys.map((key, index) => ({
+            label: `Level ${index + 1}`,
+            select: () => this.selectLevel(index),
+        }));
+        this.modeItem = {
+            label: "",
+            submenu: [
+                { label: "Endless", select: () => this.selectLevel(undefined) },
+                ...this.levelItems,
+                back,
+            ],
+        };
+        this.difficultyItem = {
+            label: "",
+            select: () => this.selectDifficulty(1),
+            change: (offset) => this.selectDifficulty(offset),
+        };
+        this.menuList = new MenuList({
+            items: [
+                { label: "Start", select: () => this.start() },
+                this.modeItem,
+                this.difficultyItem,
+                {
+                    label: "High Scores",
+                    select: () => this.open("highScores"),
+                },
+                { label: "Settings", select: () => this.open("settings") },
+                {
+                    label: "Credits",
+                    submenu: [
+                        { label: "Natalie Wiggins", disabled: true },
+                        { label: "Ceri Miller", disabled: true },
+                        { label: "Sulaiman Syed", disabled: true },
+                        back,
+                    ],
+                },
+            ],
+            font: FontMetadata.auto({
+                size: 32,
+            }),
+        });
+
+        this.showDifficulty();
+        this.selectLevel(undefined);
+        this.sketch.preferences.onChange((name) => {
+            if (name === "difficulty") {
+                this.showDifficulty();
+            }
+        });
+    }
+
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Closes any open submenu, disables the levels which could not be loaded
+     * or are invalid, selecting the endless mode instead if the selected level
+     * is disabled, and sets the prompt to the keys currently bound to the
+     * menu's actions.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.goTo} for more
+     * information.
+     */
+    enter(): void {
+        this.menuList.reset();
+        if (this.playableLevels === undefined) {
+            this.playableLevels = Game.levelKeys.map(
+                (key) => Game.loadLevel(this.sketch.assets, key) !== undefined
+            );
+        }
+        this.levelItems.forEach((item, index) => {
+            item.disabled = !this.playableLevels[index];
+        });
+        if (
+            this.selectedLevel !== undefined &&
+            this.levelItems[this.selectedLevel].disabled
+        ) {
+            this.selectLevel(undefined);
+        }
+        const input = this.sketch.input;
+        this.title.lines[1].str =
+            `${input.keyLabel("navigateUp")} / ` +
+            `${input.keyLabel("navigateDown")} to choose, ` +
+            `${input.keyLabel("confirm")} or click to select`;
     }
 
     /**
@@ -85,7 +223,7 @@ export class Menu
      * the program is stopped or {@link p5.noLoop} is called when the scene is
      * active.
      *
-     * Sets the background and draws the menu text.
+     * Sets the background and draws the title with the menu items below it.
      *
      * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
      * information.
@@ -95,25 +233,164 @@ export class Menu
     draw(p: p5): void {
         p.background(0);
         this.title.draw(p);
+        this.menuList.position = { x: p.width / 2, y: p.height / 2 + 64 };
+        this.menuList.draw(p);
+    }
+
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Moves the selection when a navigation action is pressed, changes the
+     * selected item when a movement action is pressed, activates it when the
+     * confirm action is pressed, and closes the open submenu when the back
+     * action is pressed. The show scores and open settings actions crossfade
+     * straight to their scenes.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void {
+        switch (action) {
+            case "navigateUp":
+                this.menuList.moveSelection(-1);
+                break;
+            case "navigateDown":
+                this.menuList.moveSelection(1);
+                break;
+            case "moveLeft":
+                this.menuList.change(-1);
+                break;
+            case "moveRight":
+                this.menuList.change(1);
+                break;
+            case "confirm":
+                this.activate(() => this.menuList.activate());
+                break;
+            case "back":
+                this.menuList.back();
+                break;
+            case "showScores":
+                this.open("highScores");
+                break;
+            case "openSettings":
+                this.open("settings");
+                break;
+        }
+    }
+
+    /**
+     * Called once every time a mouse button is pressed or a touch starts when
+     * the scene is active.
+     *
+     * Activates the item under the pointer, if any.
+     *
+     * See {@link Scene.mousePressed}, {@link Sketch.mousePressed} and
+     * {@link p5.mousePressed} for more information.
+     *
+     * @param p - p5 instance.
+     */
+    mousePressed(p: p5): void {
+        this.activate(() =>
+            this.menuList.pointerPressed({ x: p.mouseX, y: p.mouseY })
+        );
     }
 
     /**
-     * Called once every time a key is pressed when the scene is active. The key
-     * code for the key that was pressed is stored in the {@link p5.key}
-     * variable. For non-ASCII keys, the {@link p5.keyCode} variable is used.
+     * Called every time the mouse or a touch moves when the scene is active.
      *
-     * Advances the scene when RETURN is pressed.
+     * Selects the item under the pointer, if any.
      *
-     * See {@link Scene.keyPressed}, {@link Sketch.keyPressed} and
-     * {@link p5.keyPressed} for more information.
+     * See {@link Scene.mouseMoved}, {@link Sketch.mouseMoved} and
+     * {@link p5.mouseMoved} for more information.
      *
      * @param p - p5 instance.
      */
-    keyPressed(p: p5): void {
-        if (p.keyCode === p.RETURN) {
-            this.sketch.advanceScene().catch((reason) => {
+    mouseMoved(p: p5): void {
+        this.menuList.pointerMoved({ x: p.mouseX, y: p.mouseY });
+    }
+
+    /**
+     * Plays the confirm sound if an item is activated.
+     *
+     * @param activate - Function activating an item, which returns `true` if
+     * an item was activated.
+     */
+    private activate(activate: () => boolean): void {
+        if (activate()) {
+            this.sketch.audio.playSound("confirm");
+        }
+    }
+
+    /**
+     * Moves the preferred difficulty, wrapping around from the hardest to the
+     * easiest preset. The difficulty item is updated by the change listener.
+     *
+     * @param offset - Number of presets to move by, negative for easier.
+     */
+    private selectDifficulty(offset: number): void {
+        const count = this.difficultyNames.length;
+        const index = this.difficultyNames.indexOf(
+            this.sketch.preferences.values.difficulty
+        );
+        this.sketch.preferences.set(
+            "difficulty",
+            this.difficultyNames[(index + offset + count) % count]
+        );
+    }
+
+    /** Updates the difficulty item to show the preferred difficulty. */
+    private showDifficulty(): void {
+        const preset =
+            DifficultyPresets[this.sketch.preferences.values.difficulty];
+        this.difficultyItem.label = `Difficulty: ${preset.name}`;
+    }
+
+    /**
+     * Selects the mode of the next game, updates the mode item and closes the
+     * mode submenu if it is open.
+     *
+     * @param level - Index of the level in {@link Game.levelKeys}, or
+     * `undefined` for an endless game.
+     */
+    private selectLevel(level: number | undefined): void {
+        this.selectedLevel = level;
+        this.modeItem.label =
+            level === undefined ? "Mode: Endless" : `Mode: Level ${level + 1}`;
+        this.menuList.back();
+    }
+
+    /**
+     * Crossfades to a scene opened from the menu.
+     *
+     * @param name - Name of the scene, which receives no payload.
+     */
+    private open(name: "highScores" | "settings"): void {
+        this.sketch
+            .goTo(name, undefined, new CrossfadeTransition())
+            .catch((reason) => {
+                console.error(reason);
+            });
+    }
+
+    /**
+     * Fades to the game scene to start a new game at the preferred difficulty
+     * and the selected mode.
+     */
+    private start(): void {
+        const difficulty =
+            DifficultyPresets[this.sketch.preferences.values.difficulty];
+        this.sketch
+            .goTo(
+                "game",
+                { difficulty: difficulty, level: this.selectedLevel },
+                new FadeTransition({ duration: 800 })
+            )
+            .catch((reason) => {
                 console.error(reason);
             });
-        }
     }
 }
@@ -0,0 +1,247 @@
+/**
+ * @file Name entry scene class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    Scene,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    SceneKeyPressedHandler,
+    ScenePayloads,
+    SceneSetupHandler,
+} from "@game/utils/scene";
+import { InputAction } from "@game/input/input-map";
+import { Sketch } from "@game/sketch";
+import { Title } from "@game/drawable/title";
+import { FontMetadata } from "@game/utils/font";
+import { CrossfadeTransition } from "@game/utils/transition";
+
+/**
+ * Scene shown when a run's score makes the high-score table. The player types
+ * a name, which is saved with the run before moving on to the game over
+ * scene.
+ */
+export class NameEntry
+    extends Scene
+    implements
+        SceneSetupHandler,
+        SceneEnterHandler<"nameEntry">,
+        SceneKeyPressedHandler,
+        SceneActionPressedHandler
+{
+    readonly music = "menu";
+
+    /** Largest number of characters in a name. */
+    readonly maxNameLength = 12;
+
+    /** Name saved if none is typed, such as when playing with a gamepad. */
+    readonly defaultName = "Player";
+
+    /** Whether keys are typed into the name, which is always the case. */
+    get capturesKeys(): boolean {
+        return true;
+    }
+
+    private title: Title;
+
+    /** Name typed so far. */
+    private name = "";
+
+    /** Results of the run which made the table. */
+    private results: ScenePayloads["nameEntry"];
+
+    /**
+     * Creates the name entry scene.
+     *
+     * @param sketch - Parent sketch.
+     */
+    constructor(sketch: Sketch) {
+        super(sketch);
+    }
+
+    /**
+     * Called once when the sketch starts, used to define initial environment
+     * properties such as screen size and background color and to load media
+     * such as images and fonts.
+     *
+     * Creates the heading, score, name and prompt text.
+     *
+     * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
+     * more information.
+     */
+    setup(): void {
+        this.title = new Title([
+            {
+                str: "New High Score",
+                font: FontMetadata.auto({
+                    weight: "bold",
+                    size: 64,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 8,
+            },
+            {
+                str: "",
+                font: FontMetadata.auto({
+                    size: 32,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 24,
+            },
+            {
+                str: "",
+                font: FontMetadata.auto({
+                    weight: "bold",
+                    size: 40,
+                }),
+                fillColor: { red: 255, green: 215, blue: 0 },
+                yEndPadding: 24,
+            },
+            {
+                str: "",
+                font: FontMetadata.auto({
+                    size: 20,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 0,
+            },
+        ]);
+    }
+
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Clears the typed name, shows the score of the run and sets the prompt to
+     * the keys currently bound to the confirm and back actions.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.goTo} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param payload - Results of the run which made the table.
+     */
+    enter(p: p5, payload: ScenePayloads["nameEntry"]): void {
+        this.results = payload;
+        this.name = "";
+        const name = payload.difficulty.name;
+        this.title.lines[1].str = `Score ${payload.score} on ${name}`;
+        const input = this.sketch.input;
+        this.title.lines[3].str =
+            `Type your name and press ${input.keyLabel("confirm")}, ` +
+            `or ${input.keyLabel("back")} to skip`;
+        this.updateNameText();
+    }
+
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Sets the background and draws the name entry text.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.background(0);
+        this.title.draw(p);
+    }
+
+    /**
+     * Called once every time a key is pressed when the scene is active.
+     *
+     * Adds letters, digits and spaces to the name, and removes the last
+     * character when backspace is pressed.
+     *
+     * See {@link SceneKeyPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     */
+    keyPressed(p: p5): void {
+        if (p.key === "Backspace") {
+            this.name = this.name.slice(0, -1);
+        } else if (
+            /^[a-z0-9 ]$/i.test(p.key) &&
+            this.name.length < this.maxNameLength &&
+            !(p.key === " " && this.name.length === 0)
+        ) {
+            this.name += p.key;
+        }
+        this.updateNameText();
+    }
+
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Saves the run with the typed name when the confirm action is pressed,
+     * or skips saving when the back action is pressed, then crossfades to the
+     * game over scene.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void {
+        if (action === "confirm") {
+            this.sketch.audio.playSound("confirm");
+            const rank = this.sketch.highScores.add({
+                name: this.name.trim() || this.defaultName,
+                score: this.results.score,
+                date: new Date().toISOString(),
+                difficulty: this.results.difficulty.name,
+                level: this.results.level,
+            });
+            this.finish(rank === -1 ? undefined : rank);
+        } else if (action === "back") {
+            this.finish(undefined);
+        }
+    }
+
+    /** Shows the typed name, followed by a cursor if there is room. */
+    private updateNameText(): void {
+        const cursor = this.name.length < this.maxNameLength ? "_" : "";
+        this.title.lines[2].str = this.name + cursor;
+    }
+
+    /**
+     * Crossfades to the game over scene.
+     *
+     * @param rank - Index of the run in the high-score table, if it was
+     * added.
+     */
+    private finish(rank: number | undefined): void {
+        this.sketch
+            .goTo(
+                "gameOver",
+                { ...this.results, rank: rank },
+                new CrossfadeTransition()
+            )
+            .catch((reason) => {
+                console.error(reason);
+            });
+    }
+}
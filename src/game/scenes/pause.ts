@@ -0,0 +1,153 @@
+/**
+ * @file Pause scene class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    Scene,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    SceneSetupHandler,
+} from "@game/utils/scene";
+import { InputAction } from "@game/input/input-map";
+import { Sketch } from "@game/sketch";
+import { Title } from "@game/drawable/title";
+import { FontMetadata } from "@game/utils/font";
+import { CrossfadeTransition } from "@game/utils/transition";
+
+/**
+ * Overlay scene shown on top of the game while it is paused. The scenes below
+ * are drawn frozen and dimmed, and input is only handled by this scene.
+ */
+export class Pause
+    extends Scene
+    implements
+        SceneSetupHandler,
+        SceneEnterHandler<"pause">,
+        SceneActionPressedHandler
+{
+    readonly drawsBelow = true;
+
+    private title: Title;
+
+    /**
+     * Creates the pause scene.
+     *
+     * @param sketch - Parent sketch.
+     */
+    constructor(sketch: Sketch) {
+        super(sketch);
+    }
+
+    /**
+     * Called once when the sketch starts, used to define initial environment
+     * properties such as screen size and background color and to load media
+     * such as images and fonts.
+     *
+     * Creates the title and prompt text.
+     *
+     * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
+     * more information.
+     */
+    setup(): void {
+        this.title = new Title([
+            {
+                str: "Paused",
+                font: FontMetadata.auto({
+                    weight: "bold",
+                    size: 64,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 8,
+            },
+            {
+                str: "",
+                font: FontMetadata.auto({
+                    size: 32,
+                }),
+                fillColor: { red: 255, green: 255, blue: 255 },
+                yEndPadding: 0,
+            },
+        ]);
+    }
+
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Sets the prompt to the keys currently bound to the pause and quit
+     * actions.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.push} for more
+     * information.
+     */
+    enter(): void {
+        const input = this.sketch.input;
+        this.title.lines[1].str =
+            `Press ${input.keyLabel("pause")} to resume or ` +
+            `${input.keyLabel("quit")} to quit`;
+    }
+
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Dims the scenes drawn below, almost hiding them when high contrast is
+     * preferred, and draws the pause text.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.noStroke();
+        p.fill(0, this.sketch.preferences.values.highContrast ? 224 : 160);
+        p.rect(0, 0, p.width, p.height);
+        this.title.draw(p);
+    }
+
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Resumes the game when the pause action is pressed, or crossfades to the
+     * menu when the quit action is pressed.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void {
+        if (action === "pause") {
+            this.sketch.pop().catch((reason) => {
+                console.error(reason);
+            });
+        } else if (action === "quit") {
+            this.sketch
+                .goTo("menu", undefined, new CrossfadeTransition())
+                .catch((reason) => {
+                    console.error(reason);
+                });
+        }
+    }
+}
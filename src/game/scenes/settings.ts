@@ -0,0 +1,508 @@
+/**
+ * @file Settings scene.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import {
+    Scene,
+    SceneActionPressedHandler,
+    SceneEnterHandler,
+    SceneKeyPressedHandler,
+    SceneSetupHandler,
+} from "@game/utils/scene";
+import { InputAction, InputMap } from "@game/input/input-map";
+import { PreferenceName } from "@game/settings/preferences";
+import {
+    DifficultyPresetName,
+    DifficultyPresets,
+} from "@game/simulation/difficulty";
+import { Sketch } from "@game/sketch";
+import { Title, TitleTextComponent } from "@game/drawable/title";
+import { ColorComponents } from "@game/utils/color";
+import { FontMetadata } from "@game/utils/font";
+import { CrossfadeTransition } from "@game/utils/transition";
+
+/** Row of the settings list, showing and changing one option. */
+interface SettingsRow {
+    /** Name of the option shown to the player. */
+    label: string;
+
+    /**
+     * Gets the current value of the option as shown to the player.
+     *
+     * @returns Value text, or `undefined` for rows without a value.
+     */
+    value(): string | undefined;
+
+    /**
+     * Changes the option when a movement action is pressed on the row.
+     *
+     * @param offset - Direction of the change, -1 for left or 1 for right.
+     */
+    change?(offset: number): void;
+
+    /** Changes the option when the confirm action is pressed on the row. */
+    activate?(): void;
+}
+
+/** Volume preferences, changed in steps of a tenth. */
+type VolumeName = Extract<PreferenceName, `${string}Volume`>;
+
+/** On or off preferences. */
+type TogglePreferenceName =
+    | "muted"
+    | "reducedMotion"
+    | "highContrast"
+    | "showFps";
+
+/**
+ * Scene for changing the player's preferences and key bindings, opened from
+ * the menu. Changes are saved as soon as they are made, and scenes listening
+ * for them react straight away, such as the music volume changing while it
+ * plays.
+ *
+ * Key bindings are changed by choosing one of the keys of an action with LEFT
+ * and RIGHT, pressing RETURN, then pressing the new key. The action's other
+ * keys stay bound, and the new key is unbound from the other actions which
+ * can be rebound, so that one key does not both move and jump.
+ */
+export class Settings
+    extends Scene
+    implements
+        SceneSetupHandler,
+        SceneEnterHandler<"settings">,
+        SceneKeyPressedHandler,
+        SceneActionPressedHandler
+{
+    readonly music = "menu";
+
+    /** Actions which can be rebound, by the label shown to the player. */
+    readonly rebindableActions: Readonly<Record<string, InputAction>> = {
+        "Move left": "moveLeft",
+        "Move right": "moveRight",
+        Jump: "jump",
+        Pause: "pause",
+    };
+
+    /** Whether a key is waiting to be bound, so that any key is bound. */
+    get capturesKeys(): boolean {
+        return this.bindingAction !== undefined;
+    }
+
+    private title: Title;
+
+    /** Options shown in the list, from the top. */
+    private rows: SettingsRow[];
+
+    /** Index of the selected row in {@link rows}. */
+    private selectedRow = 0;
+
+    /**
+     * Index of the key chosen in the bindings of the selected row's action,
+     * which is replaced when the action is rebound.
+     */
+    private selectedSlot = 0;
+
+    /** Action waiting for a key to be pressed to bind it, if any. */
+    private bindingAction?: InputAction;
+
+    /**
+     * Frame in which a key was last bound. The actions of that key, which are
+     * handled after the key, are ignored so that binding a key such as RETURN
+     * does not also confirm the selected row.
+     */
+    private bindingFrame?: number;
+
+    /**
+     * Creates the settings scene.
+     *
+     * @param sketch - Parent sketch.
+     */
+    constructor(sketch: Sketch) {
+        super(sketch);
+    }
+
+    /**
+     * Called once when the sketch starts, used to define initial environment
+     * properties such as screen size and background color and to load media
+     * such as images and fonts.
+     *
+     * Creates the rows of options and the title listing them, and updates the
+     * list whenever a preference changes.
+     *
+     * See {@link Scene.setup}, {@link Sketch.setup} and {@link p5.setup} for
+     * more information.
+     */
+    setup(): void {
+        this.rows = [
+            this.volumeRow("Master volume", "masterVolume"),
+            this.volumeRow("Music volume", "musicVolume"),
+            this.volumeRow("Sound effects volume", "sfxVolume"),
+            this.toggleRow("Mute", "muted"),
+            {
+                label: "Difficulty",
+                value: () =>
+                    DifficultyPresets[this.sketch.preferences.values.difficulty]
+                        .name,
+                change: (offset) => this.changeDifficulty(offset),
+            },
+            this.toggleRow("Reduced motion", "reducedMotion"),
+            this.toggleRow("High contrast", "highContrast"),
+            this.toggleRow("Show FPS", "showFps"),
+            ...Object.keys(this.rebindableActions).map((label) =>
+                this.bindingRow(label, this.rebindableActions[label])
+            ),
+            {
+                label: "Reset to defaults",
+                value: () => undefined,
+                activate: () => {
+                    this.sketch.preferences.reset();
+                    this.sketch.input.resetBindings();
+                },
+            },
+            {
+                label: "Back",
+                value: () => undefined,
+                activate: () => this.close(),
+            },
+        ];
+        this.title = new Title();
+        this.sketch.preferences.onChange(() => this.updateText());
+    }
+
+    /**
+     * Called each time the scene is activated, after {@link setup}.
+     *
+     * Selects the first row.
+     *
+     * See {@link SceneEnterHandler} and {@link Sketch.goTo} for more
+     * information.
+     */
+    enter(): void {
+        this.selectedRow = 0;
+        this.selectedSlot = 0;
+        this.bindingAction = undefined;
+        this.updateText();
+    }
+
+    /**
+     * Continuously executes the lines of code contained inside its block until
+     * the program is stopped or {@link p5.noLoop} is called when the scene is
+     * visible.
+     *
+     * Sets the background and draws the list of options.
+     *
+     * See {@link Scene.draw}, {@link Sketch.draw} and {@link p5.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     */
+    draw(p: p5): void {
+        p.background(0);
+        this.title.draw(p);
+    }
+
+    /**
+     * Called once every time a key is pressed when the scene is active.
+     *
+     * Binds the key to the action waiting for a key in place of its chosen
+     * key, or cancels binding if the key is ESCAPE.
+     *
+     * See {@link SceneKeyPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     */
+    keyPressed(p: p5): void {
+        if (this.bindingAction === undefined) {
+            return;
+        }
+        if (p.key !== "Escape") {
+            const input = this.sketch.input;
+            input.rebind(
+                this.bindingAction,
+                this.selectedSlot,
+                p.key,
+                Object.values(this.rebindableActions)
+            );
+
+            // The key may have replaced another of the action's keys.
+            this.selectedSlot = Math.min(
+                this.selectedSlot,
+                Math.max(input.bindings[this.bindingAction].length - 1, 0)
+            );
+        }
+        this.bindingAction = undefined;
+        this.bindingFrame = p.frameCount;
+        this.updateText();
+    }
+
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * Selects the previous or next row when a navigation action is pressed,
+     * changes the selected option when a movement or the confirm action is
+     * pressed, or crossfades back to the menu when the back action is pressed.
+     * While waiting for a key to bind, only the back action is handled, which
+     * cancels binding.
+     *
+     * See {@link SceneActionPressedHandler} and {@link Sketch.keyPressed} for
+     * more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void {
+        if (p.frameCount === this.bindingFrame) {
+            return;
+        }
+        if (this.bindingAction !== undefined) {
+            if (action === "back") {
+                this.bindingAction = undefined;
+                this.updateText();
+            }
+            return;
+        }
+
+        const row = this.rows[this.selectedRow];
+        switch (action) {
+            case "navigateUp":
+                this.selectRow(-1);
+                break;
+            case "navigateDown":
+                this.selectRow(1);
+                break;
+            case "moveLeft":
+                row.change?.(-1);
+                break;
+            case "moveRight":
+                row.change?.(1);
+                break;
+            case "confirm":
+                this.sketch.audio.playSound("confirm");
+                row.activate?.();
+                break;
+            case "back":
+                this.close();
+                break;
+        }
+        this.updateText();
+    }
+
+    /**
+     * Creates a row changing a volume in steps of a tenth.
+     *
+     * @param label - Name of the option shown to the player.
+     * @param name - Name of the volume preference.
+     * @returns New row.
+     */
+    private volumeRow(label: string, name: VolumeName): SettingsRow {
+        return {
+            label: label,
+            value: () =>
+                `${Math.round(this.sketch.preferences.values[name] * 100)}%`,
+            change: (offset) => {
+                const volume = this.sketch.preferences.values[name];
+                this.sketch.preferences.set(
+                    name,
+                    Math.round(volume * 10 + offset) / 10
+                );
+                if (name !== "musicVolume") {
+                    // Play a sound at the new volume as feedback.
+                    this.sketch.audio.playSound("confirm");
+                }
+            },
+        };
+    }
+
+    /**
+     * Creates a row turning an option on or off.
+     *
+     * @param label - Name of the option shown to the player.
+     * @param name - Name of the on or off preference.
+     * @returns New row.
+     */
+    private toggleRow(label: string, name: TogglePreferenceName): SettingsRow {
+        const toggle = () =>
+            this.sketch.preferences.set(
+                name,
+                !this.sketch.preferences.values[name]
+            );
+        return {
+            label: label,
+            value: () => (this.sketch.preferences.values[name] ? "On" : "Off"),
+            change: toggle,
+            activate: toggle,
+        };
+    }
+
+    /**
+     * Creates a row showing the keys bound to an action, on which one key is
+     * chosen by changing the row, and which waits for a new key to replace it
+     * when activated.
+     *
+     * @param label - Name of the action shown to the player.
+     * @param action - Action to rebind.
+     * @returns New row.
+     */
+    private bindingRow(label: string, action: InputAction): SettingsRow {
+        const row: SettingsRow = {
+            label: label,
+            value: () =>
+                this.bindingText(action, this.rows[this.selectedRow] === row),
+            change: (offset) => {
+                const count = Math.max(
+                    this.sketch.input.bindings[action].length,
+                    1
+                );
+                this.selectedSlot =
+                    (this.selectedSlot + offset + count) % count;
+            },
+            activate: () => {
+                this.bindingAction = action;
+            },
+        };
+        return row;
+    }
+
+    /**
+     * Gets the names of the keys bound to an action, with the chosen key in
+     * brackets if the action's row is selected, or a prompt if the action is
+     * waiting for a new key.
+     *
+     * @param action - Action to describe.
+     * @param isSelected - Whether the action's row is selected.
+     * @returns Text shown as the value of the action's row.
+     */
+    private bindingText(action: InputAction, isSelected: boolean): string {
+        if (this.bindingAction === action) {
+            return "press a key";
+        }
+        const names = this.sketch.input.bindings[action].map((key) =>
+            InputMap.keyName(key)
+        );
+        if (names.length === 0) {
+            names.push("none");
+        }
+        return names
+            .map((name, index) =>
+                isSelected && index === this.selectedSlot ? `[${name}]` : name
+            )
+            .join(", ");
+    }
+
+    /**
+     * Moves the preferred difficulty, stopping at the easiest and hardest
+     * presets.
+     *
+     * @param offset - Number of presets to move by, negative for easier.
+     */
+    private changeDifficulty(offset: number): void {
+        const names = Object.keys(DifficultyPresets) as DifficultyPresetName[];
+        const index = Math.max(
+            0,
+            Math.min(
+                names.indexOf(this.sketch.preferences.values.difficulty) +
+                    offset,
+                names.length - 1
+            )
+        );
+        this.sketch.preferences.set("difficulty", names[index]);
+    }
+
+    /**
+     * Moves the row selection, wrapping around at either end.
+     *
+     * @param offset - Number of rows to move by, negative for earlier rows.
+     */
+    private selectRow(offset: number): void {
+        this.selectedRow =
+            (this.selectedRow + offset + this.rows.length) % this.rows.length;
+        this.selectedSlot = 0;
+    }
+
+    /** Crossfades back to the menu. */
+    private close(): void {
+        this.sketch
+            .goTo("menu", undefined, new CrossfadeTransition())
+            .catch((reason) => {
+                console.error(reason);
+            });
+    }
+
+    /**
+     * Lists the rows with their current values, highlighting the selected
+     * row, followed by a prompt for the controls naming their current keys.
+     */
+    private updateText(): void {
+        let prompt = "Press the new key, or ESCAPE to cancel";
+        if (this.bindingAction === undefined) {
+            const key = (action: InputAction) =>
+                this.sketch.input.keyLabel(action);
+            prompt =
+                `${key("navigateUp")} / ${key("navigateDown")}: select, ` +
+                `${key("moveLeft")} / ${key("moveRight")}: change, ` +
+                `${key("confirm")}: rebind, ${key("back")}: back`;
+        }
+        const highlight = { red: 255, green: 215, blue: 0 };
+        this.title.lines = [
+            Settings.line("Settings", 56, 24, "bold"),
+            ...this.rows.map((row, i) => {
+                const value = row.value();
+                const str =
+                    value === undefined ? row.label : `${row.label}: ${value}`;
+                if (i !== this.selectedRow) {
+                    return Settings.line(str, 24, 6);
+                }
+                return Settings.line(`< ${str} >`, 24, 6, "bold", highlight);
+            }),
+            Settings.line(prompt, 16, 0),
+        ];
+
+        // Leave a larger gap between the last row and the prompt.
+        this.title.lines[this.title.lines.length - 2].yEndPadding = 24;
+    }
+
+    /**
+     * Creates a line of text for the title.
+     *
+     * @param str - Text of the line.
+     * @param size - Font size in pixels.
+     * @param yEndPadding - Space below the line in pixels.
+     * @param weight - CSS font weight, or `undefined` for the default.
+     * @param fillColor - Color of the text, white by default.
+     * @returns New line.
+     */
+    private static line(
+        str: string,
+        size: number,
+        yEndPadding: number,
+        weight?: string,
+        fillColor: ColorComponents = { red: 255, green: 255, blue: 255 }
+    ): TitleTextComponent {
+        return {
+            str: str,
+            font: FontMetadata.auto({ weight: weight, size: size }),
+            fillColor: fillColor,
+            yEndPadding: yEndPadding,
+        };
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * @file Top scores saved between sessions.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { KeyValueStorage } from "@game/utils/storage";
+
+/** Single run recorded in the high-score table. */
+export interface HighScoreEntry {
+    /** Name entered by the player. */
+    readonly name: string;
+
+    /** Final score of the run. */
+    readonly score: number;
+
+    /** Date and time at which the run ended, as an ISO 8601 string. */
+    readonly date: string;
+
+    /** Name of the difficulty preset the run was played on. */
+    readonly difficulty: string;
+
+    /** Index of the level played, or `undefined` for an endless game. */
+    readonly level?: number;
+}
+
+/**
+ * Describes the mode a run was played in, such as "normal, level 2" or
+ * "hard, endless".
+ *
+ * @param entry - Recorded run.
+ * @returns Description of the difficulty and level.
+ */
+export function formatMode(entry: HighScoreEntry): string {
+    const level =
+        entry.level === undefined ? "endless" : `level ${entry.level + 1}`;
+    return `${entry.difficulty}, ${level}`;
+}
+
+/**
+ * Keeps the best runs in order from the highest score, saving them to storage
+ * whenever they change and loading them when the table is created.
+ *
+ * The table is saved with a version number. Saved data from an older version
+ * is migrated when loaded, and data which cannot be read is discarded, so that
+ * a corrupt save never stops the game from starting.
+ */
+export class HighScoreTable {
+    /** Version of the saved data written by this table. */
+    static readonly version = 1;
+
+    /** Largest number of runs kept. */
+    readonly capacity: number;
+
+    /** Runs in the table, from the highest score. */
+    get entries(): readonly HighScoreEntry[] {
+        return this._entries;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link entries}.
+     */
+    private _entries: HighScoreEntry[] = [];
+
+    /** Storage to which the table is saved. */
+    private storage: KeyValueStorage;
+
+    /** Key under which the table is saved in {@link storage}. */
+    private storageKey: string;
+
+    /**
+     * Creates a table, loading any runs saved in storage.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.storage - Storage to which the table is saved.
+     * @param props.storageKey - Key under which the table is saved.
+     * @param props.capacity - Largest number of runs kept.
+     */
+    constructor({
+        storage,
+        storageKey = "catch-game.high-scores",
+        capacity = 10,
+    }: {
+        storage: KeyValueStorage;
+        storageKey?: string;
+        capacity?: number;
+    }) {
+        this.storage = storage;
+        this.storageKey = storageKey;
+        this.capacity = capacity;
+        this.load();
+    }
+
+    /**
+     * Checks if a score is high enough to be added to the table.
+     *
+     * @param score - Final score of a run.
+     * @returns `true` if the score would be added, otherwise `false`.
+     */
+    qualifies(score: number): boolean {
+        if (score <= 0 || this.capacity <= 0) {
+            return false;
+        }
+        return (
+            this._entries.length < this.capacity ||
+            score > this._entries[this._entries.length - 1].score
+        );
+    }
+
+    /**
+     * Adds a run to the table if its score qualifies, below any runs with the
+     * same score, and saves the table.
+     *
+     * @param entry - Run to add.
+     * @returns Index of the run in {@link entries}, or `-1` if the score did
+     * not qualify.
+     */
+    add(entry: HighScoreEntry): number {
+        if (!this.qualifies(entry.score)) {
+            return -1;
+        }
+        let index = this._entries.findIndex(
+            (other) => other.score < entry.score
+        );
+        if (index === -1) {
+            index = this._entries.length;
+        }
+        this._entries.splice(index, 0, { ...entry });
+        this._entries.length = Math.min(this._entries.length, this.capacity);
+        this.save();
+        return index;
+    }
+
+    /** Removes every run from the table and saves it. */
+    clear(): void {
+        this._entries = [];
+        this.save();
+    }
+
+    /** Saves the table to storage with the current version number. */
+    private save(): void {
+        this.storage.setItem(
+            this.storageKey,
+            JSON.stringify({
+                version: HighScoreTable.version,
+                entries: this._entries,
+            })
+        );
+    }
+
+    /**
+     * Loads the table from storage, migrating data saved by older versions.
+     * Runs which cannot be read are skipped.
+     */
+    private load(): void {
+        let saved: unknown;
+        try {
+            saved = JSON.parse(this.storage.getItem(this.storageKey));
+        } catch {
+            return;
+        }
+        if (typeof saved !== "object" || saved === null) {
+            return;
+        }
+
+        const { version, entries } = saved as Record<string, unknown>;
+        switch (version) {
+            // Future versions should convert the saved entries of each older
+            // version here, falling through to the current version.
+            case HighScoreTable.version:
+                if (!Array.isArray(entries)) {
+                    return;
+                }
+                this._entries = entries
+                    .filter(HighScoreTable.isEntry)
+                    .sort((a, b) => b.score - a.score)
+                    .slice(0, this.capacity);
+                break;
+            default:
+                console.error(
+                    `Discarding high scores with unknown version ${version}`
+                );
+        }
+    }
+
+    /**
+     * Checks if saved data is a valid run.
+     *
+     * @param data - Saved data to check.
+     * @returns `true` if the data is a valid run, otherwise `false`.
+     */
+    private static isEntry(data: unknown): data is HighScoreEntry {
+        if (typeof data !== "object" || data === null) {
+            return false;
+        }
+        const entry = data as Record<string, unknown>;
+        return (
+            typeof entry.name === "string" &&
+            typeof entry.score === "number" &&
+            Number.isFinite(entry.score) &&
+            typeof entry.date === "string" &&
+            typeof entry.difficulty === "string" &&
+            (entry.level === undefined ||
+                (typeof entry.level === "number" &&
+                    Number.isInteger(entry.level) &&
+                    entry.level >= 0))
+        );
+    }
+}
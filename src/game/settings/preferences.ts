@@ -0,0 +1,281 @@
+/**
+ * @file Player preferences saved between sessions.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    DifficultyPresetName,
+    DifficultyPresets,
+} from "@game/simulation/difficulty";
+import { KeyValueStorage } from "@game/utils/storage";
+
+/** Options chosen by the player in the settings scene. */
+export interface PreferenceValues {
+    /** Volume of all audio from 0 to 1. */
+    masterVolume: number;
+
+    /** Volume of music from 0 to 1, before scaling by the master volume. */
+    musicVolume: number;
+
+    /**
+     * Volume of sound effects from 0 to 1, before scaling by the master
+     * volume.
+     */
+    sfxVolume: number;
+
+    /** Whether all audio is silenced, keeping the volumes for unmuting. */
+    muted: boolean;
+
+    /** Difficulty preset selected when the menu is shown. */
+    difficulty: DifficultyPresetName;
+
+    /**
+     * Whether movement which is only decorative, such as particle effects and
+     * transitions between scenes, is turned off.
+     */
+    reducedMotion: boolean;
+
+    /** Whether text and backgrounds are drawn in high-contrast colors. */
+    highContrast: boolean;
+
+    /** Whether the number of frames drawn per second is shown. */
+    showFps: boolean;
+}
+
+/** Name of a preference in {@link PreferenceValues}. */
+export type PreferenceName = keyof PreferenceValues;
+
+/**
+ * Function called after a preference has changed.
+ *
+ * @param name - Name of the preference which changed.
+ * @param values - All preferences, including the new value.
+ */
+export type PreferenceListener = (
+    name: PreferenceName,
+    values: Readonly<PreferenceValues>
+) => void;
+
+/**
+ * Keeps the player's preferences, saving them to storage whenever they change
+ * and loading them when created. Listeners are called after each change, so
+ * that scenes can react while they are shown.
+ *
+ * Preferences are saved with a version number, in the same way as the
+ * high-score table. Saved values which are missing or invalid are replaced by
+ * their defaults, and data from an unknown version is discarded.
+ */
+export class Preferences {
+    /** Version of the saved data written by this class. */
+    static readonly version = 1;
+
+    /** Values used for preferences which have not been changed. */
+    static readonly defaults: Readonly<PreferenceValues> = {
+        masterVolume: 1,
+        musicVolume: 0.8,
+        sfxVolume: 1,
+        muted: false,
+        difficulty: "normal",
+        reducedMotion: false,
+        highContrast: false,
+        showFps: false,
+    };
+
+    /** Current value of each preference. */
+    get values(): Readonly<PreferenceValues> {
+        return this._values;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link values}.
+     */
+    private _values: PreferenceValues = { ...Preferences.defaults };
+
+    /** Functions called after each change. */
+    private listeners: PreferenceListener[] = [];
+
+    /** Storage to which preferences are saved. */
+    private storage: KeyValueStorage;
+
+    /** Key under which preferences are saved in {@link storage}. */
+    private storageKey: string;
+
+    /**
+     * Creates the preferences, loading any values saved in storage.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.storage - Storage to which preferences are saved.
+     * @param props.storageKey - Key under which preferences are saved.
+     */
+    constructor({
+        storage,
+        storageKey = "catch-game.preferences",
+    }: {
+        storage: KeyValueStorage;
+        storageKey?: string;
+    }) {
+        this.storage = storage;
+        this.storageKey = storageKey;
+        this.load();
+    }
+
+    /**
+     * Changes a preference, saves the preferences and calls each listener.
+     * Volumes are limited to the range from 0 to 1. Nothing happens if the
+     * value is unchanged.
+     *
+     * @param name - Name of the preference to change.
+     * @param value - New value.
+     * @throws {@link RangeError} if the value is invalid for the preference.
+     */
+    set<K extends PreferenceName>(name: K, value: PreferenceValues[K]): void {
+        const checked = Preferences.check(name, value);
+        if (checked === undefined) {
+            throw new RangeError(`Invalid value for preference "${name}"`);
+        }
+        if (this._values[name] === checked) {
+            return;
+        }
+        this._values[name] = checked;
+        this.save();
+        this.notify(name);
+    }
+
+    /**
+     * Restores the default value of every preference, saves them and calls
+     * each listener for every preference which changed.
+     */
+    reset(): void {
+        const changed = (
+            Object.keys(Preferences.defaults) as PreferenceName[]
+        ).filter((name) => this._values[name] !== Preferences.defaults[name]);
+        this._values = { ...Preferences.defaults };
+        this.save();
+        changed.forEach((name) => this.notify(name));
+    }
+
+    /**
+     * Adds a function to be called after each change.
+     *
+     * @param listener - Function to call.
+     * @returns Function which removes the listener when called.
+     */
+    onChange(listener: PreferenceListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(
+                (other) => other !== listener
+            );
+        };
+    }
+
+    /**
+     * Calls each listener with a changed preference.
+     *
+     * @param name - Name of the preference which changed.
+     */
+    private notify(name: PreferenceName): void {
+        this.listeners.slice().forEach((listener) => {
+            listener(name, this._values);
+        });
+    }
+
+    /** Saves the preferences to storage with the current version number. */
+    private save(): void {
+        this.storage.setItem(
+            this.storageKey,
+            JSON.stringify({
+                version: Preferences.version,
+                values: this._values,
+            })
+        );
+    }
+
+    /**
+     * Loads the preferences from storage, migrating data saved by older
+     * versions. Values which cannot be read keep their defaults.
+     */
+    private load(): void {
+        let saved: unknown;
+        try {
+            saved = JSON.parse(this.storage.getItem(this.storageKey));
+        } catch {
+            return;
+        }
+        if (typeof saved !== "object" || saved === null) {
+            return;
+        }
+
+        const { version, values } = saved as Record<string, unknown>;
+        switch (version) {
+            // Future versions should convert the saved values of each older
+            // version here, falling through to the current version.
+            case Preferences.version:
+                if (typeof values !== "object" || values === null) {
+                    return;
+                }
+                (Object.keys(Preferences.defaults) as PreferenceName[]).forEach(
+                    (name) => {
+                        const value = Preferences.check(
+                            name,
+                            (values as Record<string, unknown>)[name]
+                        );
+                        if (value !== undefined) {
+                            this._values = { ...this._values, [name]: value };
+                        }
+                    }
+                );
+                break;
+            default:
+                console.error(
+                    `Discarding preferences with unknown version ${version}`
+                );
+        }
+    }
+
+    /**
+     * Checks that a value has the type of a preference, limiting volumes to
+     * the range from 0 to 1.
+     *
+     * @param name - Name of the preference.
+     * @param value - Value to check.
+     * @returns Value to store, or `undefined` if the value is invalid.
+     */
+    private static check<K extends PreferenceName>(
+        name: K,
+        value: unknown
+    ): PreferenceValues[K] | undefined {
+        const fallback = Preferences.defaults[name];
+        let checked: unknown;
+        if (name === "difficulty") {
+            checked =
+                typeof value === "string" &&
+                Object.prototype.hasOwnProperty.call(DifficultyPresets, value)
+                    ? value
+                    : undefined;
+        } else if (typeof fallback === "number") {
+            checked =
+                typeof value === "number" && Number.isFinite(value)
+                    ? Math.max(0, Math.min(value, 1))
+                    : undefined;
+        } else {
+            checked = typeof value === "boolean" ? value : undefined;
+        }
+        return checked as PreferenceValues[K] | undefined;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * @file Data definitions of the kinds of collectible items.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/** Effect applied to the game when the player catches an item. */
+export enum CatchEffect {
+    /** No effect other than changing the score. */
+    None,
+    /** Restores a lost life, up to {@link Simulation.maxLives}. */
+    ExtraLife,
+    /** Slows falling items for {@link Simulation.slowMotionDuration}. */
+    SlowMotion,
+}
+
+/**
+ * Defines the appearance and behavior of a kind of collectible item, so that
+ * new kinds can be added without subclassing {@link Collectible}.
+ */
+export interface CollectibleKind {
+    /** Unique name of the kind. */
+    readonly name: string;
+
+    /** Points added to the score when caught, or removed if negative. */
+    readonly points: number;
+
+    /** Diameter of the item in pixels. */
+    readonly size: number;
+
+    /** Speed at which the item falls in pixels per millisecond. */
+    readonly fallSpeed: number;
+
+    /** CSS color with which the item is drawn. */
+    readonly color: string;
+
+    /** Effect applied when the item is caught. */
+    readonly effect: CatchEffect;
+
+    /** Whether a life is lost when the item falls past the bottom. */
+    readonly losesLifeWhenMissed: boolean;
+}
+
+/** Kinds of collectible items available in the game. */
+export const CollectibleKinds = {
+    /** Common item worth a single point. */
+    basic: {
+        name: "basic",
+        points: 1,
+        size: 100,
+        fallSpeed: 0.2,
+        color: "#c8c8c8",
+        effect: CatchEffect.None,
+        losesLifeWhenMissed: true,
+    },
+    /** Rare, small and fast item worth ten points. */
+    golden: {
+        name: "golden",
+        points: 10,
+        size: 70,
+        fallSpeed: 0.3,
+        color: "#ffc832",
+        effect: CatchEffect.None,
+        losesLifeWhenMissed: true,
+    },
+    /** Bad item which removes points when caught and can safely be missed. */
+    rotten: {
+        name: "rotten",
+        points: -5,
+        size: 90,
+        fallSpeed: 0.25,
+        color: "#6e8c3c",
+        effect: CatchEffect.None,
+        losesLifeWhenMissed: false,
+    },
+    /** Power-up which restores a lost life. */
+    extraLife: {
+        name: "extraLife",
+        points: 0,
+        size: 80,
+        fallSpeed: 0.25,
+        color: "#e6465a",
+        effect: CatchEffect.ExtraLife,
+        losesLifeWhenMissed: false,
+    },
+    /** Power-up which slows falling items for a while. */
+    slowMotion: {
+        name: "slowMotion",
+        points: 0,
+        size: 80,
+        fallSpeed: 0.25,
+        color: "#50a0ff",
+        effect: CatchEffect.SlowMotion,
+        losesLifeWhenMissed: false,
+    },
+} as const satisfies Record<string, CollectibleKind>;
+
+/** Name of a kind of collectible item in {@link CollectibleKinds}. */
+export type CollectibleKindName = keyof typeof CollectibleKinds;
@@ -0,0 +1,244 @@
+/**
+ * @file Difficulty curves and presets which make the game harder over time.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/** Properties of the game which change as the difficulty increases. */
+export interface DifficultySettings {
+    /** Time in milliseconds between spawning collectibles. */
+    spawnInterval: number;
+
+    /** Factor by which the fall speed of each kind of item is multiplied. */
+    fallSpeedScale: number;
+
+    /**
+     * Factor by which the spawn weight of hazards, such as items worth
+     * negative points, is multiplied.
+     */
+    hazardScale: number;
+}
+
+/**
+ * Difficulty settings at a given level. Settings between keyframes are
+ * linearly interpolated.
+ */
+export interface DifficultyKeyframe extends DifficultySettings {
+    /** Level at which the settings apply, starting at 1. */
+    level: number;
+}
+
+/** Named configuration of a difficulty curve, selectable from the menu. */
+export interface DifficultyPreset {
+    /** Name shown to the player. */
+    readonly name: string;
+
+    /** Number of lives at the start of each game. */
+    readonly startingLives: number;
+
+    /** Game time in milliseconds after which the level increases by one. */
+    readonly timePerLevel: number;
+
+    /** Points scored after which the level increases by one. */
+    readonly pointsPerLevel: number;
+
+    /** Highest level which can be reached. */
+    readonly maxLevel: number;
+
+    /** Settings at increasing levels, with at least one keyframe. */
+    readonly keyframes: readonly Readonly<DifficultyKeyframe>[];
+}
+
+/** Names of the built-in difficulty presets. */
+export type DifficultyPresetName = "easy" | "normal" | "hard";
+
+/** Built-in presets, ordered from the easiest to the hardest. */
+export const DifficultyPresets = {
+    easy: {
+        name: "Easy",
+        startingLives: 5,
+        timePerLevel: 40000,
+        pointsPerLevel: 40,
+        maxLevel: 10,
+        keyframes: [
+            {
+                level: 1,
+                spawnInterval: 800,
+                fallSpeedScale: 0.8,
+                hazardScale: 0.5,
+            },
+            {
+                level: 10,
+                spawnInterval: 500,
+                fallSpeedScale: 1.3,
+                hazardScale: 1,
+            },
+        ],
+    },
+    normal: {
+        name: "Normal",
+        startingLives: 3,
+        timePerLevel: 30000,
+        pointsPerLevel: 30,
+        maxLevel: 10,
+        keyframes: [
+            {
+                level: 1,
+                spawnInterval: 600,
+                fallSpeedScale: 1,
+                hazardScale: 1,
+            },
+            {
+                level: 5,
+                spawnInterval: 450,
+                fallSpeedScale: 1.3,
+                hazardScale: 1.5,
+            },
+            {
+                level: 10,
+                spawnInterval: 300,
+                fallSpeedScale: 1.8,
+                hazardScale: 2.5,
+            },
+        ],
+    },
+    hard: {
+        name: "Hard",
+        startingLives: 3,
+        timePerLevel: 20000,
+        pointsPerLevel: 20,
+        maxLevel: 10,
+        keyframes: [
+            {
+                level: 1,
+                spawnInterval: 450,
+                fallSpeedScale: 1.2,
+                hazardScale: 1.5,
+            },
+            {
+                level: 10,
+                spawnInterval: 220,
+                fallSpeedScale: 2.2,
+                hazardScale: 3,
+            },
+        ],
+    },
+} as const satisfies Record<DifficultyPresetName, DifficultyPreset>;
+
+/**
+ * Tracks the difficulty level of a single game from its elapsed time and
+ * score, and the settings at that level. Time and score both contribute to
+ * raising the level, so that skilled players reach harder levels sooner.
+ */
+export class Difficulty {
+    /** Preset defining the difficulty curve. */
+    readonly preset: DifficultyPreset;
+
+    /** Current difficulty level, starting at 1. */
+    get level(): number {
+        return this._level;
+    }
+
+    /** Settings at the current level. */
+    get settings(): Readonly<DifficultySettings> {
+        return this._settings;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link level}.
+     */
+    private _level = 1;
+
+    /**
+     * Private mutable to store the readonly property {@link settings}.
+     */
+    private _settings: DifficultySettings;
+
+    /**
+     * Creates a new difficulty at level 1.
+     *
+     * @param preset - Preset defining the difficulty curve.
+     * @throws RangeError if the preset has no keyframes.
+     */
+    constructor(preset: DifficultyPreset) {
+        if (preset.keyframes.length === 0) {
+            throw new RangeError(`Preset "${preset.name}" has no keyframes`);
+        }
+        this.preset = preset;
+        this._settings = Difficulty.settingsAt(preset.keyframes, 1);
+    }
+
+    /**
+     * Updates the level from the progress of the game. The level never goes
+     * down, so that losing points does not make the game easier.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.elapsed - Game time in milliseconds since the game started.
+     * @param props.score - Current score.
+     * @returns `true` if the level changed, otherwise `false`.
+     */
+    update({ elapsed, score }: { elapsed: number; score: number }): boolean {
+        const progress =
+            elapsed / this.preset.timePerLevel +
+            Math.max(score, 0) / this.preset.pointsPerLevel;
+        const level = Math.max(
+            Math.min(1 + Math.floor(progress), this.preset.maxLevel),
+            this._level
+        );
+        if (level === this._level) {
+            return false;
+        }
+        this._level = level;
+        this._settings = Difficulty.settingsAt(this.preset.keyframes, level);
+        return true;
+    }
+
+    /**
+     * Calculates the settings at a level by linearly interpolating between the
+     * keyframes either side of it. Levels outside the keyframes use the
+     * settings of the nearest keyframe.
+     *
+     * @param keyframes - Settings at increasing levels.
+     * @param level - Level at which to find the settings.
+     * @returns Settings at the level.
+     */
+    static settingsAt(
+        keyframes: readonly Readonly<DifficultyKeyframe>[],
+        level: number
+    ): DifficultySettings {
+        const nextIndex = keyframes.findIndex((frame) => frame.level >= level);
+        if (nextIndex === 0 || nextIndex === -1) {
+            const nearest =
+                keyframes[nextIndex === 0 ? 0 : keyframes.length - 1];
+            return {
+                spawnInterval: nearest.spawnInterval,
+                fallSpeedScale: nearest.fallSpeedScale,
+                hazardScale: nearest.hazardScale,
+            };
+        }
+
+        const previous = keyframes[nextIndex - 1];
+        const next = keyframes[nextIndex];
+        const t = (level - previous.level) / (next.level - previous.level);
+        const lerp = (from: number, to: number) => from + (to - from) * t;
+        return {
+            spawnInterval: lerp(previous.spawnInterval, next.spawnInterval),
+            fallSpeedScale: lerp(previous.fallSpeedScale, next.fallSpeedScale),
+            hazardScale: lerp(previous.hazardScale, next.hazardScale),
+        };
+    }
+}
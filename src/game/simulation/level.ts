@@ -0,0 +1,356 @@
+/**
+ * @file Level definitions and validation of level files.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    CollectibleKindName,
+    CollectibleKinds,
+} from "@game/simulation/collectible-kind";
+
+/**
+ * Horizontal position of an item, either as a fraction of the world's width
+ * from 0 (left) to 1 (right), or as the index of a lane when the level is
+ * divided into {@link LevelDefinition.lanes}.
+ */
+export type LevelPosition = { x: number } | { lane: number };
+
+/**
+ * How the items of a wave are positioned and timed.
+ *
+ * - `line`: items spawn one after another, spread evenly from the `from`
+ *   position to the `to` position.
+ * - `zigzag`: items spawn one after another, moving back and forth between
+ *   the `from` and `to` positions every {@link WaveDefinition.legLength}
+ *   items.
+ * - `burst`: all items spawn at once, spread evenly from the `from` position
+ *   to the `to` position.
+ */
+export type WavePattern = "line" | "zigzag" | "burst";
+
+/** Timed group of collectible items in a level. */
+export interface WaveDefinition {
+    /** Time in milliseconds after the level starts at which the wave starts. */
+    start: number;
+
+    /** How the items are positioned and timed. */
+    pattern: WavePattern;
+
+    /** Number of items in the wave. */
+    count: number;
+
+    /**
+     * Time in milliseconds between items spawning, ignored by bursts.
+     * Defaults to 500.
+     */
+    interval: number;
+
+    /** Position of the first item. */
+    from: LevelPosition;
+
+    /** Position of the last item. Defaults to {@link from}. */
+    to: LevelPosition;
+
+    /** Number of items in each sweep of a zigzag. Defaults to 4. */
+    legLength: number;
+
+    /** Name of the kind of item in {@link CollectibleKinds}. */
+    kind: CollectibleKindName;
+
+    /**
+     * Speed at which the items fall in pixels per millisecond. Defaults to
+     * the fall speed of the kind.
+     */
+    speed?: number;
+}
+
+/**
+ * Conditions under which a level is won. All given conditions must be met,
+ * and at least one must be given.
+ */
+export interface WinCondition {
+    /** Score to reach. */
+    score?: number;
+
+    /** Number of items to catch. */
+    caught?: number;
+
+    /** Game time in milliseconds to survive. */
+    survive?: number;
+
+    /** Whether every wave must have spawned and no items may be left. */
+    allWaves?: boolean;
+}
+
+/** Level loaded from a level file. */
+export interface LevelDefinition {
+    /** Name shown to the player. */
+    name: string;
+
+    /** Number of lanes which items can be positioned in, if any. */
+    lanes?: number;
+
+    /** Timed waves of items, in any order. */
+    waves: WaveDefinition[];
+
+    /** Conditions under which the level is won. */
+    win: WinCondition;
+}
+
+/**
+ * Error thrown when a level file does not match the level format. Lists every
+ * problem found, each with the path of the invalid value in the file.
+ */
+export class LevelValidationError extends Error {
+    /** Path or name of the invalid file. */
+    readonly source: string;
+
+    /** Descriptions of each problem found, such as `waves[0].count: ...`. */
+    readonly issues: readonly string[];
+
+    /**
+     * Creates a new level validation error.
+     *
+     * @param source - Path or name of the invalid file.
+     * @param issues - Descriptions of each problem found.
+     */
+    constructor(source: string, issues: string[]) {
+        super(
+            `Invalid level "${source}":\n` +
+                issues.map((issue) => `  - ${issue}`).join("\n")
+        );
+        this.name = "LevelValidationError";
+        this.source = source;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Checks that data loaded from a level file matches the level format, and
+ * fills in default values.
+ *
+ * @param data - Parsed JSON data of the level file.
+ * @param source - Path or name of the file, used in error messages.
+ * @returns Validated level.
+ * @throws {@link LevelValidationError} if the data does not match the level
+ * format.
+ */
+export function parseLevel(data: unknown, source: string): LevelDefinition {
+    const issues: string[] = [];
+    const fail = (path: string, message: string) => {
+        issues.push(`${path}: ${message}`);
+    };
+
+    if (!isObject(data)) {
+        throw new LevelValidationError(source, ["level: expected an object"]);
+    }
+
+    if (typeof data.name !== "string" || data.name.length === 0) {
+        fail("name", "expected a non-empty string");
+    }
+
+    const lanes = data.lanes;
+    if (lanes !== undefined && !isInteger(lanes, 1)) {
+        fail("lanes", "expected an integer of at least 1");
+    }
+
+    const checkPosition = (value: unknown, path: string) => {
+        if (!isObject(value)) {
+            fail(path, "expected an object with x or lane");
+        } else if ("x" in value === "lane" in value) {
+            fail(path, "expected exactly one of x or lane");
+        } else if ("x" in value) {
+            if (!isNumber(value.x) || value.x < 0 || value.x > 1) {
+                fail(`${path}.x`, "expected a number from 0 to 1");
+            }
+        } else if (typeof lanes !== "number") {
+            fail(`${path}.lane`, "expected lanes to be set for the level");
+        } else if (!isInteger(value.lane, 0) || value.lane >= lanes) {
+            fail(`${path}.lane`, `expected an integer from 0 to ${lanes - 1}`);
+        }
+    };
+
+    const waves: WaveDefinition[] = [];
+    if (!Array.isArray(data.waves) || data.waves.length === 0) {
+        fail("waves", "expected a non-empty array");
+    } else {
+        data.waves.forEach((wave: unknown, i: number) => {
+            const path = `waves[${i}]`;
+            if (!isObject(wave)) {
+                fail(path, "expected an object");
+                return;
+            }
+            if (!isNumber(wave.start) || wave.start < 0) {
+                fail(`${path}.start`, "expected a number of at least 0");
+            }
+            if (
+                wave.pattern !== "line" &&
+                wave.pattern !== "zigzag" &&
+                wave.pattern !== "burst"
+            ) {
+                fail(`${path}.pattern`, "expected line, zigzag or burst");
+            }
+            if (!isInteger(wave.count, 1)) {
+                fail(`${path}.count`, "expected an integer of at least 1");
+            }
+            if (
+                wave.interval !== undefined &&
+                (!isNumber(wave.interval) || wave.interval < 0)
+            ) {
+                fail(`${path}.interval`, "expected a number of at least 0");
+            }
+            checkPosition(wave.from, `${path}.from`);
+            if (wave.to !== undefined) {
+                checkPosition(wave.to, `${path}.to`);
+            }
+            if (wave.legLength !== undefined && !isInteger(wave.legLength, 1)) {
+                fail(`${path}.legLength`, "expected an integer of at least 1");
+            }
+            if (
+                typeof wave.kind !== "string" ||
+                !Object.prototype.hasOwnProperty.call(
+                    CollectibleKinds,
+                    wave.kind
+                )
+            ) {
+                const names = Object.keys(CollectibleKinds).join(", ");
+                fail(`${path}.kind`, `expected one of ${names}`);
+            }
+            if (
+                wave.speed !== undefined &&
+                (!isNumber(wave.speed) || wave.speed <= 0)
+            ) {
+                fail(`${path}.speed`, "expected a number greater than 0");
+            }
+
+            waves.push({
+                start: wave.start as number,
+                pattern: wave.pattern as WavePattern,
+                count: wave.count as number,
+                interval: (wave.interval as number) ?? 500,
+                from: wave.from as LevelPosition,
+                to: (wave.to ?? wave.from) as LevelPosition,
+                legLength: (wave.legLength as number) ?? 4,
+                kind: wave.kind as CollectibleKindName,
+                speed: wave.speed as number | undefined,
+            });
+        });
+    }
+
+    const win = data.win;
+    if (!isObject(win)) {
+        fail("win", "expected an object");
+    } else {
+        const counts = ["score", "caught", "survive"].filter(
+            (key) => win[key] !== undefined
+        );
+        counts.forEach((key) => {
+            if (!isNumber(win[key]) || win[key] <= 0) {
+                fail(`win.${key}`, "expected a number greater than 0");
+            }
+        });
+        if (win.allWaves !== undefined && typeof win.allWaves !== "boolean") {
+            fail("win.allWaves", "expected a boolean");
+        }
+        if (counts.length === 0 && win.allWaves !== true) {
+            fail("win", "expected at least one condition");
+        }
+
+        // Only the items in the waves can be caught, so higher goals could
+        // never be met.
+        let maxScore = 0;
+        let maxCaught = 0;
+        waves.forEach((wave) => {
+            const points = CollectibleKinds[wave.kind]?.points ?? 0;
+            if (isInteger(wave.count, 1) && points > 0) {
+                maxScore += wave.count * points;
+                maxCaught += wave.count;
+            }
+        });
+        if (isNumber(win.score) && win.score > maxScore) {
+            fail(
+                "win.score",
+                `expected at most ${maxScore}, the most possible`
+            );
+        }
+        if (isNumber(win.caught) && win.caught > maxCaught) {
+            fail(
+                "win.caught",
+                `expected at most ${maxCaught}, the number of scoring items`
+            );
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new LevelValidationError(source, issues);
+    }
+    return {
+        name: data.name as string,
+        lanes: lanes as number | undefined,
+        waves: waves,
+        win: win as WinCondition,
+    };
+}
+
+/**
+ * Converts a position in a level to a fraction of the world's width.
+ *
+ * @param level - Level containing the position.
+ * @param position - Position to convert.
+ * @returns Fraction of the world's width, from 0 (left) to 1 (right).
+ */
+export function positionToFraction(
+    level: LevelDefinition,
+    position: LevelPosition
+): number {
+    if ("x" in position) {
+        return position.x;
+    }
+    return (position.lane + 0.5) / level.lanes;
+}
+
+/**
+ * Checks if a value is a plain object.
+ *
+ * @param value - Value to check.
+ * @returns `true` if the value is a non-null, non-array object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks if a value is a finite number.
+ *
+ * @param value - Value to check.
+ * @returns `true` if the value is a finite number.
+ */
+function isNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Checks if a value is an integer of at least a minimum value.
+ *
+ * @param value - Value to check.
+ * @param min - Smallest allowed value.
+ * @returns `true` if the value is an integer of at least the minimum.
+ */
+function isInteger(value: unknown, min: number): value is number {
+    return isNumber(value) && Math.floor(value) === value && value >= min;
+}
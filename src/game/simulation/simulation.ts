@@ -0,0 +1,485 @@
+/**
+ * @file Game simulation class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Collectible } from "@game/entities/collectible";
+import {
+    CatchEffect,
+    CollectibleKind,
+} from "@game/simulation/collectible-kind";
+import {
+    Difficulty,
+    DifficultyPreset,
+    DifficultyPresets,
+} from "@game/simulation/difficulty";
+import { LevelDefinition } from "@game/simulation/level";
+import { SpawnTable } from "@game/simulation/spawn-table";
+import { WaveSchedule } from "@game/simulation/wave-schedule";
+import { Collider } from "@game/utils/collider";
+import { Entity } from "@game/utils/entity";
+import { EntityManager } from "@game/utils/entity-manager";
+import { Player } from "@game/entities/player";
+import { Sprite } from "@game/utils/sprite";
+import { V2d } from "@game/utils/vector";
+import { World } from "@game/utils/world";
+
+/**
+ * Something which happened during a single step of the simulation, reported
+ * so that scenes can show effects without the simulation depending on p5.
+ */
+export type SimulationEvent =
+    | {
+          readonly type: "catch" | "miss";
+
+          /**
+           * Position of the item when caught, or where it left the bottom of
+           * the world when missed.
+           */
+          readonly position: V2d;
+
+          /** Kind of the item. */
+          readonly kind: CollectibleKind;
+      }
+    | {
+          readonly type: "jump" | "land";
+
+          /** Position of the bottom center of the player. */
+          readonly position: V2d;
+      };
+
+/**
+ * Contains the state and logic of a single game, independently of p5 so that
+ * games can be stepped without a canvas. The game scene owns a simulation,
+ * steps it each update, and draws its entities.
+ */
+export class Simulation {
+    /** User-controllable player entity. */
+    readonly player: Player;
+
+    /**
+     * Collectible item entities, which are pooled so that no new items are
+     * created once enough have been caught or missed.
+     */
+    readonly collectibles = new EntityManager<Collectible>({
+        create: () =>
+            new Collectible({
+                sprite: new Sprite({ width: 100, height: 100 }),
+            }),
+    });
+
+    /** All entities to be updated each step. */
+    get entities(): Entity[] {
+        const all: Entity[] = [this.player];
+        return all.concat(this.collectibles.active);
+    }
+
+    /**
+     * Time in milliseconds until a new collectible item entity should be
+     * spawned.
+     */
+    private spawnTimer: number;
+
+    /**
+     * Table from which the kind of each spawned collectible is picked. The
+     * weights of hazards are scaled by the difficulty settings.
+     */
+    spawnTable = SpawnTable.createDefault();
+
+    /**
+     * Difficulty level of the current game, which controls the spawn rate,
+     * fall speed and mix of hazards.
+     */
+    get difficulty(): Difficulty {
+        return this._difficulty;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link difficulty}.
+     */
+    private _difficulty: Difficulty;
+
+    /**
+     * Level being played, which spawns items from its waves in place of the
+     * spawn table, or `undefined` in endless games.
+     */
+    get level(): LevelDefinition | undefined {
+        return this._level;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link level}.
+     */
+    private _level?: LevelDefinition;
+
+    /** Items left to spawn from the waves of the level being played. */
+    private waveSchedule?: WaveSchedule;
+
+    /**
+     * Time in milliseconds on the wave schedule of the level being played,
+     * which passes slower during slow motion.
+     */
+    private waveTime: number;
+
+    /** Game time in milliseconds since the current game started. */
+    get elapsed(): number {
+        return this._elapsed;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link elapsed}.
+     */
+    private _elapsed: number;
+
+    /**
+     * Points earned from the items caught by the player. Limited to 0 to
+     * 999999.
+     */
+    get score(): number {
+        return this._score;
+    }
+
+    set score(value: number) {
+        this._score = Math.max(0, Math.min(value, 999999));
+    }
+
+    private _score: number;
+
+    /**
+     * Number of collectible items the player can miss before the game ends.
+     */
+    lives: number;
+
+    /**
+     * Value to reset {@link lives} to at the start of each game, set from the
+     * difficulty preset.
+     */
+    startingLives: number;
+
+    /** Largest number of lives which can be restored by extra life items. */
+    maxLives = 5;
+
+    /**
+     * Time in milliseconds for which falling items are slowed after catching
+     * a slow motion item.
+     */
+    slowMotionDuration = 5000;
+
+    /** Factor by which falling items are slowed during slow motion. */
+    slowMotionScale = 0.5;
+
+    /** Time in milliseconds until slow motion ends. */
+    private slowMotionTimer: number;
+
+    /**
+     * Events which happened during the last step, in order. Replaced at the
+     * start of each step.
+     */
+    get events(): readonly SimulationEvent[] {
+        return this._events;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link events}.
+     */
+    private _events: SimulationEvent[] = [];
+
+    /** Whether falling items are slowed by a slow motion item. */
+    get isSlowMotion(): boolean {
+        return this.slowMotionTimer > 0;
+    }
+
+    /** Time in milliseconds until slow motion ends, or 0 if not slowed. */
+    get slowMotionRemaining(): number {
+        return this.slowMotionTimer;
+    }
+
+    /** Number of items worth points caught by the player. */
+    caught: number;
+
+    /**
+     * Number of items worth points caught in a row, since the player last
+     * caught an item worth negative points or missed an item which loses a
+     * life.
+     */
+    combo: number;
+
+    /** Whether the game has ended because all lives have been lost. */
+    get isOver(): boolean {
+        return this.lives <= 0;
+    }
+
+    /**
+     * Whether the win conditions of the level being played have all been met.
+     * Always `false` in endless games.
+     */
+    get isWon(): boolean {
+        if (this.level === undefined) {
+            return false;
+        }
+        const win = this.level.win;
+        return (
+            (win.score === undefined || this.score >= win.score) &&
+            (win.caught === undefined || this.caught >= win.caught) &&
+            (win.survive === undefined || this.elapsed >= win.survive) &&
+            (!win.allWaves ||
+                (this.waveSchedule.isFinished &&
+                    this.collectibles.activeCount === 0))
+        );
+    }
+
+    /**
+     * Whether the level being played can no longer be won, because every wave
+     * has spawned and no items are left, but the score or caught condition
+     * has not been met. A condition to survive for a time is still met by
+     * waiting, so it does not fail the level. Always `false` in endless games.
+     */
+    get isFailed(): boolean {
+        if (
+            this.level === undefined ||
+            !this.waveSchedule.isFinished ||
+            this.collectibles.activeCount > 0
+        ) {
+            return false;
+        }
+        const win = this.level.win;
+        return (
+            (win.score !== undefined && this.score < win.score) ||
+            (win.caught !== undefined && this.caught < win.caught)
+        );
+    }
+
+    /**
+     * Creates a new simulation with the player's movement properties. The
+     * game state must be initialized with {@link reset} before stepping.
+     */
+    constructor() {
+        this.player = new Player();
+        this.player.sprite.size = { x: 200, y: 200 };
+        this.player.collider = new Collider({
+            shape: { type: "circle", radius: 100 },
+        });
+        this.player.accelerationModifier = { x: 1, y: 0.4 };
+        this.player.decelerationModifier = { x: 0.0075, y: 0.005 };
+        this.player.maxSpeed = { x: 0.75, y: 2 };
+    }
+
+    /**
+     * Resets the game state so that a new game can be started, removing any
+     * state left from a previous game.
+     *
+     * @param bounds - Width (x) and height (y) of the world in pixels.
+     * @param preset - Difficulty preset of the new game.
+     * @param level - Level to play, or `undefined` for an endless game.
+     */
+    reset(
+        bounds: V2d,
+        preset: DifficultyPreset = DifficultyPresets.normal,
+        level?: LevelDefinition
+    ): void {
+        this._difficulty = new Difficulty(preset);
+        this._level = level;
+        this.waveSchedule = level && new WaveSchedule(level);
+        this.waveTime = 0;
+        this._elapsed = 0;
+        this.startingLives = preset.startingLives;
+        this.collectibles.clear();
+        this.player.reset(bounds);
+        this.spawnTimer = 0;
+        this.score = 0;
+        this.caught = 0;
+        this.combo = 0;
+        this.lives = this.startingLives;
+        this.slowMotionTimer = 0;
+        this._events = [];
+    }
+
+    /**
+     * Advances the game by a single update, spawning collectibles, moving
+     * entities, handling collisions and missed items, and culling items which
+     * have left the world.
+     *
+     * @param world - Context in which the update is simulated.
+     */
+    step(world: World): void {
+        this._events = [];
+
+        // Slow the passing of time for falling items during slow motion, but
+        // not for the player.
+        const itemWorld: World = {
+            ...world,
+            deltaTime: this.isSlowMotion
+                ? world.deltaTime * this.slowMotionScale
+                : world.deltaTime,
+        };
+        this.slowMotionTimer = Math.max(
+            this.slowMotionTimer - world.deltaTime,
+            0
+        );
+        this._elapsed += world.deltaTime;
+
+        // Conditionally spawn collectibles, from the level's waves if a level
+        // is being played.
+        if (this.waveSchedule !== undefined) {
+            this.spawnWaves(itemWorld);
+        } else {
+            this.updateSpawnTimer(itemWorld);
+        }
+
+        // Call entity update routines comprising the internal entity movement
+        // and data logic.
+        const wasAirborne = this.player.isAirborne;
+        this.player.storePreviousPosition();
+        this.player.update(world);
+        if (this.player.isAirborne !== wasAirborne) {
+            this._events.push({
+                type: wasAirborne ? "land" : "jump",
+                position: {
+                    x: this.player.position.x,
+                    y:
+                        this.player.position.y +
+                        this.player.sprite.centerPoint.y,
+                },
+            });
+        }
+        this.collectibles.active.forEach((entity) => {
+            entity.storePreviousPosition();
+            entity.update(itemWorld);
+        });
+
+        // Check collisions.
+        this.collectibles.removeWhere((entity) => {
+            if (entity.didCollide(this.player)) {
+                // Apply the item's points and effect and remove collectible if
+                // collided with player.
+                this.catchItem(entity.kind);
+                this._events.push({
+                    type: "catch",
+                    position: { ...entity.position },
+                    kind: entity.kind,
+                });
+                return true;
+            } else if (
+                entity.position.y - entity.sprite.centerPoint.y >
+                world.bounds.y
+            ) {
+                // Lose a life and end the combo if required, and remove
+                // collectible if it fell past the bottom of the world.
+                if (entity.kind.losesLifeWhenMissed) {
+                    --this.lives;
+                    this.combo = 0;
+                }
+                this._events.push({
+                    type: "miss",
+                    position: { x: entity.position.x, y: world.bounds.y },
+                    kind: entity.kind,
+                });
+                return true;
+            }
+            return false;
+        });
+
+        // Remove collectibles left outside the world, such as after the world
+        // was resized.
+        this.collectibles.cull(world.bounds);
+
+        // Raise the difficulty level as time passes and points are scored.
+        this.difficulty.update({ elapsed: this.elapsed, score: this.score });
+    }
+
+    /**
+     * Applies the points and catch effect of an item caught by the player.
+     *
+     * @param kind - Kind of the caught item.
+     */
+    private catchItem(kind: CollectibleKind): void {
+        this.score += kind.points;
+        if (kind.points > 0) {
+            ++this.caught;
+            ++this.combo;
+        } else if (kind.points < 0) {
+            this.combo = 0;
+        }
+        switch (kind.effect) {
+            case CatchEffect.ExtraLife:
+                this.lives = Math.min(this.lives + 1, this.maxLives);
+                break;
+            case CatchEffect.SlowMotion:
+                this.slowMotionTimer = this.slowMotionDuration;
+                break;
+        }
+    }
+
+    /**
+     * Advances the wave schedule of the level being played and spawns the
+     * items which are due, at speeds scaled by the difficulty.
+     *
+     * @param world - Context in which the update is simulated.
+     */
+    private spawnWaves(world: World): void {
+        this.waveTime += world.deltaTime;
+        const settings = this.difficulty.settings;
+        this.waveSchedule.take(this.waveTime).forEach((spawn) => {
+            const radius = spawn.kind.size / 2;
+            this.collectibles.spawn().reset({
+                x: radius + spawn.x * (world.bounds.x - 2 * radius),
+                y: -radius,
+                dy: spawn.speed * settings.fallSpeedScale,
+                kind: spawn.kind,
+            });
+        });
+    }
+
+    /**
+     * Updates the collectible spawn timer and spawns a collectible if the timer
+     * has completed.
+     *
+     * @param world - Context in which the update is simulated.
+     */
+    private updateSpawnTimer(world: World): void {
+        if (this.spawnTimer <= 0) {
+            this.spawnTimer = this.difficulty.settings.spawnInterval;
+            this.spawnCollectible(world);
+        } else {
+            this.spawnTimer -= world.deltaTime;
+        }
+    }
+
+    /**
+     * Spawns a pooled or new collectible entity of a kind picked from the
+     * spawn table, randomly positioned on the x-axis and moving from the top
+     * to the bottom of the world at a speed scaled by the difficulty.
+     *
+     * @param world - Context in which the update is simulated.
+     */
+    private spawnCollectible(world: World): void {
+        const settings = this.difficulty.settings;
+        const kind = this.spawnTable
+            .scaled((candidate) =>
+                candidate.points < 0 ? settings.hazardScale : 1
+            )
+            .pick(world.random);
+        const radius = kind.size / 2;
+        this.collectibles.spawn().reset({
+            x: radius + world.random() * (world.bounds.x - 2 * radius),
+            y: -radius,
+            dy: kind.fallSpeed * settings.fallSpeedScale,
+            kind: kind,
+        });
+    }
+}
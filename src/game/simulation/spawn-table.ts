@@ -0,0 +1,135 @@
+/**
+ * @file Weighted random selection of collectible kinds to spawn.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    CollectibleKind,
+    CollectibleKinds,
+} from "@game/simulation/collectible-kind";
+
+/** Kind of collectible item and how often it is spawned. */
+export interface SpawnTableEntry {
+    /** Kind of item to spawn. */
+    kind: CollectibleKind;
+
+    /**
+     * Relative chance of the kind being picked, compared to the sum of the
+     * weights of all entries in the table.
+     */
+    weight: number;
+}
+
+/**
+ * Picks the kinds of collectible items to spawn at random, with each kind
+ * being picked in proportion to its weight.
+ */
+export class SpawnTable {
+    /** Kinds which can be picked and their weights. */
+    get entries(): readonly Readonly<SpawnTableEntry>[] {
+        return this._entries;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link entries}.
+     */
+    private _entries: SpawnTableEntry[];
+
+    /** Sum of the weights of all entries. */
+    private totalWeight: number;
+
+    /**
+     * Creates a new spawn table.
+     *
+     * @param entries - Kinds which can be picked and their weights.
+     * @throws RangeError if any weight is negative or not finite, or if the
+     * weights sum to zero.
+     */
+    constructor(entries: SpawnTableEntry[]) {
+        entries.forEach((entry) => {
+            if (!(entry.weight >= 0 && isFinite(entry.weight))) {
+                throw new RangeError(
+                    `Invalid weight ${entry.weight} for "${entry.kind.name}"`
+                );
+            }
+        });
+        this.totalWeight = entries.reduce(
+            (total, entry) => total + entry.weight,
+            0
+        );
+        if (this.totalWeight <= 0) {
+            throw new RangeError("Spawn table weights must not sum to zero");
+        }
+        this._entries = entries.map((entry) => ({ ...entry }));
+    }
+
+    /**
+     * Picks a kind at random in proportion to the weights of the entries.
+     *
+     * @param random - Source of pseudo-random numbers from 0 (inclusive) to 1
+     * (exclusive), such as {@link World.random}.
+     * @returns Picked kind.
+     */
+    pick(random: () => number): CollectibleKind {
+        let remaining = random() * this.totalWeight;
+        for (const entry of this._entries) {
+            remaining -= entry.weight;
+            if (remaining < 0) {
+                return entry.kind;
+            }
+        }
+
+        // Guard against rounding errors by picking the last possible kind.
+        return this._entries.filter((entry) => entry.weight > 0).pop().kind;
+    }
+
+    /**
+     * Creates a copy of the table with the weight of each entry multiplied by
+     * a factor depending on its kind, such as to make hazards more common.
+     *
+     * @param scaleOf - Gets the factor by which to multiply the weight of a
+     * kind.
+     * @returns New spawn table.
+     * @throws RangeError if any scaled weight is invalid, or if the scaled
+     * weights sum to zero.
+     */
+    scaled(scaleOf: (kind: CollectibleKind) => number): SpawnTable {
+        return new SpawnTable(
+            this._entries.map((entry) => ({
+                kind: entry.kind,
+                weight: entry.weight * scaleOf(entry.kind),
+            }))
+        );
+    }
+
+    /**
+     * Creates a table of the default kinds, in which basic items are most
+     * common and golden items and power-ups are rare.
+     *
+     * @returns New spawn table.
+     */
+    static createDefault(): SpawnTable {
+        return new SpawnTable([
+            { kind: CollectibleKinds.basic, weight: 80 },
+            { kind: CollectibleKinds.golden, weight: 5 },
+            { kind: CollectibleKinds.rotten, weight: 10 },
+            { kind: CollectibleKinds.extraLife, weight: 2 },
+            { kind: CollectibleKinds.slowMotion, weight: 3 },
+        ]);
+    }
+}
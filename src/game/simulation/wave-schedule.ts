@@ -0,0 +1,135 @@
+/**
+ * @file Timing of the items spawned by the waves of a level.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    CollectibleKind,
+    CollectibleKinds,
+} from "@game/simulation/collectible-kind";
+import {
+    LevelDefinition,
+    positionToFraction,
+    WaveDefinition,
+} from "@game/simulation/level";
+
+/** Item to be spawned at a given time by a wave. */
+export interface ScheduledSpawn {
+    /** Time in milliseconds after the level starts at which to spawn. */
+    time: number;
+
+    /** Position as a fraction of the world's width, from 0 to 1. */
+    x: number;
+
+    /** Kind of item to spawn. */
+    kind: CollectibleKind;
+
+    /** Speed at which the item falls in pixels per millisecond. */
+    speed: number;
+}
+
+/**
+ * Expands the waves of a level into individual items, and hands them out in
+ * order as their spawn times pass.
+ */
+export class WaveSchedule {
+    /** Items which have not been spawned yet, from the latest to earliest. */
+    private pending: ScheduledSpawn[];
+
+    /** Number of items which have not been spawned yet. */
+    get remaining(): number {
+        return this.pending.length;
+    }
+
+    /** Whether every item in every wave has been spawned. */
+    get isFinished(): boolean {
+        return this.pending.length === 0;
+    }
+
+    /**
+     * Creates a new schedule for the start of a level.
+     *
+     * @param level - Level containing the waves to schedule.
+     */
+    constructor(level: LevelDefinition) {
+        this.pending = level.waves
+            .map((wave) => WaveSchedule.expand(level, wave))
+            .reduce((all, spawns) => all.concat(spawns), [])
+            .sort((a, b) => a.time - b.time)
+            .reverse();
+    }
+
+    /**
+     * Removes and returns the items whose spawn times have passed.
+     *
+     * @param elapsed - Game time in milliseconds since the level started.
+     * @returns Items to spawn, from the earliest to latest.
+     */
+    take(elapsed: number): ScheduledSpawn[] {
+        const due: ScheduledSpawn[] = [];
+        while (
+            this.pending.length > 0 &&
+            this.pending[this.pending.length - 1].time <= elapsed
+        ) {
+            due.push(this.pending.pop());
+        }
+        return due;
+    }
+
+    /**
+     * Calculates the position and spawn time of every item in a wave.
+     *
+     * @param level - Level containing the wave.
+     * @param wave - Wave to expand.
+     * @returns Items in the wave, in order of spawning.
+     */
+    static expand(
+        level: LevelDefinition,
+        wave: WaveDefinition
+    ): ScheduledSpawn[] {
+        const from = positionToFraction(level, wave.from);
+        const to = positionToFraction(level, wave.to);
+        const kind = CollectibleKinds[wave.kind];
+        const spawns: ScheduledSpawn[] = [];
+
+        for (let i = 0; i < wave.count; ++i) {
+            // Find how far along from the start to the end position the item
+            // is, from 0 to 1.
+            let t: number;
+            if (wave.pattern === "zigzag") {
+                const step = i % (2 * wave.legLength);
+                t =
+                    (step <= wave.legLength
+                        ? step
+                        : 2 * wave.legLength - step) / wave.legLength;
+            } else {
+                t = wave.count === 1 ? 0 : i / (wave.count - 1);
+            }
+
+            spawns.push({
+                time:
+                    wave.start +
+                    (wave.pattern === "burst" ? 0 : i * wave.interval),
+                x: from + (to - from) * t,
+                kind: kind,
+                speed: wave.speed ?? kind.fallSpeed,
+            });
+        }
+        return spawns;
+    }
+}
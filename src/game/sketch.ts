@@ -20,9 +20,32 @@
 
 import * as p5 from "p5";
 
+import { AssetManager, createP5AssetLoader } from "./assets/asset-manager";
+import { createAudioBackend } from "./audio/audio-backend";
+import { AudioManager } from "./audio/audio-manager";
+import { createGamepadSource, GamepadPoller } from "./input/gamepad";
+import { InputMap } from "./input/input-map";
 import { Game } from "./scenes/game";
+import { GameOver } from "./scenes/game-over";
+import { HighScores } from "./scenes/high-scores";
+import { Loading } from "./scenes/loading";
 import { Menu } from "./scenes/menu";
-import { Scene } from "./utils/scene";
+import { NameEntry } from "./scenes/name-entry";
+import { Pause } from "./scenes/pause";
+import { Settings } from "./scenes/settings";
+import { HighScoreTable } from "./scores/high-score-table";
+import { Preferences } from "./settings/preferences";
+import { DifficultyPresets } from "./simulation/difficulty";
+import {
+    isPayloadlessSceneName,
+    Scene,
+    SceneEnterHandler,
+    SceneName,
+    SceneChangeArgs,
+    ScenePayloads,
+} from "./utils/scene";
+import { createStorage, KeyValueStorage } from "./utils/storage";
+import { Transition } from "./utils/transition";
 
 /**
  * Contains the set of functions to be called by p5 handlers in order to start
@@ -30,32 +53,141 @@ import { Scene } from "./utils/scene";
  * and event handlers.
  */
 export class Sketch {
-    /** Available scenes to make active. */
-    private scenes: Scene[];
+    /** p5 instance to which the sketch is bound. */
+    private p: p5;
 
-    /** Currently active scene to which p5 handlers are bound. */
-    private activeScene: Scene;
+    /** Storage for data which persists between sessions. */
+    readonly storage: KeyValueStorage;
 
-    /** Index of the currently active scene in the scenes array. */
-    private sceneIndex: number;
+    /**
+     * Options chosen by the player, saved to {@link storage}. Scenes listen
+     * for changes to react while they are shown.
+     */
+    readonly preferences: Preferences;
+
+    /**
+     * Maps keys to input actions, which are queried by scenes and passed to
+     * their {@link SceneActionPressedHandler.actionPressed} and
+     * {@link SceneActionReleasedHandler.actionReleased} handlers.
+     */
+    readonly input: InputMap;
+
+    /** Best runs, saved to {@link storage}. */
+    readonly highScores: HighScoreTable;
+
+    /**
+     * Polls connected gamepads once per frame, feeding the actions held on
+     * them into {@link input}.
+     */
+    readonly gamepads: GamepadPoller;
+
+    /**
+     * Loads the assets in the manifest while the loading scene is shown, and
+     * hands them out to scenes by key.
+     */
+    readonly assets: AssetManager;
+
+    /**
+     * Plays sound effects for scenes, and the music declared by the scenes in
+     * the scene stack.
+     */
+    readonly audio: AudioManager;
+
+    /** Available scenes to make active, keyed by their registered names. */
+    private scenes: Map<SceneName, Scene>;
+
+    /** Names of the available scenes in order of registration. */
+    private sceneNames: SceneName[];
+
+    /**
+     * Functions creating the payloads passed to scenes which require one when
+     * they are activated by index, keyed by the names of the scenes.
+     */
+    private indexPayloads: Map<SceneName, () => ScenePayloads[SceneName]>;
+
+    /**
+     * Names of the scenes in the scene stack, from the bottom to the top. The
+     * top scene is the active scene.
+     */
+    private sceneStack: SceneName[];
+
+    /** Name of the currently active scene at the top of the scene stack. */
+    private get activeSceneName(): SceneName {
+        return this.sceneStack[this.sceneStack.length - 1];
+    }
+
+    /** Currently active scene to which p5 input handlers are bound. */
+    private get activeScene(): Scene {
+        return this.scenes.get(this.activeSceneName);
+    }
+
+    /** Transition in progress between two scene stacks, if any. */
+    private transition?: Transition;
+
+    /** Time in milliseconds since the transition in progress started. */
+    private transitionElapsed: number;
+
+    /** Names of the scenes in the scene stack before the transition. */
+    private transitionFrom: SceneName[];
+
+    /** Length of each fixed update step in milliseconds. */
+    readonly timestep = 1000 / 120;
+
+    /**
+     * Largest amount of real time in milliseconds which is accumulated for
+     * updates in a single frame, preventing a long frame such as one following
+     * a switch between browser tabs from causing a burst of updates.
+     */
+    private maxFrameTime = 250;
+
+    /** Real time in milliseconds accumulated but not yet used by updates. */
+    private accumulator = 0;
+
+    /** Whether a transition is in progress, during which input is blocked. */
+    get isTransitioning(): boolean {
+        return this.transition !== undefined;
+    }
 
     /**
-     * Creates the sketch, initializes the different game scenes and binds p5
+     * Creates the sketch, registers the different game scenes and binds p5
      * handlers to methods in the sketch object. Some of these methods call the
-     * currently active scene, which is set to the first element in the internal
-     * scenes array by default.
+     * currently active scene, which is set to the loading scene once the
+     * sketch has been set up.
      *
      * @param p - p5 instance.
      */
     constructor(p: p5) {
-        // Initialize and append all available game scenes to the internal
-        // array.
-        this.scenes = [new Menu(this), new Game(this)];
-
-        // Activate the first scene.
-        this.activateScene(0).catch((reason) => {
-            console.error(reason);
+        this.p = p;
+        this.storage = createStorage();
+        this.preferences = new Preferences({ storage: this.storage });
+        this.input = new InputMap(this.storage);
+        this.highScores = new HighScoreTable({ storage: this.storage });
+        this.gamepads = new GamepadPoller({ source: createGamepadSource() });
+        this.assets = new AssetManager({ loader: createP5AssetLoader(p) });
+        this.audio = new AudioManager({
+            backend: createAudioBackend(this.assets),
         });
+        this.applyVolumes();
+        this.preferences.onChange(() => this.applyVolumes());
+        this.scenes = new Map();
+        this.sceneNames = [];
+        this.indexPayloads = new Map();
+        this.sceneStack = [];
+
+        // Register all available game scenes. The menu and game are registered
+        // first, so that they keep the indices 0 and 1 used with
+        // activateScene before scenes had names. The game is started in
+        // endless mode at the preferred difficulty when activated by index.
+        this.registerScene("menu", new Menu(this));
+        this.registerScene("game", new Game(this), () => ({
+            difficulty: DifficultyPresets[this.preferences.values.difficulty],
+        }));
+        this.registerScene("loading", new Loading(this));
+        this.registerScene("pause", new Pause(this));
+        this.registerScene("gameOver", new GameOver(this));
+        this.registerScene("nameEntry", new NameEntry(this));
+        this.registerScene("highScores", new HighScores(this));
+        this.registerScene("settings", new Settings(this));
 
         // Bind in-class handlers to the p5 instance.
         p.preload = () => this.preload(p);
@@ -63,53 +195,256 @@ export class Sketch {
         p.draw = () => this.draw(p);
         p.keyPressed = (event?) => this.keyPressed(p, event);
         p.keyReleased = (event?) => this.keyReleased(p, event);
+        p.mousePressed = (event?) => this.mousePressed(p, event);
+        p.mouseMoved = (event?) => this.mouseMoved(p, event);
+        p.mouseDragged = (event?) => this.mouseMoved(p, event);
+        p.mouseReleased = (event?) => this.mouseReleased(p, event);
+        p.mouseWheel = (event?) => this.mouseWheel(p, event);
+        p.touchStarted = (event?) => this.touchStarted(p, event);
+        p.touchMoved = (event?) => this.touchMoved(p, event);
+        p.touchEnded = (event?) => this.touchEnded(p, event);
         p.windowResized = () => this.windowResized(p);
+
+        // Key releases are not received while the window is not focused.
+        window.addEventListener("blur", () => this.input.releaseAll());
     }
 
     /**
-     * Sets the scene with the given index to active. After activation, the
-     * available handlers in the scene will be called by the class-bound p5
-     * handlers.
+     * Adds a scene to the sketch under the given name. Scenes are indexed in
+     * order of registration for use with {@link activateScene} and
+     * {@link advanceScene}: 0 is the menu, 1 is the game, then the loading,
+     * pause, game over, name entry, high scores and settings scenes.
      *
-     * @param index - Index of the scene to activate in the internal scenes
-     * array, set in the constructor.
-     * @returns Empty promise, which is rejected if the target index is out of
-     * range, and is otherwise resolved.
+     * @param name - Name with which the scene is activated.
+     * @param scene - Scene to register. If it implements
+     * {@link SceneEnterHandler}, the handler must accept the payload type
+     * associated with the name.
+     * @param indexPayload - Creates the payload passed to the scene when it
+     * is activated by index, for scenes which require a payload. Scenes which
+     * require a payload but have none cannot be activated by index.
      */
-    activateScene(index: number): Promise<void> {
+    registerScene<N extends SceneName>(
+        name: N,
+        scene: Scene & Partial<SceneEnterHandler<N>>,
+        indexPayload?: () => ScenePayloads[N]
+    ): void {
+        if (!this.scenes.has(name)) {
+            this.sceneNames.push(name);
+        }
+        this.scenes.set(name, scene);
+        if (indexPayload === undefined) {
+            this.indexPayloads.delete(name);
+        } else {
+            this.indexPayloads.set(name, indexPayload);
+        }
+    }
+
+    /**
+     * Replaces the whole scene stack with the scene registered under the given
+     * name and passes it the given payload. After activation, the available
+     * handlers in the scene will be called by the class-bound p5 handlers.
+     *
+     * @param name - Name of the scene to activate.
+     * @param args - Payload to pass to the scene's
+     * {@link SceneEnterHandler.enter} handler, if implemented, followed by
+     * the transition to use, if any.
+     * @returns Empty promise, which is rejected if no scene is registered
+     * under the given name, and is otherwise resolved.
+     */
+    goTo<N extends SceneName>(
+        name: N,
+        ...args: SceneChangeArgs<N>
+    ): Promise<void> {
         return new Promise<void>((resolve, reject) => {
-            // Check range.
-            if (
-                this.scenes.length === 0 ||
-                index < 0 ||
-                index >= this.scenes.length
-            ) {
-                reject("Scene index out of range");
+            if (!this.scenes.has(name)) {
+                reject(`Scene "${name}" is not registered`);
+                return;
             }
 
-            // Set index and store active scene.
-            this.sceneIndex = index;
-            this.activeScene = this.scenes[index];
+            this.startTransition(args[1]);
+            this.sceneStack = [name];
+            this.enterScene(name, ...args);
+            this.updateMusic();
             resolve();
         });
     }
 
     /**
-     * Activates the next scene in the internal scenes array.
+     * Pushes the scene registered under the given name onto the top of the
+     * scene stack, making it the active scene, and passes it the given
+     * payload. The scenes below it continue to be drawn or updated depending
+     * on its {@link Scene.drawsBelow} and {@link Scene.updatesBelow}
+     * properties.
+     *
+     * @param name - Name of the scene to push.
+     * @param args - Payload to pass to the scene's
+     * {@link SceneEnterHandler.enter} handler, if implemented, followed by
+     * the transition to use, if any.
+     * @returns Empty promise, which is rejected if no scene is registered
+     * under the given name or the scene is already in the stack, and is
+     * otherwise resolved.
+     */
+    push<N extends SceneName>(
+        name: N,
+        ...args: SceneChangeArgs<N>
+    ): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (!this.scenes.has(name)) {
+                reject(`Scene "${name}" is not registered`);
+                return;
+            }
+            if (this.sceneStack.indexOf(name) !== -1) {
+                reject(`Scene "${name}" is already in the scene stack`);
+                return;
+            }
+
+            this.startTransition(args[1]);
+            this.sceneStack.push(name);
+            this.enterScene(name, ...args);
+            this.updateMusic();
+            resolve();
+        });
+    }
+
+    /**
+     * Removes the active scene from the top of the scene stack, making the
+     * scene below it active again and calling its
+     * {@link SceneResumeHandler.resume} handler, if implemented.
+     *
+     * @param transition - Transition to use, if any.
+     * @returns Empty promise, which is rejected if the active scene is the
+     * only scene in the stack, and is otherwise resolved.
+     */
+    pop(transition?: Transition): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (this.sceneStack.length <= 1) {
+                reject("Cannot pop the last scene in the scene stack");
+                return;
+            }
+
+            this.startTransition(transition);
+            this.sceneStack.pop();
+            if (Scene.hasResumeHandler(this.activeScene)) {
+                this.activeScene.resume(this.p);
+            }
+            this.updateMusic();
+            resolve();
+        });
+    }
+
+    /**
+     * Starts a transition from the current scene stack, replacing any
+     * transition already in progress. Should be called before the scene stack
+     * is changed. Scenes change instantly when reduced motion is preferred.
+     *
+     * @param transition - Transition to start, or `undefined` to change scenes
+     * instantly.
+     */
+    private startTransition(transition?: Transition): void {
+        this.transition = this.preferences.values.reducedMotion
+            ? undefined
+            : transition;
+        this.transitionElapsed = 0;
+        this.transitionFrom = this.sceneStack.slice();
+    }
+
+    /**
+     * Crossfades to the music of the highest scene in the scene stack which
+     * declares music, looking no lower than the highest scene which does not
+     * draw the scenes below it. Should be called after the scene stack is
+     * changed.
+     */
+    private updateMusic(): void {
+        for (let i = this.sceneStack.length - 1; i >= 0; --i) {
+            const scene = this.scenes.get(this.sceneStack[i]);
+            if (scene.music !== undefined || !scene.drawsBelow) {
+                this.audio.playMusic(scene.music);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Sets the volumes of the audio manager and whether it is muted from the
+     * preferences.
+     */
+    private applyVolumes(): void {
+        const values = this.preferences.values;
+        this.audio.isMuted = values.muted;
+        this.audio.masterVolume = values.masterVolume;
+        this.audio.musicVolume = values.musicVolume;
+        this.audio.sfxVolume = values.sfxVolume;
+    }
+
+    /**
+     * Passes a payload to the enter handler of a scene, if implemented.
+     *
+     * @param name - Name of the scene being activated.
+     * @param args - Payload to pass to the scene, followed by the transition
+     * used to change to the scene.
+     */
+    private enterScene<N extends SceneName>(
+        name: N,
+        ...args: SceneChangeArgs<N>
+    ): void {
+        const scene = this.scenes.get(name);
+        if (Scene.hasEnterHandler(scene)) {
+            scene.enter(this.p, args[0]);
+        }
+    }
+
+    /**
+     * Sets the scene with the given index to active. After activation, the
+     * available handlers in the scene will be called by the class-bound p5
+     * handlers. Scenes which require a payload are passed the payload given
+     * when they were registered, and cannot be activated by index without
+     * one; such scenes must be activated with {@link goTo} instead.
+     *
+     * @param index - Index of the scene to activate, in order of registration
+     * as listed by {@link registerScene}.
+     * @returns Empty promise, which is rejected if the target index is out of
+     * range or the scene requires a payload which cannot be created, and is
+     * otherwise resolved.
+     */
+    activateScene(index: number): Promise<void> {
+        // Check range.
+        if (index < 0 || index >= this.sceneNames.length) {
+            return Promise.reject("Scene index out of range");
+        }
+
+        const name = this.sceneNames[index];
+        if (isPayloadlessSceneName(name)) {
+            return this.goTo(name);
+        }
+        const indexPayload = this.indexPayloads.get(name);
+        if (indexPayload === undefined) {
+            return Promise.reject(
+                `Scene "${name}" at index ${index} requires a payload, ` +
+                    "so it must be activated with goTo"
+            );
+        }
+        return this.goTo(name, indexPayload());
+    }
+
+    /**
+     * Activates the next scene in order of registration, as described by
+     * {@link activateScene}.
      *
      * @returns Empty promise, which is rejected if the index of the next scene
-     * is out of range, and is otherwise resolved.
+     * is out of range or the next scene requires a payload which cannot be
+     * created, and is otherwise resolved.
      */
     advanceScene(): Promise<void> {
-        // Activate the scene after the current value of the internal scene
-        // index.
-        return this.activateScene(this.sceneIndex + 1);
+        // Activate the scene registered after the currently active scene.
+        return this.activateScene(
+            this.sceneNames.indexOf(this.activeSceneName) + 1
+        );
     }
 
     /**
      * Called directly before {@link setup} to handle asynchronous loading of
      * external files in a blocking way. Calls the {@link preload} method of
-     * each scene in the internal array of available scenes.
+     * each available scene.
      *
      * See {@link p5.preload} for more information.
      *
@@ -128,8 +463,8 @@ export class Sketch {
      * properties such as screen size and background color and to load media
      * such as images and fonts.
      *
-     * Creates the 2D canvas and calls the {@link Scene.setup} method of each
-     * scene in the internal array of available scenes.
+     * Creates the 2D canvas, calls the {@link Scene.setup} method of each
+     * available scene and activates the loading scene.
      *
      * See {@link p5.setup} for more information.
      *
@@ -142,6 +477,11 @@ export class Sketch {
                 scene.setup(p);
             }
         });
+
+        // Load the assets before showing the menu.
+        this.goTo("loading").catch((reason) => {
+            console.error(reason);
+        });
     }
 
     /**
@@ -149,14 +489,176 @@ export class Sketch {
      * of code contained inside its block until the program is stopped or
      * {@link p5.noLoop} is called.
      *
-     * Calls the {@link Scene.draw} method of the active scene.
+     * Accumulates the real time since the last frame and calls the
+     * {@link SceneUpdateHandler.update} method of the active scene and of each
+     * scene below it which is allowed to update once for each whole
+     * {@link timestep} accumulated, so that game logic runs at the same rate
+     * regardless of the display's refresh rate. Then calls the
+     * {@link Scene.draw} method of the active scene and of each scene below it
+     * which is allowed to draw, from the bottom of the scene stack to the top,
+     * passing the fraction of a step left over for interpolation.
+     *
+     * While a transition is in progress, the scenes being transitioned from
+     * are drawn without being updated, and both sets of scenes are drawn by
+     * the transition. The frame rate is drawn on top if the player has chosen
+     * to show it.
      *
      * See {@link p5.draw} for more information.
      *
      * @param p - p5 instance.
      */
     private draw(p: p5): void {
-        this.activeScene.draw(p);
+        this.pollGamepads(p);
+        this.audio.update(p.deltaTime);
+
+        // Run fixed updates for the accumulated time, limiting the time
+        // accumulated from long frames to avoid falling further behind.
+        this.accumulator += Math.min(p.deltaTime, this.maxFrameTime);
+        while (this.accumulator >= this.timestep) {
+            this.updateStack(p, this.sceneStack);
+            this.accumulator -= this.timestep;
+        }
+        const alpha = this.accumulator / this.timestep;
+
+        if (this.transition === undefined) {
+            this.drawStack(p, this.sceneStack, alpha);
+        } else {
+            this.drawTransition(p, alpha);
+        }
+        if (this.preferences.values.showFps) {
+            this.drawFps(p);
+        }
+    }
+
+    /**
+     * Advances the transition in progress and draws it between the scene
+     * stacks before and after it, ending the transition once it is complete.
+     *
+     * @param p - p5 instance.
+     * @param alpha - Fraction of a fixed step since the last update, from 0 to
+     * 1.
+     */
+    private drawTransition(p: p5, alpha: number): void {
+        this.transitionElapsed += p.deltaTime;
+        const progress = this.transition.progressAt(this.transitionElapsed);
+        this.transition.draw(
+            p,
+            this.transition.easing(progress),
+            () => this.drawStack(p, this.transitionFrom, alpha),
+            () => this.drawStack(p, this.sceneStack, alpha)
+        );
+        if (progress >= 1) {
+            this.transition = undefined;
+        }
+    }
+
+    /**
+     * Draws the number of frames drawn per second in the bottom left corner of
+     * the canvas.
+     *
+     * @param p - p5 instance.
+     */
+    private drawFps(p: p5): void {
+        p.push();
+        p.noStroke();
+        p.fill(255);
+        p.textAlign("left", "bottom");
+        p.textSize(16);
+        p.textStyle("normal");
+        p.text(`${Math.round(p.frameRate())} FPS`, 8, p.height - 8);
+        p.pop();
+    }
+
+    /**
+     * Updates the scenes in a scene stack which are allowed to update by a
+     * single fixed step.
+     *
+     * @param p - p5 instance.
+     * @param names - Names of the scenes in the stack, from the bottom to the
+     * top.
+     */
+    private updateStack(p: p5, names: SceneName[]): void {
+        const stack = names.map((name) => this.scenes.get(name));
+
+        // Find the lowest scene which is updated, given that each scene
+        // controls the scenes directly below it.
+        let firstUpdated = stack.length - 1;
+        while (firstUpdated > 0 && stack[firstUpdated].updatesBelow) {
+            --firstUpdated;
+        }
+
+        stack.slice(firstUpdated).forEach((scene) => {
+            if (Scene.hasUpdateHandler(scene)) {
+                scene.update(p, this.timestep);
+            }
+        });
+    }
+
+    /**
+     * Draws the visible scenes in a scene stack.
+     *
+     * @param p - p5 instance.
+     * @param names - Names of the scenes in the stack, from the bottom to the
+     * top.
+     * @param alpha - Fraction of a fixed step since the last update, from 0 to
+     * 1.
+     */
+    private drawStack(p: p5, names: SceneName[], alpha: number): void {
+        const stack = names.map((name) => this.scenes.get(name));
+
+        // Find the lowest scene which is drawn, given that each scene controls
+        // the scenes directly below it.
+        let firstDrawn = stack.length - 1;
+        while (firstDrawn > 0 && stack[firstDrawn].drawsBelow) {
+            --firstDrawn;
+        }
+
+        stack.slice(firstDrawn).forEach((scene) => {
+            scene.draw(p, alpha);
+        });
+    }
+
+    /**
+     * Polls connected gamepads, records the actions pressed and released on
+     * them in the input map, then calls the
+     * {@link Scene.gamepadDisconnected} method of the active scene for each
+     * disconnected gamepad and its {@link Scene.actionPressed} and
+     * {@link Scene.actionReleased} methods for each action, unless a
+     * transition is in progress.
+     *
+     * @param p - p5 instance.
+     */
+    private pollGamepads(p: p5): void {
+        const { pressed, released, disconnected } = this.gamepads.poll();
+        const newlyPressed = pressed.filter((action) =>
+            this.input.pressAction(action)
+        );
+        const newlyReleased = released.filter((action) =>
+            this.input.releaseAction(action)
+        );
+        if (this.isTransitioning) {
+            return;
+        }
+
+        const scene = this.activeScene;
+        if (Scene.hasGamepadDisconnectedHandler(scene)) {
+            disconnected.forEach((index) =>
+                scene.gamepadDisconnected(p, index)
+            );
+        }
+
+        // The active scene may have changed in the disconnected handler.
+        const activeScene = this.activeScene;
+        if (Scene.hasActionReleasedHandler(activeScene)) {
+            newlyReleased.forEach((action) =>
+                activeScene.actionReleased(p, action)
+            );
+        }
+        if (Scene.hasActionPressedHandler(activeScene)) {
+            newlyPressed.forEach((action) =>
+                activeScene.actionPressed(p, action)
+            );
+        }
     }
 
     /**
@@ -164,7 +666,11 @@ export class Sketch {
      * was pressed is stored in the {@link p5.key} variable. For non-ASCII keys,
      * the {@link p5.keyCode} variable is used.
      *
-     * Calls the {@link Scene.keyPressed} method of the active scene.
+     * Records the key in the input map, then calls the
+     * {@link Scene.keyPressed} method of the active scene and its
+     * {@link Scene.actionPressed} method for each action triggered by the
+     * key, unless a transition is in progress. The mute action is handled for
+     * every scene, unless the active scene captures keys.
      *
      * See {@link p5.keyPressed} for more information.
      *
@@ -172,15 +678,29 @@ export class Sketch {
      * @param event - KeyboardEvent callback argument.
      */
     private keyPressed(p: p5, event?: object): void {
-        if (Scene.hasKeyPressedHandler(this.activeScene)) {
-            this.activeScene.keyPressed(p, event);
+        const actions = this.input.press(p.key);
+        if (this.isTransitioning) {
+            return;
+        }
+        const scene = this.activeScene;
+        if (actions.includes("mute") && !scene.capturesKeys) {
+            this.preferences.set("muted", !this.preferences.values.muted);
+        }
+        if (Scene.hasKeyPressedHandler(scene)) {
+            scene.keyPressed(p, event);
+        }
+        if (Scene.hasActionPressedHandler(scene)) {
+            actions.forEach((action) => scene.actionPressed(p, action));
         }
     }
 
     /**
      * Called once every time a key is released.
      *
-     * Calls the {@link Scene.keyReleased} method of the active scene.
+     * Records the key release in the input map, then calls the
+     * {@link Scene.keyReleased} method of the active scene and its
+     * {@link Scene.actionReleased} method for each action released by the
+     * key, unless a transition is in progress.
      *
      * See {@link p5.key}, {@link p5.keyCode}, and {@link p5.keyReleased} for
      * more information.
@@ -189,9 +709,177 @@ export class Sketch {
      * @param event - KeyboardEvent callback argument.
      */
     private keyReleased(p: p5, event?: object): void {
-        if (Scene.hasKeyReleasedHandler(this.activeScene)) {
-            this.activeScene.keyReleased(p, event);
+        const actions = this.input.release(p.key);
+        if (this.isTransitioning) {
+            return;
+        }
+        const scene = this.activeScene;
+        if (Scene.hasKeyReleasedHandler(scene)) {
+            scene.keyReleased(p, event);
+        }
+        if (Scene.hasActionReleasedHandler(scene)) {
+            actions.forEach((action) => scene.actionReleased(p, action));
+        }
+    }
+
+    /**
+     * Called once every time a mouse button is pressed. The pointer position
+     * is stored in the {@link p5.mouseX} and {@link p5.mouseY} variables.
+     *
+     * Calls the {@link Scene.mousePressed} method of the active scene, unless
+     * a transition is in progress.
+     *
+     * See {@link p5.mousePressed} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - MouseEvent callback argument.
+     */
+    private mousePressed(p: p5, event?: object): void {
+        if (this.isTransitioning) {
+            return;
+        }
+        if (Scene.hasMousePressedHandler(this.activeScene)) {
+            this.activeScene.mousePressed(p, event);
+        }
+    }
+
+    /**
+     * Called every time the mouse moves, whether or not a button is pressed.
+     *
+     * Calls the {@link Scene.mouseMoved} method of the active scene, unless a
+     * transition is in progress.
+     *
+     * See {@link p5.mouseMoved} and {@link p5.mouseDragged} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - MouseEvent callback argument.
+     */
+    private mouseMoved(p: p5, event?: object): void {
+        if (this.isTransitioning) {
+            return;
+        }
+        if (Scene.hasMouseMovedHandler(this.activeScene)) {
+            this.activeScene.mouseMoved(p, event);
+        }
+    }
+
+    /**
+     * Called once every time a mouse button is released.
+     *
+     * Calls the {@link Scene.mouseReleased} method of the active scene, unless
+     * a transition is in progress.
+     *
+     * See {@link p5.mouseReleased} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - MouseEvent callback argument.
+     */
+    private mouseReleased(p: p5, event?: object): void {
+        if (this.isTransitioning) {
+            return;
+        }
+        if (Scene.hasMouseReleasedHandler(this.activeScene)) {
+            this.activeScene.mouseReleased(p, event);
+        }
+    }
+
+    /**
+     * Called every time a vertical mouse wheel or touchpad scroll is detected.
+     *
+     * Calls the {@link Scene.mouseWheel} method of the active scene, unless a
+     * transition is in progress.
+     *
+     * See {@link p5.mouseWheel} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - WheelEvent callback argument.
+     */
+    private mouseWheel(p: p5, event?: object): void {
+        if (this.isTransitioning) {
+            return;
+        }
+        if (Scene.hasMouseWheelHandler(this.activeScene)) {
+            this.activeScene.mouseWheel(p, event);
+        }
+    }
+
+    /**
+     * Called once every time a touch is registered.
+     *
+     * Calls the {@link Scene.touchStarted} method of the active scene, or its
+     * {@link Scene.mousePressed} method if it does not handle touches, unless
+     * a transition is in progress.
+     *
+     * See {@link p5.touchStarted} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - TouchEvent callback argument.
+     * @returns `false` to prevent the browser from also emitting mouse events
+     * and scrolling for the touch.
+     */
+    private touchStarted(p: p5, event?: object): boolean {
+        if (this.isTransitioning) {
+            return false;
+        }
+        if (Scene.hasTouchStartedHandler(this.activeScene)) {
+            this.activeScene.touchStarted(p, event);
+        } else if (Scene.hasMousePressedHandler(this.activeScene)) {
+            this.activeScene.mousePressed(p, event);
+        }
+        return false;
+    }
+
+    /**
+     * Called every time a touch move is registered.
+     *
+     * Calls the {@link Scene.touchMoved} method of the active scene, or its
+     * {@link Scene.mouseMoved} method if it does not handle touches, unless a
+     * transition is in progress.
+     *
+     * See {@link p5.touchMoved} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - TouchEvent callback argument.
+     * @returns `false` to prevent the browser from also emitting mouse events
+     * and scrolling for the touch.
+     */
+    private touchMoved(p: p5, event?: object): boolean {
+        if (this.isTransitioning) {
+            return false;
+        }
+        if (Scene.hasTouchMovedHandler(this.activeScene)) {
+            this.activeScene.touchMoved(p, event);
+        } else if (Scene.hasMouseMovedHandler(this.activeScene)) {
+            this.activeScene.mouseMoved(p, event);
+        }
+        return false;
+    }
+
+    /**
+     * Called once every time a touch ends.
+     *
+     * Calls the {@link Scene.touchEnded} method of the active scene, or its
+     * {@link Scene.mouseReleased} method if it does not handle touches, unless
+     * a transition is in progress.
+     *
+     * See {@link p5.touchEnded} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - TouchEvent callback argument.
+     * @returns `false` to prevent the browser from also emitting mouse events
+     * for the touch.
+     */
+    private touchEnded(p: p5, event?: object): boolean {
+        if (this.isTransitioning) {
+            return false;
+        }
+        if (Scene.hasTouchEndedHandler(this.activeScene)) {
+            this.activeScene.touchEnded(p, event);
+        } else if (Scene.hasMouseReleasedHandler(this.activeScene)) {
+            this.activeScene.mouseReleased(p, event);
         }
+        return false;
     }
 
     /**
@@ -0,0 +1,123 @@
+/**
+ * @file Game clock class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Measures the passing of game time, which can be paused, scaled and limited
+ * independently of the real time between frames. Owned by a scene and passed
+ * to the entities it updates.
+ */
+export class GameClock {
+    /**
+     * Multiplier applied to real elapsed time, used for slow-motion (less than
+     * 1) or fast-forward (greater than 1) effects.
+     */
+    timeScale: number;
+
+    /**
+     * Largest amount of real time in milliseconds which may pass in a single
+     * tick, preventing large jumps after long frames such as those following a
+     * switch between browser tabs.
+     */
+    maxStep: number;
+
+    /** Game time in milliseconds which passed during the last tick. */
+    get deltaTime(): number {
+        return this._deltaTime;
+    }
+
+    /** Total game time in milliseconds since the clock was last reset. */
+    get elapsed(): number {
+        return this._elapsed;
+    }
+
+    /** Whether the clock is paused, during which no game time passes. */
+    get isPaused(): boolean {
+        return this._isPaused;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link deltaTime}.
+     */
+    private _deltaTime = 0;
+
+    /**
+     * Private mutable to store the readonly property {@link elapsed}.
+     */
+    private _elapsed = 0;
+
+    /**
+     * Private mutable to store the readonly property {@link isPaused}.
+     */
+    private _isPaused = false;
+
+    /**
+     * Creates a new running clock.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.timeScale - Multiplier applied to real elapsed time.
+     * @param props.maxStep - Largest amount of real time in milliseconds
+     * which may pass in a single tick.
+     */
+    constructor({
+        timeScale = 1,
+        maxStep = 100,
+    }: { timeScale?: number; maxStep?: number } = {}) {
+        this.timeScale = timeScale;
+        this.maxStep = maxStep;
+    }
+
+    /**
+     * Advances the clock. Should be called once per frame before any game
+     * time is read.
+     *
+     * @param realDeltaTime - Real time in milliseconds since the last tick,
+     * such as {@link p5.deltaTime}.
+     */
+    tick(realDeltaTime: number): void {
+        if (this._isPaused) {
+            this._deltaTime = 0;
+            return;
+        }
+        this._deltaTime =
+            Math.min(Math.max(realDeltaTime, 0), this.maxStep) * this.timeScale;
+        this._elapsed += this._deltaTime;
+    }
+
+    /** Stops game time from passing until {@link resume} is called. */
+    pause(): void {
+        this._isPaused = true;
+        this._deltaTime = 0;
+    }
+
+    /** Allows game time to pass after a call to {@link pause}. */
+    resume(): void {
+        this._isPaused = false;
+    }
+
+    /**
+     * Resets the elapsed time and resumes the clock. The time scale and
+     * maximum step are kept.
+     */
+    reset(): void {
+        this._deltaTime = 0;
+        this._elapsed = 0;
+        this._isPaused = false;
+    }
+}
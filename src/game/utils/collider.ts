@@ -0,0 +1,461 @@
+/**
+ * @file Collision shapes and shape-vs-shape collision tests.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Rect, V2d } from "./vector";
+
+/** Circle centered on the collider's origin. */
+export interface CircleShape {
+    readonly type: "circle";
+
+    /** Radius in pixels. */
+    readonly radius: number;
+}
+
+/** Axis-aligned box centered on the collider's origin. */
+export interface BoxShape {
+    readonly type: "box";
+
+    /** Half of the width (x) and height (y) of the box in pixels. */
+    readonly halfSize: V2d;
+}
+
+/**
+ * Line segment with rounded ends, swept by a circle moving between two points
+ * relative to the collider's origin.
+ */
+export interface CapsuleShape {
+    readonly type: "capsule";
+
+    /** Center of the circle at one end, relative to the origin. */
+    readonly start: V2d;
+
+    /** Center of the circle at the other end, relative to the origin. */
+    readonly end: V2d;
+
+    /** Radius of the rounded ends in pixels. */
+    readonly radius: number;
+}
+
+/** Convex polygon with vertices relative to the collider's origin. */
+export interface PolygonShape {
+    readonly type: "polygon";
+
+    /**
+     * At least three vertices in order around the polygon, in either
+     * direction. The polygon must be convex.
+     */
+    readonly vertices: readonly V2d[];
+}
+
+/** Shape of a {@link Collider}. */
+export type ColliderShape =
+    | CircleShape
+    | BoxShape
+    | CapsuleShape
+    | PolygonShape;
+
+/** Details of an overlap between two colliders. */
+export interface CollisionResult {
+    /**
+     * Distance in pixels along {@link normal} by which the colliders overlap.
+     * Colliders which are only touching have a depth of zero.
+     */
+    depth: number;
+
+    /**
+     * Unit vector pointing from the first collider towards the second. Moving
+     * the second collider by the normal multiplied by the depth separates the
+     * colliders.
+     */
+    normal: V2d;
+}
+
+/**
+ * Shape used to detect collisions between entities, independently of the size
+ * of the sprite with which they are drawn. The shape is placed relative to the
+ * entity's position by an offset.
+ *
+ * Every shape is tested as a convex core of one or more points, grown by a
+ * radius: a circle is a single point, a capsule is a line segment, and boxes
+ * and polygons have no radius. Cores which overlap are separated along the
+ * axis of least overlap, and cores which do not are compared by the distance
+ * between their closest points.
+ */
+export class Collider {
+    /** Shape relative to the collider's origin. */
+    readonly shape: ColliderShape;
+
+    /** Offset of the collider's origin from the entity's position. */
+    offset: V2d;
+
+    /**
+     * Creates a new collider.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.shape - Shape relative to the collider's origin.
+     * @param props.offset - Offset of the collider's origin from the entity's
+     * position.
+     * @throws {@link RangeError} if the shape has a negative size, or if a
+     * polygon has fewer than three vertices.
+     */
+    constructor({
+        shape,
+        offset = { x: 0, y: 0 },
+    }: {
+        shape: ColliderShape;
+        offset?: V2d;
+    }) {
+        if (
+            (shape.type === "circle" || shape.type === "capsule") &&
+            shape.radius < 0
+        ) {
+            throw new RangeError(`Invalid ${shape.type} radius`);
+        }
+        if (
+            shape.type === "box" &&
+            (shape.halfSize.x < 0 || shape.halfSize.y < 0)
+        ) {
+            throw new RangeError("Invalid box size");
+        }
+        if (shape.type === "polygon" && shape.vertices.length < 3) {
+            throw new RangeError("Polygon has fewer than three vertices");
+        }
+        this.shape = shape;
+        this.offset = offset;
+    }
+
+    /**
+     * Tests this collider against another collider.
+     *
+     * @param position - Position of the entity with this collider.
+     * @param other - Collider to test against.
+     * @param otherPosition - Position of the entity with the other collider.
+     * @returns Details of the overlap if the colliders overlap or touch,
+     * otherwise `undefined`.
+     */
+    collide(
+        position: V2d,
+        other: Collider,
+        otherPosition: V2d
+    ): CollisionResult | undefined {
+        if (this.shape.type === "circle" && other.shape.type === "circle") {
+            return collideCircles(
+                add(position, this.offset),
+                this.shape.radius,
+                add(otherPosition, other.offset),
+                other.shape.radius
+            );
+        }
+
+        const a = this.core(position);
+        const b = other.core(otherPosition);
+        const radius = a.radius + b.radius;
+
+        const overlap = overlapCores(a.points, b.points);
+        if (overlap !== undefined) {
+            return { depth: overlap.depth + radius, normal: overlap.normal };
+        }
+
+        const closest = closestPoints(a.points, b.points);
+        if (closest.distance > radius) {
+            return undefined;
+        }
+        return {
+            depth: radius - closest.distance,
+            normal: scale(
+                subtract(closest.to, closest.from),
+                1 / closest.distance
+            ),
+        };
+    }
+
+    /**
+     * Gets the smallest axis-aligned rectangle containing the collider.
+     *
+     * @param position - Position of the entity with this collider.
+     * @returns Bounding rectangle on the canvas.
+     */
+    bounds(position: V2d): Rect {
+        const x = position.x + this.offset.x;
+        const y = position.y + this.offset.y;
+        if (this.shape.type === "circle") {
+            const radius = this.shape.radius;
+            return {
+                min: { x: x - radius, y: y - radius },
+                max: { x: x + radius, y: y + radius },
+            };
+        }
+        if (this.shape.type === "box") {
+            const { x: halfWidth, y: halfHeight } = this.shape.halfSize;
+            return {
+                min: { x: x - halfWidth, y: y - halfHeight },
+                max: { x: x + halfWidth, y: y + halfHeight },
+            };
+        }
+
+        const { points, radius } = this.core(position);
+        const xs = points.map((point) => point.x);
+        const ys = points.map((point) => point.y);
+        return {
+            min: { x: Math.min(...xs) - radius, y: Math.min(...ys) - radius },
+            max: { x: Math.max(...xs) + radius, y: Math.max(...ys) + radius },
+        };
+    }
+
+    /**
+     * Gets the convex core and radius of the shape on the canvas.
+     *
+     * @param position - Position of the entity with this collider.
+     * @returns Points of the core on the canvas, and the radius by which the
+     * core is grown.
+     */
+    private core(position: V2d): { points: V2d[]; radius: number } {
+        const origin = add(position, this.offset);
+        const shape = this.shape;
+        switch (shape.type) {
+            case "circle":
+                return { points: [origin], radius: shape.radius };
+            case "box": {
+                const { x, y } = shape.halfSize;
+                return {
+                    points: [
+                        { x: origin.x - x, y: origin.y - y },
+                        { x: origin.x + x, y: origin.y - y },
+                        { x: origin.x + x, y: origin.y + y },
+                        { x: origin.x - x, y: origin.y + y },
+                    ],
+                    radius: 0,
+                };
+            }
+            case "capsule":
+                return {
+                    points: [add(origin, shape.start), add(origin, shape.end)],
+                    radius: shape.radius,
+                };
+            case "polygon":
+                return {
+                    points: shape.vertices.map((vertex) => add(origin, vertex)),
+                    radius: 0,
+                };
+        }
+    }
+}
+
+/**
+ * Tests two circles against each other, which is quicker than the general
+ * test used for other shapes.
+ *
+ * @param a - Center of the first circle.
+ * @param radiusA - Radius of the first circle.
+ * @param b - Center of the second circle.
+ * @param radiusB - Radius of the second circle.
+ * @returns Details of the overlap if the circles overlap or touch, otherwise
+ * `undefined`.
+ */
+function collideCircles(
+    a: V2d,
+    radiusA: number,
+    b: V2d,
+    radiusB: number
+): CollisionResult | undefined {
+    const between = subtract(b, a);
+    const radius = radiusA + radiusB;
+    const distanceSquared = dot(between, between);
+    if (distanceSquared > radius * radius) {
+        return undefined;
+    }
+    const distance = Math.sqrt(distanceSquared);
+    return {
+        depth: radius - distance,
+        normal: distance > 0 ? scale(between, 1 / distance) : { x: 0, y: 1 },
+    };
+}
+
+/**
+ * Finds the overlap between two convex cores using the separating axis test.
+ *
+ * @param a - Points of the first core.
+ * @param b - Points of the second core.
+ * @returns Depth and normal of the overlap along the axis of least overlap,
+ * or `undefined` if there is an axis separating the cores.
+ */
+function overlapCores(a: V2d[], b: V2d[]): CollisionResult | undefined {
+    const between = subtract(centroid(b), centroid(a));
+    const axes = axesOf(a).concat(axesOf(b));
+    if (length(between) > 0) {
+        axes.push(normalize(between));
+    }
+
+    // Cores which are single points at the same position have no axes, and
+    // are separated straight down.
+    let best: CollisionResult = { depth: 0, normal: { x: 0, y: 1 } };
+    let bestDepth = Infinity;
+    for (const axis of axes) {
+        const rangeA = project(a, axis);
+        const rangeB = project(b, axis);
+        const depth =
+            Math.min(rangeA.max, rangeB.max) - Math.max(rangeA.min, rangeB.min);
+        if (depth < 0) {
+            return undefined;
+        }
+        if (depth < bestDepth) {
+            bestDepth = depth;
+            best = {
+                depth: depth,
+                normal: dot(axis, between) < 0 ? scale(axis, -1) : axis,
+            };
+        }
+    }
+    return best;
+}
+
+/**
+ * Gets the unit axes to test for a convex core: the normals of each edge, and
+ * also the direction of a line segment.
+ *
+ * @param points - Points of the core.
+ * @returns Unit axes.
+ */
+function axesOf(points: V2d[]): V2d[] {
+    return edgesOf(points)
+        .flatMap(([start, end]) => {
+            const edge = subtract(end, start);
+            const normal = { x: -edge.y, y: edge.x };
+            return points.length === 2 ? [normal, edge] : [normal];
+        })
+        .filter((axis) => length(axis) > 0)
+        .map(normalize);
+}
+
+/**
+ * Finds the closest points between two convex cores which do not overlap.
+ *
+ * @param a - Points of the first core.
+ * @param b - Points of the second core.
+ * @returns Closest point on each core and the distance between them.
+ */
+function closestPoints(
+    a: V2d[],
+    b: V2d[]
+): { from: V2d; to: V2d; distance: number } {
+    let best = { from: a[0], to: b[0], distance: Infinity };
+    const consider = (from: V2d, to: V2d) => {
+        const distance = length(subtract(to, from));
+        if (distance < best.distance) {
+            best = { from: from, to: to, distance: distance };
+        }
+    };
+    for (const [startA, endA] of edgesOf(a)) {
+        for (const [startB, endB] of edgesOf(b)) {
+            consider(startA, closestOnSegment(startA, startB, endB));
+            consider(endA, closestOnSegment(endA, startB, endB));
+            consider(closestOnSegment(startB, startA, endA), startB);
+            consider(closestOnSegment(endB, startA, endA), endB);
+        }
+    }
+    return best;
+}
+
+/**
+ * Gets the edges of a convex core. A single point is a zero-length edge, and a
+ * line segment is a single edge.
+ *
+ * @param points - Points of the core.
+ * @returns Start and end point of each edge.
+ */
+function edgesOf(points: V2d[]): [V2d, V2d][] {
+    if (points.length <= 2) {
+        return [[points[0], points[points.length - 1]]];
+    }
+    return points.map((point, i) => [point, points[(i + 1) % points.length]]);
+}
+
+/**
+ * Finds the point on a line segment closest to another point.
+ *
+ * @param point - Point to measure from.
+ * @param start - Start of the line segment.
+ * @param end - End of the line segment.
+ * @returns Closest point on the line segment.
+ */
+function closestOnSegment(point: V2d, start: V2d, end: V2d): V2d {
+    const edge = subtract(end, start);
+    const lengthSquared = dot(edge, edge);
+    if (lengthSquared === 0) {
+        return start;
+    }
+    const t = Math.max(
+        0,
+        Math.min(1, dot(subtract(point, start), edge) / lengthSquared)
+    );
+    return add(start, scale(edge, t));
+}
+
+/**
+ * Projects points onto an axis.
+ *
+ * @param points - Points to project.
+ * @param axis - Unit axis.
+ * @returns Smallest and largest projected distance along the axis.
+ */
+function project(points: V2d[], axis: V2d): { min: number; max: number } {
+    const distances = points.map((point) => dot(point, axis));
+    return { min: Math.min(...distances), max: Math.max(...distances) };
+}
+
+/**
+ * Gets the mean of a set of points.
+ *
+ * @param points - Points to average.
+ * @returns Mean point.
+ */
+function centroid(points: V2d[]): V2d {
+    return scale(points.reduce(add, { x: 0, y: 0 }), 1 / points.length);
+}
+
+/** Adds two vectors. */
+function add(a: V2d, b: V2d): V2d {
+    return { x: a.x + b.x, y: a.y + b.y };
+}
+
+/** Subtracts the second vector from the first. */
+function subtract(a: V2d, b: V2d): V2d {
+    return { x: a.x - b.x, y: a.y - b.y };
+}
+
+/** Multiplies a vector by a scalar. */
+function scale(v: V2d, factor: number): V2d {
+    return { x: v.x * factor, y: v.y * factor };
+}
+
+/** Gets the dot product of two vectors. */
+function dot(a: V2d, b: V2d): number {
+    return a.x * b.x + a.y * b.y;
+}
+
+/** Gets the length of a vector. */
+function length(v: V2d): number {
+    return Math.sqrt(dot(v, v));
+}
+
+/** Gets the unit vector in the direction of a vector. */
+function normalize(v: V2d): V2d {
+    return scale(v, 1 / length(v));
+}
@@ -48,3 +48,27 @@ export interface ColorComponents {
 export function fill(p: p5, color: ColorComponents): p5 {
     return p.fill(color.red, color.green, color.blue, color.alpha);
 }
+
+/**
+ * Converts a CSS hex color, such as `#ffc832` or `#fc3`, into its RGB
+ * components.
+ *
+ * @param hex - Hex color string starting with `#`.
+ * @returns Color components, without alpha.
+ * @throws {@link RangeError} if the string is not a 3- or 6-digit hex color.
+ */
+export function parseHexColor(hex: string): ColorComponents {
+    const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex);
+    if (match === null) {
+        throw new RangeError(`Invalid hex color "${hex}"`);
+    }
+    const digits =
+        match[1].length === 3
+            ? match[1].replace(/./g, (digit) => digit + digit)
+            : match[1];
+    return {
+        red: parseInt(digits.slice(0, 2), 16),
+        green: parseInt(digits.slice(2, 4), 16),
+        blue: parseInt(digits.slice(4, 6), 16),
+    };
+}
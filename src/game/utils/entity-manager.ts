@@ -0,0 +1,186 @@
+/**
+ * @file Entity lifecycle management with culling and pooling.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Entity } from "./entity";
+import { V2d } from "./vector";
+
+/**
+ * Manages the lifecycle of a group of entities of the same type. Entities are
+ * added and removed without leaving holes in the list of active entities, and
+ * removed entities are kept in a pool to be reused by {@link spawn}, so that
+ * no new entities are created once the pool has filled.
+ */
+export class EntityManager<T extends Entity> {
+    /** Entities currently in the game, in order of being added. */
+    get active(): readonly T[] {
+        return this._active;
+    }
+
+    /** Number of entities currently in the game. */
+    get activeCount(): number {
+        return this._active.length;
+    }
+
+    /** Number of removed entities waiting to be reused. */
+    get pooledCount(): number {
+        return this.pool.length;
+    }
+
+    /** Number of entities created by {@link spawn} over the manager's life. */
+    get createdCount(): number {
+        return this._createdCount;
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link active}.
+     */
+    private _active: T[] = [];
+
+    /**
+     * Private mutable to store the readonly property {@link createdCount}.
+     */
+    private _createdCount = 0;
+
+    /** Removed entities waiting to be reused. */
+    private pool: T[] = [];
+
+    /** Creates a new entity when the pool is empty. */
+    private create: () => T;
+
+    /** Largest number of removed entities kept for reuse. */
+    private maxPooled: number;
+
+    /**
+     * Creates a new entity manager with no entities.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.create - Creates a new entity when the pool is empty.
+     * Spawned entities must be reset by the caller, as pooled entities keep
+     * the state they were removed with.
+     * @param props.maxPooled - Largest number of removed entities kept for
+     * reuse. Entities removed when the pool is full are discarded.
+     */
+    constructor({
+        create,
+        maxPooled = 32,
+    }: {
+        create: () => T;
+        maxPooled?: number;
+    }) {
+        this.create = create;
+        this.maxPooled = maxPooled;
+    }
+
+    /**
+     * Adds an entity to the game, reusing a pooled entity if one is available.
+     *
+     * @returns Active entity, which should be reset by the caller.
+     */
+    spawn(): T {
+        let entity = this.pool.pop();
+        if (entity === undefined) {
+            entity = this.create();
+            ++this._createdCount;
+        }
+        this._active.push(entity);
+        return entity;
+    }
+
+    /**
+     * Adds an entity created outside the manager to the game.
+     *
+     * @param entity - Entity to add.
+     */
+    add(entity: T): void {
+        this._active.push(entity);
+    }
+
+    /**
+     * Removes an entity from the game and pools it for reuse.
+     *
+     * @param entity - Entity to remove.
+     * @returns `true` if the entity was active, otherwise `false`.
+     */
+    remove(entity: T): boolean {
+        const i = this._active.indexOf(entity);
+        if (i === -1) {
+            return false;
+        }
+        this._active.splice(i, 1);
+        this.release(entity);
+        return true;
+    }
+
+    /**
+     * Removes all entities for which the predicate returns `true`, in a single
+     * pass over the active entities, and pools them for reuse. The predicate
+     * is called once for each active entity in order, so it may have side
+     * effects such as updating a score.
+     *
+     * @param predicate - Checks if an entity should be removed.
+     * @returns Removed entities.
+     */
+    removeWhere(predicate: (entity: T) => boolean): T[] {
+        const removed: T[] = [];
+        this._active = this._active.filter((entity) => {
+            if (predicate(entity)) {
+                removed.push(entity);
+                return false;
+            }
+            return true;
+        });
+        removed.forEach((entity) => this.release(entity));
+        return removed;
+    }
+
+    /**
+     * Removes all entities which are entirely outside the world bounds, and
+     * pools them for reuse.
+     *
+     * @param bounds - Width (x) and height (y) of the world in pixels.
+     * @returns Removed entities.
+     */
+    cull(bounds: V2d): T[] {
+        return this.removeWhere(
+            (entity) =>
+                entity.position.x + entity.sprite.centerPoint.x < 0 ||
+                entity.position.x - entity.sprite.centerPoint.x > bounds.x ||
+                entity.position.y + entity.sprite.centerPoint.y < 0 ||
+                entity.position.y - entity.sprite.centerPoint.y > bounds.y
+        );
+    }
+
+    /** Removes all entities from the game and pools them for reuse. */
+    clear(): void {
+        this._active.forEach((entity) => this.release(entity));
+        this._active = [];
+    }
+
+    /**
+     * Pools a removed entity for reuse, unless the pool is full.
+     *
+     * @param entity - Removed entity.
+     */
+    private release(entity: T): void {
+        if (this.pool.length < this.maxPooled) {
+            this.pool.push(entity);
+        }
+    }
+}
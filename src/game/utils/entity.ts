@@ -20,9 +20,11 @@
 
 import * as p5 from "p5";
 
+import { Collider, CollisionResult } from "./collider";
 import { Drawable } from "./drawable";
 import { Sprite } from "./sprite";
 import { V2d } from "./vector";
+import { World } from "./world";
 
 /**
  * Represents a visible 2D object and all corresponding internal data.
@@ -31,9 +33,24 @@ export abstract class Entity implements Drawable {
     /** Properties of the image or graphical data to be displayed. */
     sprite: Sprite;
 
+    /**
+     * Shape used to detect collisions with other entities, which is separate
+     * from the size of the sprite.
+     */
+    collider: Collider;
+
     /** x- and y-coordinates of the sprite's center point on the canvas. */
     position: V2d;
 
+    /** Value of {@link position} before the last update. */
+    previousPosition: V2d;
+
+    /**
+     * x- and y-coordinates at which the sprite's center point is drawn,
+     * interpolated between {@link previousPosition} and {@link position}.
+     */
+    renderPosition: V2d;
+
     /**
      * Creates a new entity.
      *
@@ -41,36 +58,90 @@ export abstract class Entity implements Drawable {
      * @param props.x - x-coordinate in pixels.
      * @param props.y - y-coordinate in pixels.
      * @param props.sprite - Sprite with which to draw the entity.
+     * @param props.collider - Shape used to detect collisions. Defaults to a
+     * box the size of the sprite when the entity is created.
      */
     constructor({
         x = 0,
         y = 0,
         sprite,
+        collider = new Collider({
+            shape: { type: "box", halfSize: { ...sprite.centerPoint } },
+        }),
     }: {
         x?: number;
         y?: number;
         sprite: Sprite;
+        collider?: Collider;
     }) {
         this.position = { x: x, y: y };
+        this.previousPosition = { x: x, y: y };
+        this.renderPosition = { x: x, y: y };
         this.sprite = sprite;
+        this.collider = collider;
+    }
+
+    /**
+     * Stores the current position as the previous position used for
+     * interpolation. Should be called before each call to {@link update}, and
+     * after the position is set directly to avoid interpolating from the old
+     * position.
+     */
+    storePreviousPosition(): void {
+        this.previousPosition = { x: this.position.x, y: this.position.y };
+    }
+
+    /**
+     * Sets the position at which the entity is drawn between its previous and
+     * current positions. Should be called once per frame before calling
+     * {@link draw}.
+     *
+     * @param alpha - Fraction of a fixed update step since the last update,
+     * from 0 to 1.
+     */
+    interpolate(alpha: number): void {
+        this.renderPosition = {
+            x:
+                this.previousPosition.x +
+                (this.position.x - this.previousPosition.x) * alpha,
+            y:
+                this.previousPosition.y +
+                (this.position.y - this.previousPosition.y) * alpha,
+        };
     }
 
     /**
      * Updates all calculated properties of the entity. Should be called once
-     * per frame before calling {@link draw}.
+     * per fixed update step.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      */
-    abstract update(p: p5): void;
+    abstract update(world: World): void;
 
     /**
-     * Draws the entity's image representation onto the canvas. Should be called
-     * once per frame after calling {@link update}.
+     * Draws the entity's image representation onto the canvas at
+     * {@link renderPosition}. Should be called once per frame after calling
+     * {@link interpolate}.
      *
      * @param p - p5 instance.
      */
     abstract draw(p: p5): void;
 
+    /**
+     * Tests the entity's collider against another entity's collider.
+     *
+     * @param target - Other entity to test against.
+     * @returns Depth and normal of the overlap, pointing towards the target,
+     * if the colliders overlap or touch, otherwise `undefined`.
+     */
+    collide(target: Entity): CollisionResult | undefined {
+        return this.collider.collide(
+            this.position,
+            target.collider,
+            target.position
+        );
+    }
+
     /**
      * Checks if the entity collided with another entity on the canvas.
      *
@@ -78,16 +149,7 @@ export abstract class Entity implements Drawable {
      * @returns `true` if collided, otherwise `false`.
      */
     didCollide(target: Entity): boolean {
-        return (
-            this.position.x + this.sprite.centerPoint.x >=
-                target.position.x - target.sprite.centerPoint.x &&
-            this.position.x - this.sprite.centerPoint.x <=
-                target.position.x + target.sprite.centerPoint.x &&
-            this.position.y + this.sprite.centerPoint.y >=
-                target.position.y - target.sprite.centerPoint.y &&
-            this.position.y - this.sprite.centerPoint.y <=
-                target.position.y + target.sprite.centerPoint.y
-        );
+        return this.collide(target) !== undefined;
     }
 }
 
@@ -108,6 +170,8 @@ export abstract class MovingEntity extends Entity {
      * @param props.dx - x-velocity in pixels per millisecond.
      * @param props.dy - y-velocity in pixels per millisecond.
      * @param props.sprite - Sprite with which to draw the entity.
+     * @param props.collider - Shape used to detect collisions. Defaults to a
+     * box the size of the sprite when the entity is created.
      */
     constructor({
         x = 0,
@@ -115,14 +179,16 @@ export abstract class MovingEntity extends Entity {
         dx = 0,
         dy = 0,
         sprite,
+        collider,
     }: {
         x?: number;
         y?: number;
         dx?: number;
         dy?: number;
         sprite: Sprite;
+        collider?: Collider;
     }) {
-        super({ x: x, y: y, sprite: sprite });
+        super({ x: x, y: y, sprite: sprite, collider: collider });
         this.velocity = { x: dx, y: dy };
     }
 
@@ -130,7 +196,7 @@ export abstract class MovingEntity extends Entity {
      * Calculates the entity's position in pixels along a single axis of the
      * canvas.
      *
-     * @param p - p5 instance.
+     * @param world - Context in which the update is simulated.
      * @param props - Destructured property parameters.
      * @param props.currentPosition - The current position in pixels along the
      * single axis of the canvas.
@@ -139,7 +205,7 @@ export abstract class MovingEntity extends Entity {
      * @returns Position in pixels.
      */
     protected static calcAxisPosition(
-        p: p5,
+        world: World,
         {
             currentPosition,
             velocity,
@@ -148,6 +214,6 @@ export abstract class MovingEntity extends Entity {
             velocity: number;
         }
     ): number {
-        return currentPosition + p.deltaTime * velocity;
+        return currentPosition + world.deltaTime * velocity;
     }
 }
@@ -20,7 +20,11 @@
 
 import * as p5 from "p5";
 
+import { MusicTrackName } from "@game/audio/audio-manager";
+import { InputAction } from "@game/input/input-map";
+import { DifficultyPreset } from "@game/simulation/difficulty";
 import { Sketch } from "@game/sketch";
+import { Transition } from "@game/utils/transition";
 
 /**
  * Represents the drawing functionality, game logic and event handlers to be
@@ -31,6 +35,35 @@ export abstract class Scene {
     /** Parent sketch from which the scene should have been initialized. */
     protected sketch: Sketch;
 
+    /**
+     * Whether the scenes below this scene in the sketch's scene stack continue
+     * to be updated while this scene is on top of them.
+     */
+    readonly updatesBelow: boolean = false;
+
+    /**
+     * Whether the scenes below this scene in the sketch's scene stack continue
+     * to be drawn while this scene is on top of them. The scenes below are
+     * drawn first, so this scene is drawn over them.
+     */
+    readonly drawsBelow: boolean = false;
+
+    /**
+     * Music played while the scene is at the top of the sketch's scene stack.
+     * Scenes which draw the scenes below them and declare no music keep the
+     * music of the scenes below, and other scenes without music are silent.
+     */
+    readonly music?: MusicTrackName;
+
+    /**
+     * Whether the scene reads any key pressed while it is active, such as
+     * while typing text, so that the sketch does not also handle keys bound to
+     * actions for the whole game, such as muting.
+     */
+    get capturesKeys(): boolean {
+        return false;
+    }
+
     /**
      * Creates a new scene.
      *
@@ -43,13 +76,47 @@ export abstract class Scene {
     /**
      * Continuously executes the lines of code contained inside its block until
      * the program is stopped or {@link p5.noLoop} is called when the scene is
-     * active.
+     * visible in the sketch's scene stack. Should only draw the scene; game
+     * logic belongs in {@link SceneUpdateHandler.update}.
      *
      * See {@link Sketch.draw} and {@link p5.draw} for more information.
      *
      * @param p - p5 instance.
+     * @param alpha - Fraction of a fixed update step since the last update,
+     * from 0 to 1, used to interpolate drawn positions between the previous
+     * and current updates.
      */
-    abstract draw(p: p5): void;
+    abstract draw(p: p5, alpha: number): void;
+
+    /**
+     * Checks if a scene implements the enter handler.
+     *
+     * See {@link SceneEnterHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasEnterHandler(
+        scene: object
+    ): scene is SceneEnterHandler<SceneName> {
+        return (
+            scene && "enter" in scene && typeof scene["enter"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the resume handler.
+     *
+     * See {@link SceneResumeHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasResumeHandler(scene: object): scene is SceneResumeHandler {
+        return (
+            scene && "resume" in scene && typeof scene["resume"] === "function"
+        );
+    }
 
     /**
      * Checks if a scene implements the preload handler.
@@ -81,6 +148,20 @@ export abstract class Scene {
         );
     }
 
+    /**
+     * Checks if a scene implements the update handler.
+     *
+     * See {@link SceneUpdateHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasUpdateHandler(scene: object): scene is SceneUpdateHandler {
+        return (
+            scene && "update" in scene && typeof scene["update"] === "function"
+        );
+    }
+
     /**
      * Checks if a scene implements the key pressed event handler.
      *
@@ -116,6 +197,298 @@ export abstract class Scene {
             typeof scene["keyReleased"] === "function"
         );
     }
+
+    /**
+     * Checks if a scene implements the action pressed event handler.
+     *
+     * See {@link SceneActionPressedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasActionPressedHandler(
+        scene: object
+    ): scene is SceneActionPressedHandler {
+        return (
+            scene &&
+            "actionPressed" in scene &&
+            typeof scene["actionPressed"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the action released event handler.
+     *
+     * See {@link SceneActionReleasedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasActionReleasedHandler(
+        scene: object
+    ): scene is SceneActionReleasedHandler {
+        return (
+            scene &&
+            "actionReleased" in scene &&
+            typeof scene["actionReleased"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the gamepad disconnected event handler.
+     *
+     * See {@link SceneGamepadDisconnectedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasGamepadDisconnectedHandler(
+        scene: object
+    ): scene is SceneGamepadDisconnectedHandler {
+        return (
+            scene &&
+            "gamepadDisconnected" in scene &&
+            typeof scene["gamepadDisconnected"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the mouse pressed event handler.
+     *
+     * See {@link SceneMousePressedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasMousePressedHandler(
+        scene: object
+    ): scene is SceneMousePressedHandler {
+        return (
+            scene &&
+            "mousePressed" in scene &&
+            typeof scene["mousePressed"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the mouse moved event handler.
+     *
+     * See {@link SceneMouseMovedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasMouseMovedHandler(
+        scene: object
+    ): scene is SceneMouseMovedHandler {
+        return (
+            scene &&
+            "mouseMoved" in scene &&
+            typeof scene["mouseMoved"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the mouse released event handler.
+     *
+     * See {@link SceneMouseReleasedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasMouseReleasedHandler(
+        scene: object
+    ): scene is SceneMouseReleasedHandler {
+        return (
+            scene &&
+            "mouseReleased" in scene &&
+            typeof scene["mouseReleased"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the mouse wheel event handler.
+     *
+     * See {@link SceneMouseWheelHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasMouseWheelHandler(
+        scene: object
+    ): scene is SceneMouseWheelHandler {
+        return (
+            scene &&
+            "mouseWheel" in scene &&
+            typeof scene["mouseWheel"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the touch started event handler.
+     *
+     * See {@link SceneTouchStartedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasTouchStartedHandler(
+        scene: object
+    ): scene is SceneTouchStartedHandler {
+        return (
+            scene &&
+            "touchStarted" in scene &&
+            typeof scene["touchStarted"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the touch moved event handler.
+     *
+     * See {@link SceneTouchMovedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasTouchMovedHandler(
+        scene: object
+    ): scene is SceneTouchMovedHandler {
+        return (
+            scene &&
+            "touchMoved" in scene &&
+            typeof scene["touchMoved"] === "function"
+        );
+    }
+
+    /**
+     * Checks if a scene implements the touch ended event handler.
+     *
+     * See {@link SceneTouchEndedHandler}.
+     *
+     * @param scene - Scene to check.
+     * @returns `true` if the scene implements the handler, otherwise `false`.
+     */
+    static hasTouchEndedHandler(
+        scene: object
+    ): scene is SceneTouchEndedHandler {
+        return (
+            scene &&
+            "touchEnded" in scene &&
+            typeof scene["touchEnded"] === "function"
+        );
+    }
+}
+
+/**
+ * Maps the name of each scene registered in the sketch to the type of the
+ * payload passed to the scene when it is activated. Scenes which do not
+ * receive any data use `undefined` as their payload type.
+ */
+export interface ScenePayloads {
+    loading: undefined;
+    menu: undefined;
+    game: { difficulty: DifficultyPreset; level?: number };
+    pause: undefined;
+    gameOver: {
+        score: number;
+        difficulty: DifficultyPreset;
+        level?: number;
+        won: boolean;
+
+        /** Whether the level ended because it could no longer be won. */
+        failed?: boolean;
+
+        /** Index of the run in the high-score table, if it was added. */
+        rank?: number;
+    };
+    nameEntry: {
+        score: number;
+        difficulty: DifficultyPreset;
+        level?: number;
+        won: boolean;
+
+        /** Whether the level ended because it could no longer be won. */
+        failed?: boolean;
+    };
+    highScores: undefined;
+    settings: undefined;
+}
+
+/** Name under which a scene is registered in the sketch. */
+export type SceneName = keyof ScenePayloads;
+
+/** Name of a scene which can be activated without a payload. */
+export type PayloadlessSceneName = {
+    [N in SceneName]: ScenePayloads[N] extends undefined ? N : never;
+}[SceneName];
+
+/**
+ * Scenes which can be activated without a payload, listed so that they can be
+ * told apart at runtime. Every such scene must be listed, and no other.
+ */
+const payloadlessScenes: Readonly<Record<PayloadlessSceneName, true>> = {
+    loading: true,
+    menu: true,
+    pause: true,
+    highScores: true,
+    settings: true,
+};
+
+/**
+ * Checks whether a scene can be activated without a payload.
+ *
+ * @param name - Name of the scene.
+ * @returns `true` if the scene only accepts `undefined` as its payload,
+ * otherwise `false`.
+ */
+export function isPayloadlessSceneName(
+    name: SceneName
+): name is PayloadlessSceneName {
+    return Object.prototype.hasOwnProperty.call(payloadlessScenes, name);
+}
+
+/**
+ * Trailing arguments used to activate the scene with the given name: the
+ * payload passed to the scene, which may be omitted if the scene only accepts
+ * `undefined`, and the transition used to change to the scene.
+ */
+export type SceneChangeArgs<N extends SceneName> =
+    ScenePayloads[N] extends undefined
+        ? [payload?: ScenePayloads[N], transition?: Transition]
+        : [payload: ScenePayloads[N], transition?: Transition];
+
+/**
+ * Implemented by scenes to receive the payload passed when the scene is
+ * activated by name.
+ */
+export interface SceneEnterHandler<N extends SceneName> {
+    /**
+     * Called each time the scene is activated, after it has been set as the
+     * active scene in the sketch and after {@link SceneSetupHandler.setup} has
+     * been called.
+     *
+     * See {@link Sketch.goTo} for more information.
+     *
+     * @param p - p5 instance.
+     * @param payload - Data passed by the caller which activated the scene.
+     */
+    enter(p: p5, payload: ScenePayloads[N]): void;
+}
+
+/**
+ * Implemented by scenes which need to know when they become the active scene
+ * again after the scene above them in the scene stack is removed.
+ */
+export interface SceneResumeHandler {
+    /**
+     * Called when the scene above this scene in the scene stack is popped,
+     * making this scene active again.
+     *
+     * See {@link Sketch.pop} for more information.
+     *
+     * @param p - p5 instance.
+     */
+    resume(p: p5): void;
 }
 
 /**
@@ -150,6 +523,27 @@ export interface SceneSetupHandler {
     setup(p: p5): void;
 }
 
+/**
+ * Implemented by scenes which contain game logic to be run separately from
+ * drawing, so that the scene can be frozen while still being drawn below an
+ * overlay.
+ */
+export interface SceneUpdateHandler {
+    /**
+     * Called at a fixed rate, zero or more times per frame before
+     * {@link Scene.draw}, while the scene is active, or while it is below
+     * scenes in the sketch's scene stack which allow the scenes below them to
+     * be updated.
+     *
+     * See {@link Scene.updatesBelow} and {@link Sketch.draw} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param deltaTime - Length of the fixed update step in milliseconds.
+     */
+    update(p: p5, deltaTime: number): void;
+}
+
 /**
  * Implemented by scenes to provide a handler for the p5 key pressed event.
  */
@@ -183,3 +577,176 @@ export interface SceneKeyReleasedHandler {
      */
     keyReleased(p: p5, event?: object): void;
 }
+
+/**
+ * Implemented by scenes to handle input actions being triggered, regardless of
+ * the physical input bound to them.
+ */
+export interface SceneActionPressedHandler {
+    /**
+     * Called once every time an input action starts being held when the scene
+     * is active.
+     *
+     * See {@link Sketch.input} and {@link InputMap} for more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was pressed.
+     */
+    actionPressed(p: p5, action: InputAction): void;
+}
+
+/**
+ * Implemented by scenes to handle input actions being released, regardless of
+ * the physical input bound to them.
+ */
+export interface SceneActionReleasedHandler {
+    /**
+     * Called once every time an input action stops being held when the scene
+     * is active.
+     *
+     * See {@link Sketch.input} and {@link InputMap} for more information.
+     *
+     * @param p - p5 instance.
+     * @param action - Action which was released.
+     */
+    actionReleased(p: p5, action: InputAction): void;
+}
+
+/**
+ * Implemented by scenes to handle a gamepad being disconnected, such as to
+ * pause the game.
+ */
+export interface SceneGamepadDisconnectedHandler {
+    /**
+     * Called once every time a gamepad is disconnected when the scene is
+     * active. Actions held on the gamepad are released first.
+     *
+     * See {@link Sketch.gamepads} and {@link GamepadPoller} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param index - Index of the gamepad which was disconnected.
+     */
+    gamepadDisconnected(p: p5, index: number): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 mouse pressed event.
+ */
+export interface SceneMousePressedHandler {
+    /**
+     * Called once every time a mouse button is pressed when the scene is
+     * active. The pointer position is stored in the {@link p5.mouseX} and
+     * {@link p5.mouseY} variables.
+     *
+     * See {@link Sketch.mousePressed} and {@link p5.mousePressed} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - MouseEvent callback argument.
+     */
+    mousePressed(p: p5, event?: object): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 mouse moved event.
+ */
+export interface SceneMouseMovedHandler {
+    /**
+     * Called every time the mouse moves when the scene is active, whether or
+     * not a button is pressed. The pointer position is stored in the
+     * {@link p5.mouseX} and {@link p5.mouseY} variables.
+     *
+     * See {@link Sketch.mouseMoved}, {@link p5.mouseMoved} and
+     * {@link p5.mouseDragged} for more information.
+     *
+     * @param p - p5 instance.
+     * @param event - MouseEvent callback argument.
+     */
+    mouseMoved(p: p5, event?: object): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 mouse released event.
+ */
+export interface SceneMouseReleasedHandler {
+    /**
+     * Called once every time a mouse button is released when the scene is
+     * active.
+     *
+     * See {@link Sketch.mouseReleased} and {@link p5.mouseReleased} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - MouseEvent callback argument.
+     */
+    mouseReleased(p: p5, event?: object): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 mouse wheel event.
+ */
+export interface SceneMouseWheelHandler {
+    /**
+     * Called every time a vertical mouse wheel or touchpad scroll is detected
+     * when the scene is active. The scroll amount is stored in the `delta`
+     * property of the event.
+     *
+     * See {@link Sketch.mouseWheel} and {@link p5.mouseWheel} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - WheelEvent callback argument.
+     */
+    mouseWheel(p: p5, event?: object): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 touch started event.
+ */
+export interface SceneTouchStartedHandler {
+    /**
+     * Called once every time a touch is registered when the scene is active.
+     * The positions of all current touches are stored in the
+     * {@link p5.touches} variable.
+     *
+     * See {@link Sketch.touchStarted} and {@link p5.touchStarted} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - TouchEvent callback argument.
+     */
+    touchStarted(p: p5, event?: object): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 touch moved event.
+ */
+export interface SceneTouchMovedHandler {
+    /**
+     * Called every time a touch move is registered when the scene is active.
+     *
+     * See {@link Sketch.touchMoved} and {@link p5.touchMoved} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - TouchEvent callback argument.
+     */
+    touchMoved(p: p5, event?: object): void;
+}
+
+/**
+ * Implemented by scenes to provide a handler for the p5 touch ended event.
+ */
+export interface SceneTouchEndedHandler {
+    /**
+     * Called once every time a touch ends when the scene is active.
+     *
+     * See {@link Sketch.touchEnded} and {@link p5.touchEnded} for more
+     * information.
+     *
+     * @param p - p5 instance.
+     * @param event - TouchEvent callback argument.
+     */
+    touchEnded(p: p5, event?: object): void;
+}
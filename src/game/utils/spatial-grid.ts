@@ -0,0 +1,300 @@
+/**
+ * @file Uniform grid for finding entities near an area.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Entity } from "./entity";
+import { Rect } from "./vector";
+
+/** Range of grid cells covered by a rectangle, inclusive at both ends. */
+interface CellRange {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/** Entity stored in the grid, with the bounds it was last stored with. */
+interface GridEntry<T> {
+    entity: T;
+
+    /** Bounds of the entity's collider when it was last updated. */
+    bounds: Rect;
+
+    /** Range of cells in which the entity is stored. */
+    range: CellRange;
+
+    /**
+     * Number of the last query which found the entity, used to list entities
+     * spanning several cells once.
+     */
+    queryId: number;
+
+    /**
+     * Number of the last rebuild which included the entity, used to remove
+     * entities left out of a rebuild.
+     */
+    rebuildId: number;
+}
+
+/**
+ * Broad-phase structure which divides the canvas into square cells, so that
+ * the entities near an area can be found without testing every entity.
+ * Entities are stored in each cell overlapped by the bounds of their
+ * colliders, and queries only look at the cells overlapped by the area.
+ *
+ * The grid can be rebuilt from a list of entities each step with
+ * {@link rebuild}, or kept up to date by calling {@link update} after an
+ * entity moves and {@link remove} when it leaves the game.
+ */
+export class SpatialGrid<T extends Entity> {
+    /** Width and height of each cell in pixels. */
+    readonly cellSize: number;
+
+    /** Number of entities in the grid. */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** Entries in each non-empty cell, keyed by {@link cellKey}. */
+    private cells = new Map<number, GridEntry<T>[]>();
+
+    /** Entry of each entity in the grid. */
+    private entries = new Map<T, GridEntry<T>>();
+
+    /** Number of the last query, incremented by each query. */
+    private queryId = 0;
+
+    /** Number of the last rebuild, incremented by each rebuild. */
+    private rebuildId = 0;
+
+    /**
+     * Creates a new empty grid.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.cellSize - Width and height of each cell in pixels. Should
+     * be around the size of the largest common entity.
+     * @throws {@link RangeError} if the cell size is not positive.
+     */
+    constructor({ cellSize = 128 }: { cellSize?: number } = {}) {
+        if (!(cellSize > 0)) {
+            throw new RangeError("Cell size must be positive");
+        }
+        this.cellSize = cellSize;
+    }
+
+    /**
+     * Updates the grid to contain exactly the given entities. Entities already
+     * in the grid are updated in place, which is quicker than clearing the
+     * grid when most entities stay within their cells.
+     *
+     * @param entities - Entities to store in the grid.
+     */
+    rebuild(entities: Iterable<T>): void {
+        const rebuildId = ++this.rebuildId;
+        for (const entity of entities) {
+            this.updateEntry(entity).rebuildId = rebuildId;
+        }
+        this.entries.forEach((entry) => {
+            if (entry.rebuildId !== rebuildId) {
+                this.remove(entry.entity);
+            }
+        });
+    }
+
+    /**
+     * Inserts an entity into the grid, or moves it to the cells overlapped by
+     * its current bounds if it is already in the grid. Entities which have not
+     * left their cells are not moved.
+     *
+     * @param entity - Entity to insert or move.
+     */
+    update(entity: T): void {
+        this.updateEntry(entity);
+    }
+
+    /**
+     * Removes an entity from the grid.
+     *
+     * @param entity - Entity to remove.
+     * @returns `true` if the entity was in the grid, otherwise `false`.
+     */
+    remove(entity: T): boolean {
+        const entry = this.entries.get(entity);
+        if (entry === undefined) {
+            return false;
+        }
+        this.removeFromCells(entry);
+        this.entries.delete(entity);
+        return true;
+    }
+
+    /** Removes every entity from the grid. */
+    clear(): void {
+        this.cells.clear();
+        this.entries.clear();
+    }
+
+    /**
+     * Inserts or moves an entity as described by {@link update}.
+     *
+     * @param entity - Entity to insert or move.
+     * @returns Entry of the entity in the grid.
+     */
+    private updateEntry(entity: T): GridEntry<T> {
+        const bounds = entity.collider.bounds(entity.position);
+        const range = this.rangeOf(bounds);
+        let entry = this.entries.get(entity);
+        if (entry === undefined) {
+            entry = {
+                entity: entity,
+                bounds: bounds,
+                range: range,
+                queryId: 0,
+                rebuildId: 0,
+            };
+            this.entries.set(entity, entry);
+        } else {
+            entry.bounds = bounds;
+            const previous = entry.range;
+            if (
+                previous.minX === range.minX &&
+                previous.minY === range.minY &&
+                previous.maxX === range.maxX &&
+                previous.maxY === range.maxY
+            ) {
+                return entry;
+            }
+            this.removeFromCells(entry);
+            entry.range = range;
+        }
+
+        for (let x = range.minX; x <= range.maxX; ++x) {
+            for (let y = range.minY; y <= range.maxY; ++y) {
+                const key = SpatialGrid.cellKey(x, y);
+                const cell = this.cells.get(key);
+                if (cell === undefined) {
+                    this.cells.set(key, [entry]);
+                } else {
+                    cell.push(entry);
+                }
+            }
+        }
+        return entry;
+    }
+
+    /**
+     * Finds the entities whose collider bounds overlap a rectangle. Entities
+     * are compared by their bounds when they were last updated, so colliders
+     * found should still be tested with {@link Entity.collide}.
+     *
+     * @param rect - Area to search, including its edges.
+     * @returns Entities found, each listed once.
+     */
+    query(rect: Rect): T[] {
+        const queryId = ++this.queryId;
+        const found: T[] = [];
+        const range = this.rangeOf(rect);
+        for (let x = range.minX; x <= range.maxX; ++x) {
+            for (let y = range.minY; y <= range.maxY; ++y) {
+                const cell = this.cells.get(SpatialGrid.cellKey(x, y));
+                if (cell === undefined) {
+                    continue;
+                }
+                for (const entry of cell) {
+                    if (
+                        entry.queryId !== queryId &&
+                        entry.bounds.min.x <= rect.max.x &&
+                        entry.bounds.max.x >= rect.min.x &&
+                        entry.bounds.min.y <= rect.max.y &&
+                        entry.bounds.max.y >= rect.min.y
+                    ) {
+                        entry.queryId = queryId;
+                        found.push(entry.entity);
+                    }
+                }
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Finds the entities whose collider bounds overlap those of another
+     * entity, which is not included in the result.
+     *
+     * @param entity - Entity to search around.
+     * @returns Entities found, each listed once.
+     */
+    queryEntity(entity: Entity): T[] {
+        return this.query(entity.collider.bounds(entity.position)).filter(
+            (other) => other !== entity
+        );
+    }
+
+    /**
+     * Gets the range of cells overlapped by a rectangle.
+     *
+     * @param rect - Rectangle on the canvas.
+     * @returns Range of cells.
+     */
+    private rangeOf(rect: Rect): CellRange {
+        return {
+            minX: Math.floor(rect.min.x / this.cellSize),
+            minY: Math.floor(rect.min.y / this.cellSize),
+            maxX: Math.floor(rect.max.x / this.cellSize),
+            maxY: Math.floor(rect.max.y / this.cellSize),
+        };
+    }
+
+    /**
+     * Removes an entry from the cells in its range, deleting cells left
+     * empty.
+     *
+     * @param entry - Entry to remove.
+     */
+    private removeFromCells(entry: GridEntry<T>): void {
+        const range = entry.range;
+        for (let x = range.minX; x <= range.maxX; ++x) {
+            for (let y = range.minY; y <= range.maxY; ++y) {
+                const key = SpatialGrid.cellKey(x, y);
+                const cell = this.cells.get(key);
+                const index = cell?.indexOf(entry) ?? -1;
+                if (index === -1) {
+                    continue;
+                }
+                cell.splice(index, 1);
+                if (cell.length === 0) {
+                    this.cells.delete(key);
+                }
+            }
+        }
+    }
+
+    /**
+     * Combines the column and row of a cell into a single map key. Keys wrap
+     * every 32768 cells in each direction, so distant cells can share a key,
+     * which only adds candidates that are then rejected by their bounds.
+     *
+     * @param x - Column of the cell.
+     * @param y - Row of the cell.
+     * @returns Key of the cell.
+     */
+    private static cellKey(x: number, y: number): number {
+        return ((x & 0x7fff) << 15) | (y & 0x7fff);
+    }
+}
@@ -18,10 +18,81 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import * as p5 from "p5";
+
 import { V2d } from "./vector";
 
 /**
- * Image property wrapper for 2D graphical objects.
+ * Grid of equally sized animation frames in a single image. Frames are
+ * numbered from 0, left to right and then top to bottom.
+ */
+export class SpriteSheet {
+    /** Image containing the frames. */
+    readonly image: p5.Image;
+
+    /** Width and height of each frame in pixels. */
+    readonly frameSize: V2d;
+
+    /** Number of frames in each row of the image. */
+    get columns(): number {
+        return Math.max(Math.floor(this.image.width / this.frameSize.x), 1);
+    }
+
+    /**
+     * Creates a new sprite sheet.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.image - Image containing the frames.
+     * @param props.frameWidth - Width of each frame in pixels.
+     * @param props.frameHeight - Height of each frame in pixels.
+     */
+    constructor({
+        image,
+        frameWidth,
+        frameHeight,
+    }: {
+        image: p5.Image;
+        frameWidth: number;
+        frameHeight: number;
+    }) {
+        this.image = image;
+        this.frameSize = { x: frameWidth, y: frameHeight };
+    }
+
+    /**
+     * Gets the position of a frame in the image.
+     *
+     * @param frame - Index of the frame.
+     * @returns x- and y-coordinates of the top left corner of the frame in
+     * pixels.
+     */
+    frameOrigin(frame: number): V2d {
+        return {
+            x: (frame % this.columns) * this.frameSize.x,
+            y: Math.floor(frame / this.columns) * this.frameSize.y,
+        };
+    }
+}
+
+/** Named sequence of frames from a {@link SpriteSheet}. */
+export interface SpriteAnimation {
+    /** Indices of the frames in the sprite sheet, in order. */
+    frames: number[];
+
+    /** Number of frames shown per second. */
+    frameRate: number;
+
+    /** Whether to restart from the first frame after the last. */
+    loop: boolean;
+
+    /** Whether to mirror the frames horizontally, such as to face left. */
+    flipX?: boolean;
+}
+
+/**
+ * Image property wrapper for 2D graphical objects. A sprite may hold art as a
+ * single image, or as a sprite sheet with named animations. Sprites without
+ * art are drawn as shapes by their entities.
  */
 export class Sprite {
     /**
@@ -46,17 +117,161 @@ export class Sprite {
      */
     private _size: V2d;
 
+    /** Single image drawn when the sprite has no sprite sheet. */
+    image?: p5.Image;
+
+    /** Sprite sheet from which animation frames are drawn. */
+    sheet?: SpriteSheet;
+
+    /** Animations which can be played from the sprite sheet, by name. */
+    animations: Map<string, SpriteAnimation>;
+
+    /** Whether the sprite has an image or sprite sheet to draw. */
+    get hasArt(): boolean {
+        return this.image !== undefined || this.sheet !== undefined;
+    }
+
+    /** Name of the animation being played, if any. */
+    get animationName(): string | undefined {
+        return this._animationName;
+    }
+
+    /** Index of the current frame in the sprite sheet. */
+    get frame(): number {
+        const animation = this.animations.get(this._animationName);
+        return animation === undefined
+            ? 0
+            : animation.frames[this.animationStep];
+    }
+
+    /**
+     * Private mutable to store the readonly property {@link animationName}.
+     */
+    private _animationName?: string;
+
+    /** Index of the current frame in the animation's list of frames. */
+    private animationStep = 0;
+
+    /** Time in milliseconds since the current frame was shown. */
+    private frameTime = 0;
+
     /**
      * Creates a new sprite object.
      *
      * @param props - Destructured property parameters.
      * @param props.width - Width of the sprite in pixels.
      * @param props.height - Height of the sprite in pixels.
+     * @param props.image - Single image to draw.
+     * @param props.sheet - Sprite sheet from which to draw animation frames.
+     * @param props.animations - Animations which can be played, by name.
      */
     constructor({
         width = 0,
         height = 0,
-    }: { width?: number; height?: number } = {}) {
+        image,
+        sheet,
+        animations = {},
+    }: {
+        width?: number;
+        height?: number;
+        image?: p5.Image;
+        sheet?: SpriteSheet;
+        animations?: Record<string, SpriteAnimation>;
+    } = {}) {
         this.size = { x: width, y: height };
+        this.image = image;
+        this.sheet = sheet;
+        this.animations = new Map(Object.entries(animations));
+    }
+
+    /**
+     * Starts playing an animation, unless it is already playing. Animations
+     * which have not been added are ignored, so that entities can request
+     * animations regardless of the art available.
+     *
+     * @param name - Name of the animation.
+     * @param restart - Whether to restart the animation if it is already
+     * playing.
+     */
+    play(name: string, restart = false): void {
+        if (
+            !this.animations.has(name) ||
+            (name === this._animationName && !restart)
+        ) {
+            return;
+        }
+        this._animationName = name;
+        this.animationStep = 0;
+        this.frameTime = 0;
+    }
+
+    /**
+     * Advances the animation being played. Should be called once per fixed
+     * update step.
+     *
+     * @param deltaTime - Time in milliseconds since the last update.
+     */
+    update(deltaTime: number): void {
+        const animation = this.animations.get(this._animationName);
+        if (animation === undefined || animation.frameRate <= 0) {
+            return;
+        }
+
+        this.frameTime += deltaTime;
+        const frameDuration = 1000 / animation.frameRate;
+        while (this.frameTime >= frameDuration) {
+            this.frameTime -= frameDuration;
+            if (this.animationStep < animation.frames.length - 1) {
+                ++this.animationStep;
+            } else if (animation.loop) {
+                this.animationStep = 0;
+            }
+        }
+    }
+
+    /**
+     * Draws the current animation frame, or otherwise the image, centered on
+     * a position and stretched to the sprite's size.
+     *
+     * @param p - p5 instance.
+     * @param position - x- and y-coordinates of the center of the sprite on
+     * the canvas.
+     * @returns `true` if art was drawn, or `false` if the sprite has no art
+     * and should be drawn as a shape instead.
+     */
+    draw(p: p5, position: V2d): boolean {
+        if (!this.hasArt) {
+            return false;
+        }
+
+        p.push();
+        p.translate(position.x, position.y);
+        if (this.animations.get(this._animationName)?.flipX) {
+            p.scale(-1, 1);
+        }
+        if (this.sheet !== undefined) {
+            const origin = this.sheet.frameOrigin(this.frame);
+            p.image(
+                this.sheet.image,
+                -this.centerPoint.x,
+                -this.centerPoint.y,
+                this.size.x,
+                this.size.y,
+                origin.x,
+                origin.y,
+                this.sheet.frameSize.x,
+                this.sheet.frameSize.y
+            );
+        } else {
+            p.image(
+                this.image,
+                -this.centerPoint.x,
+                -this.centerPoint.y,
+                this.size.x,
+                this.size.y
+            );
+        }
+        p.pop();
+        return true;
     }
 }
@@ -0,0 +1,106 @@
+/**
+ * @file Persistent key-value storage.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Represents a store of string values by string keys, such as
+ * {@link window.localStorage}. Implemented separately so that code which saves
+ * data can run when browser storage is unavailable.
+ */
+export interface KeyValueStorage {
+    /**
+     * Gets the value stored under a key.
+     *
+     * @param key - Key of the value.
+     * @returns Stored value, or `null` if no value is stored under the key.
+     */
+    getItem(key: string): string | null;
+
+    /**
+     * Stores a value under a key, replacing any existing value.
+     *
+     * @param key - Key of the value.
+     * @param value - Value to store.
+     */
+    setItem(key: string, value: string): void;
+
+    /**
+     * Removes the value stored under a key, if any.
+     *
+     * @param key - Key of the value.
+     */
+    removeItem(key: string): void;
+}
+
+/**
+ * Storage which only keeps values in memory until the page is closed. Used
+ * when browser storage is unavailable, such as in private browsing, and in
+ * tests.
+ */
+export class MemoryStorage implements KeyValueStorage {
+    /** Stored values by key. */
+    private items = new Map<string, string>();
+
+    /**
+     * Gets the value stored under a key.
+     *
+     * @param key - Key of the value.
+     * @returns Stored value, or `null` if no value is stored under the key.
+     */
+    getItem(key: string): string | null {
+        return this.items.has(key) ? this.items.get(key) : null;
+    }
+
+    /**
+     * Stores a value under a key, replacing any existing value.
+     *
+     * @param key - Key of the value.
+     * @param value - Value to store.
+     */
+    setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    /**
+     * Removes the value stored under a key, if any.
+     *
+     * @param key - Key of the value.
+     */
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+/**
+ * Gets the browser's local storage if it can be written to, or otherwise a new
+ * in-memory storage.
+ *
+ * @returns Storage which persists between sessions where possible.
+ */
+export function createStorage(): KeyValueStorage {
+    const testKey = "catch-game.storage-test";
+    try {
+        const storage = window.localStorage;
+        storage.setItem(testKey, testKey);
+        storage.removeItem(testKey);
+        return storage;
+    } catch {
+        return new MemoryStorage();
+    }
+}
@@ -0,0 +1,434 @@
+/**
+ * @file Animated transitions between scenes.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+import { ColorComponents, fill } from "./color";
+import { V2d } from "./vector";
+
+/**
+ * Maps linear progress through a transition to eased progress.
+ *
+ * @param t - Linear progress, from 0 to 1.
+ * @returns Eased progress, from 0 to 1.
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Provides common easing functions for use with transitions.
+ */
+export class Easing {
+    /**
+     * Constant rate of change.
+     *
+     * @param t - Linear progress, from 0 to 1.
+     * @returns Eased progress, from 0 to 1.
+     */
+    static linear(t: number): number {
+        return t;
+    }
+
+    /**
+     * Starts slowly and accelerates towards the end.
+     *
+     * @param t - Linear progress, from 0 to 1.
+     * @returns Eased progress, from 0 to 1.
+     */
+    static easeIn(t: number): number {
+        return t * t;
+    }
+
+    /**
+     * Starts quickly and decelerates towards the end.
+     *
+     * @param t - Linear progress, from 0 to 1.
+     * @returns Eased progress, from 0 to 1.
+     */
+    static easeOut(t: number): number {
+        return t * (2 - t);
+    }
+
+    /**
+     * Accelerates through the first half and decelerates through the second
+     * half.
+     *
+     * @param t - Linear progress, from 0 to 1.
+     * @returns Eased progress, from 0 to 1.
+     */
+    static easeInOut(t: number): number {
+        return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+    }
+}
+
+/**
+ * Represents an animated effect used to change from one set of scenes to
+ * another. Both sets of scenes are drawn by the transition while it is in
+ * progress.
+ */
+export abstract class Transition {
+    /** Length of the transition in milliseconds. */
+    duration: number;
+
+    /** Function used to ease the progress of the transition. */
+    easing: EasingFunction;
+
+    /**
+     * Creates a new transition.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.duration - Length of the transition in milliseconds.
+     * @param props.easing - Function used to ease the progress of the
+     * transition.
+     * @throws RangeError if the duration is negative or not a number.
+     */
+    constructor({
+        duration = 500,
+        easing = Easing.easeInOut,
+    }: {
+        duration?: number;
+        easing?: EasingFunction;
+    } = {}) {
+        if (!(duration >= 0)) {
+            throw new RangeError(`Invalid transition duration ${duration}`);
+        }
+        this.duration = duration;
+        this.easing = easing;
+    }
+
+    /**
+     * Calculates the linear progress through the transition after a given
+     * time. Transitions without a positive duration are complete immediately.
+     *
+     * @param elapsed - Time in milliseconds since the transition started.
+     * @returns Linear progress, from 0 to 1. The transition is complete once
+     * it reaches 1.
+     */
+    progressAt(elapsed: number): number {
+        if (!(this.duration > 0)) {
+            return 1;
+        }
+        return Math.min(Math.max(elapsed / this.duration, 0), 1);
+    }
+
+    /**
+     * Draws a single frame of the transition onto the canvas.
+     *
+     * @param p - p5 instance.
+     * @param progress - Eased progress through the transition, from 0 to 1.
+     * @param drawFrom - Draws the scenes being transitioned from.
+     * @param drawTo - Draws the scenes being transitioned to.
+     */
+    abstract draw(
+        p: p5,
+        progress: number,
+        drawFrom: () => void,
+        drawTo: () => void
+    ): void;
+}
+
+/**
+ * Edge of the canvas towards which a directional transition moves.
+ */
+export enum TransitionDirection {
+    Left,
+    Right,
+    Up,
+    Down,
+}
+
+/**
+ * Fades the scenes being transitioned from out to a solid color, then fades
+ * the scenes being transitioned to in from the same color.
+ */
+export class FadeTransition extends Transition {
+    /** Color faded to at the midpoint of the transition. */
+    color: ColorComponents;
+
+    /**
+     * Creates a new fade transition.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.color - Color faded to at the midpoint of the transition.
+     * @param props.duration - Length of the transition in milliseconds.
+     * @param props.easing - Function used to ease the progress of the
+     * transition.
+     * @throws RangeError if the duration is negative or not a number.
+     */
+    constructor({
+        color = { red: 0, green: 0, blue: 0 },
+        duration,
+        easing,
+    }: {
+        color?: ColorComponents;
+        duration?: number;
+        easing?: EasingFunction;
+    } = {}) {
+        super({ duration: duration, easing: easing });
+        this.color = color;
+    }
+
+    /**
+     * Draws a single frame of the transition onto the canvas.
+     *
+     * @param p - p5 instance.
+     * @param progress - Eased progress through the transition, from 0 to 1.
+     * @param drawFrom - Draws the scenes being transitioned from.
+     * @param drawTo - Draws the scenes being transitioned to.
+     */
+    draw(
+        p: p5,
+        progress: number,
+        drawFrom: () => void,
+        drawTo: () => void
+    ): void {
+        let opacity: number;
+        if (progress < 0.5) {
+            drawFrom();
+            opacity = progress * 2;
+        } else {
+            drawTo();
+            opacity = (1 - progress) * 2;
+        }
+
+        p.push();
+        p.resetMatrix();
+        p.noStroke();
+        fill(p, { ...this.color, alpha: opacity * 255 });
+        p.rect(0, 0, p.width, p.height);
+        p.pop();
+    }
+}
+
+/**
+ * Draws the scenes being transitioned to over the scenes being transitioned
+ * from with increasing opacity.
+ */
+export class CrossfadeTransition extends Transition {
+    /**
+     * Draws a single frame of the transition onto the canvas.
+     *
+     * @param p - p5 instance.
+     * @param progress - Eased progress through the transition, from 0 to 1.
+     * @param drawFrom - Draws the scenes being transitioned from.
+     * @param drawTo - Draws the scenes being transitioned to.
+     */
+    draw(
+        p: p5,
+        progress: number,
+        drawFrom: () => void,
+        drawTo: () => void
+    ): void {
+        drawFrom();
+
+        // Apply the opacity to every drawing operation made by the scenes.
+        const context = p.drawingContext as CanvasRenderingContext2D;
+        p.push();
+        context.globalAlpha = progress;
+        drawTo();
+        p.pop();
+    }
+}
+
+/**
+ * Moves the scenes being transitioned from off the canvas in the transition
+ * direction while the scenes being transitioned to move in from the opposite
+ * edge.
+ */
+export class SlideTransition extends Transition {
+    /** Edge of the canvas towards which the scenes move. */
+    direction: TransitionDirection;
+
+    /**
+     * Creates a new slide transition.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.direction - Edge of the canvas towards which the scenes
+     * move.
+     * @param props.duration - Length of the transition in milliseconds.
+     * @param props.easing - Function used to ease the progress of the
+     * transition.
+     * @throws RangeError if the duration is negative or not a number.
+     */
+    constructor({
+        direction = TransitionDirection.Left,
+        duration,
+        easing,
+    }: {
+        direction?: TransitionDirection;
+        duration?: number;
+        easing?: EasingFunction;
+    } = {}) {
+        super({ duration: duration, easing: easing });
+        this.direction = direction;
+    }
+
+    /**
+     * Draws a single frame of the transition onto the canvas.
+     *
+     * @param p - p5 instance.
+     * @param progress - Eased progress through the transition, from 0 to 1.
+     * @param drawFrom - Draws the scenes being transitioned from.
+     * @param drawTo - Draws the scenes being transitioned to.
+     */
+    draw(
+        p: p5,
+        progress: number,
+        drawFrom: () => void,
+        drawTo: () => void
+    ): void {
+        const offset = directionVector(this.direction, p.width, p.height);
+        drawRegion(
+            p,
+            offset.x * progress,
+            offset.y * progress,
+            p.width,
+            p.height,
+            drawFrom
+        );
+        drawRegion(
+            p,
+            -offset.x * (1 - progress),
+            -offset.y * (1 - progress),
+            p.width,
+            p.height,
+            drawTo
+        );
+    }
+}
+
+/**
+ * Reveals the scenes being transitioned to behind an edge which moves across
+ * the canvas in the transition direction, without moving either set of
+ * scenes.
+ */
+export class WipeTransition extends Transition {
+    /** Edge of the canvas towards which the wipe moves. */
+    direction: TransitionDirection;
+
+    /**
+     * Creates a new wipe transition.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.direction - Edge of the canvas towards which the wipe
+     * moves.
+     * @param props.duration - Length of the transition in milliseconds.
+     * @param props.easing - Function used to ease the progress of the
+     * transition.
+     * @throws RangeError if the duration is negative or not a number.
+     */
+    constructor({
+        direction = TransitionDirection.Right,
+        duration,
+        easing,
+    }: {
+        direction?: TransitionDirection;
+        duration?: number;
+        easing?: EasingFunction;
+    } = {}) {
+        super({ duration: duration, easing: easing });
+        this.direction = direction;
+    }
+
+    /**
+     * Draws a single frame of the transition onto the canvas.
+     *
+     * @param p - p5 instance.
+     * @param progress - Eased progress through the transition, from 0 to 1.
+     * @param drawFrom - Draws the scenes being transitioned from.
+     * @param drawTo - Draws the scenes being transitioned to.
+     */
+    draw(
+        p: p5,
+        progress: number,
+        drawFrom: () => void,
+        drawTo: () => void
+    ): void {
+        drawFrom();
+
+        // The revealed region starts at the edge opposite the direction.
+        const size = directionVector(this.direction, p.width, p.height);
+        const width = size.x === 0 ? p.width : Math.abs(size.x) * progress;
+        const height = size.y === 0 ? p.height : Math.abs(size.y) * progress;
+        const x = size.x < 0 ? p.width - width : 0;
+        const y = size.y < 0 ? p.height - height : 0;
+        const context = p.drawingContext as CanvasRenderingContext2D;
+        p.push();
+        context.beginPath();
+        context.rect(x, y, width, height);
+        context.clip();
+        drawTo();
+        p.pop();
+    }
+}
+
+/**
+ * Gets the offset across the whole canvas in a given direction.
+ *
+ * @param direction - Direction of the offset.
+ * @param width - Width of the canvas in pixels.
+ * @param height - Height of the canvas in pixels.
+ * @returns x- and y-offset in pixels.
+ */
+function directionVector(
+    direction: TransitionDirection,
+    width: number,
+    height: number
+): V2d {
+    switch (direction) {
+        case TransitionDirection.Left:
+            return { x: -width, y: 0 };
+        case TransitionDirection.Right:
+            return { x: width, y: 0 };
+        case TransitionDirection.Up:
+            return { x: 0, y: -height };
+        case TransitionDirection.Down:
+            return { x: 0, y: height };
+    }
+}
+
+/**
+ * Draws scenes translated by an offset and clipped to the translated bounds of
+ * the canvas, so that backgrounds drawn without the current transformation do
+ * not cover the rest of the canvas.
+ *
+ * @param p - p5 instance.
+ * @param x - x-offset in pixels.
+ * @param y - y-offset in pixels.
+ * @param width - Width of the canvas in pixels.
+ * @param height - Height of the canvas in pixels.
+ * @param drawScenes - Draws the scenes.
+ */
+function drawRegion(
+    p: p5,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    drawScenes: () => void
+): void {
+    const context = p.drawingContext as CanvasRenderingContext2D;
+    p.push();
+    context.beginPath();
+    context.rect(x, y, width, height);
+    context.clip();
+    p.translate(x, y);
+    drawScenes();
+    p.pop();
+}
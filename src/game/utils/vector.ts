@@ -25,3 +25,14 @@ export interface V2d {
     x: number;
     y: number;
 }
+
+/**
+ * Represents an axis-aligned rectangle by its corners.
+ */
+export interface Rect {
+    /** Corner with the smallest x- and y-coordinates. */
+    min: V2d;
+
+    /** Corner with the largest x- and y-coordinates. */
+    max: V2d;
+}
@@ -0,0 +1,41 @@
+/**
+ * @file World context for simulation updates.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { V2d } from "./vector";
+
+/**
+ * Represents the context in which game logic is simulated, independently of
+ * the p5 instance used to draw the game and receive input. Passed to entities
+ * and simulations on each update.
+ */
+export interface World {
+    /** Game time in milliseconds which passed since the last update. */
+    deltaTime: number;
+
+    /** Width (x) and height (y) of the world in pixels. */
+    bounds: V2d;
+
+    /**
+     * Source of pseudo-random numbers.
+     *
+     * @returns Number from 0 (inclusive) to 1 (exclusive).
+     */
+    random: () => number;
+}
@@ -0,0 +1,140 @@
+/**
+ * @file Tests for the asset manager.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+
+import {
+    AssetLoader,
+    AssetManager,
+    loadAudio,
+} from "@game/assets/asset-manager";
+import { AssetEntry, AssetType } from "@game/assets/manifest";
+
+/**
+ * Creates a loader which resolves every file with its own path, except for
+ * the given failing paths, which are rejected.
+ */
+function createLoader(failing: string[] = []): AssetLoader {
+    return {
+        load: (entry: AssetEntry) =>
+            failing.includes(entry.path)
+                ? Promise.reject(new Error("not found"))
+                : Promise.resolve(entry.path),
+        placeholder: (type: AssetType) => `placeholder ${type}`,
+    };
+}
+
+/** Creates an element which only dispatches the events given to it. */
+function createAudio(): HTMLAudioElement {
+    return Object.assign(new EventTarget(), {
+        preload: "none",
+        src: "",
+    }) as unknown as HTMLAudioElement;
+}
+
+describe("AssetManager", () => {
+    it("loads every asset in the manifest", async () => {
+        const assets = new AssetManager({ loader: createLoader() });
+        expect(assets.progress).toBe(0);
+        expect(assets.status("level1")).toBe("pending");
+
+        await assets.load();
+        expect(assets.isComplete).toBe(true);
+        expect(assets.progress).toBe(1);
+        expect(assets.status("level1")).toBe("loaded");
+        expect(assets.get("level1")).toBe("levels/level-1.json");
+    });
+
+    it("only loads each asset once", async () => {
+        const loader = createLoader();
+        const load = vi.spyOn(loader, "load");
+        const assets = new AssetManager({ loader: loader });
+        await Promise.all([assets.load(), assets.load()]);
+        expect(load).toHaveBeenCalledTimes(assets.total);
+    });
+
+    it("replaces assets which fail with placeholders", async () => {
+        const error = vi
+            .spyOn(console, "error")
+            .mockImplementation(() => undefined);
+        const assets = new AssetManager({
+            loader: createLoader(["images/bg.png"]),
+        });
+        await assets.load();
+        expect(assets.isComplete).toBe(true);
+        expect(assets.failedKeys).toEqual(["background"]);
+        expect(assets.get("background")).toBe("placeholder image");
+        expect(assets.get("level2")).toBe("levels/level-2.json");
+        expect(error).toHaveBeenCalledOnce();
+        error.mockRestore();
+    });
+
+    it("hands out placeholders before loading", () => {
+        const assets = new AssetManager({ loader: createLoader() });
+        expect(assets.get("level1")).toBe("placeholder json");
+    });
+});
+
+describe("loadAudio", () => {
+    it("resolves once the first frame has loaded", async () => {
+        const audio = createAudio();
+        const loaded = loadAudio(audio, "sounds/catch.wav");
+        expect(audio.src).toBe("sounds/catch.wav");
+        audio.dispatchEvent(new Event("loadeddata"));
+        await expect(loaded).resolves.toBe(audio);
+    });
+
+    it("rejects if the file fails to load", async () => {
+        const audio = createAudio();
+        const loaded = loadAudio(audio, "sounds/catch.wav");
+        audio.dispatchEvent(new Event("error"));
+        await expect(loaded).rejects.toBeInstanceOf(Event);
+    });
+
+    it("rejects if the file does not load in time", async () => {
+        vi.useFakeTimers();
+        try {
+            const audio = createAudio();
+            const loaded = loadAudio(audio, "sounds/catch.wav", 1000);
+            vi.advanceTimersByTime(999);
+            audio.dispatchEvent(new Event("canplaythrough"));
+            await expect(loaded).resolves.toBe(audio);
+
+            const stalled = loadAudio(createAudio(), "sounds/miss.wav", 1000);
+            vi.advanceTimersByTime(1000);
+            await expect(stalled).rejects.toThrow("Timed out");
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("removes its listeners once settled", async () => {
+        const audio = createAudio();
+        const remove = vi.spyOn(audio, "removeEventListener");
+        const loaded = loadAudio(audio, "sounds/catch.wav");
+        audio.dispatchEvent(new Event("loadeddata"));
+        await loaded;
+        expect(remove.mock.calls.map(([type]) => type).sort()).toEqual([
+            "canplaythrough",
+            "error",
+            "loadeddata",
+        ]);
+    });
+});
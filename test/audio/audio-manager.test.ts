@@ -0,0 +1,139 @@
+/**
+ * @file Tests for the audio manager.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { AssetKey } from "@game/assets/manifest";
+import { AudioBackend, AudioVoice } from "@game/audio/audio-backend";
+import { AudioManager } from "@game/audio/audio-manager";
+
+/** Sound started by a {@link RecordingBackend}. */
+interface RecordedVoice extends AudioVoice {
+    key: AssetKey;
+    volume: number;
+    loop: boolean;
+    isStopped: boolean;
+}
+
+/** Backend which records the sounds played instead of playing them. */
+class RecordingBackend implements AudioBackend {
+    voices: RecordedVoice[] = [];
+
+    play(
+        key: AssetKey,
+        { volume, loop }: { volume: number; loop: boolean }
+    ): AudioVoice {
+        const voice: RecordedVoice = {
+            key: key,
+            volume: volume,
+            loop: loop,
+            isStopped: false,
+            setVolume: (newVolume) => {
+                voice.volume = newVolume;
+            },
+            stop: () => {
+                voice.isStopped = true;
+            },
+        };
+        this.voices.push(voice);
+        return voice;
+    }
+}
+
+describe("AudioManager", () => {
+    it("plays sound effects at the master and effect volumes", () => {
+        const backend = new RecordingBackend();
+        const audio = new AudioManager({ backend: backend });
+        audio.masterVolume = 0.5;
+        audio.sfxVolume = 0.5;
+        audio.playSound("catch");
+        expect(backend.voices).toMatchObject([
+            { key: "catchSound", volume: 0.25, loop: false },
+        ]);
+    });
+
+    it("plays nothing while muted", () => {
+        const backend = new RecordingBackend();
+        const audio = new AudioManager({ backend: backend });
+        audio.isMuted = true;
+        audio.playSound("jump");
+        expect(backend.voices).toEqual([]);
+    });
+
+    it("crossfades between music tracks", () => {
+        const backend = new RecordingBackend();
+        const audio = new AudioManager({
+            backend: backend,
+            crossfadeDuration: 1000,
+        });
+        audio.playMusic("menu");
+        audio.update(1000);
+        const [menu] = backend.voices;
+        expect(menu).toMatchObject({ key: "menuMusic", volume: 1, loop: true });
+
+        audio.playMusic("game");
+        audio.update(250);
+        const game = backend.voices[1];
+        expect(menu.volume).toBeCloseTo(0.75);
+        expect(game.volume).toBeCloseTo(0.25);
+        expect(audio.currentMusic).toBe("game");
+
+        audio.update(750);
+        expect(menu.isStopped).toBe(true);
+        expect(game.volume).toBeCloseTo(1);
+    });
+
+    it("keeps playing a track which is played again", () => {
+        const backend = new RecordingBackend();
+        const audio = new AudioManager({ backend: backend });
+        audio.playMusic("game");
+        audio.playMusic("game");
+        expect(backend.voices.length).toBe(1);
+    });
+
+    it("fades a track back in if it was fading out", () => {
+        const backend = new RecordingBackend();
+        const audio = new AudioManager({ backend: backend });
+        audio.playMusic("menu");
+        audio.update(1000);
+        audio.playMusic(undefined);
+        audio.update(500);
+        audio.playMusic("menu");
+        audio.update(500);
+        expect(backend.voices.length).toBe(1);
+        expect(backend.voices[0].volume).toBeCloseTo(1);
+    });
+
+    it("applies volume changes to music immediately", () => {
+        const backend = new RecordingBackend();
+        const audio = new AudioManager({
+            backend: backend,
+            crossfadeDuration: 0,
+        });
+        audio.playMusic("menu");
+        audio.musicVolume = 0.4;
+        expect(backend.voices[0].volume).toBeCloseTo(0.4);
+        audio.isMuted = true;
+        expect(backend.voices[0].volume).toBe(0);
+        audio.isMuted = false;
+        audio.masterVolume = 2;
+        expect(backend.voices[0].volume).toBeCloseTo(0.4);
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * @file Tests for the HUD layout.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { HudAnchor, HudLayout, HudWidget } from "@game/drawable/hud-layout";
+import { V2d } from "@game/utils/vector";
+import { FakeP5 } from "../support/fake-p5";
+
+/** Widget of a fixed size which records the positions it is drawn at. */
+class FixedWidget implements HudWidget {
+    position: V2d = { x: 0, y: 0 };
+    size: V2d;
+    isVisible = true;
+    drawnAt: V2d[] = [];
+
+    /**
+     * Creates a widget of the given size.
+     *
+     * @param size - Width and height in pixels.
+     */
+    constructor(size: V2d) {
+        this.size = size;
+    }
+
+    /** Records the position of the widget. */
+    draw(): void {
+        this.drawnAt.push({ ...this.position });
+    }
+}
+
+describe("HudLayout", () => {
+    it("places widgets at each anchor within the margin", () => {
+        const layout = new HudLayout({ margin: 10 });
+        const widgets = new Map<HudAnchor, FixedWidget>();
+        [
+            HudAnchor.TopLeft,
+            HudAnchor.Top,
+            HudAnchor.TopRight,
+            HudAnchor.Left,
+            HudAnchor.Center,
+            HudAnchor.Right,
+            HudAnchor.BottomLeft,
+            HudAnchor.Bottom,
+            HudAnchor.BottomRight,
+        ].forEach((anchor) => {
+            const widget = new FixedWidget({ x: 100, y: 40 });
+            widgets.set(anchor, widget);
+            layout.add(widget, anchor);
+        });
+        layout.layout({ x: 800, y: 600 });
+
+        const positions = (anchors: HudAnchor[]) =>
+            anchors.map((anchor) => widgets.get(anchor).position);
+        expect(
+            positions([HudAnchor.TopLeft, HudAnchor.Top, HudAnchor.TopRight])
+        ).toEqual([
+            { x: 10, y: 10 },
+            { x: 350, y: 10 },
+            { x: 690, y: 10 },
+        ]);
+        expect(
+            positions([HudAnchor.Left, HudAnchor.Center, HudAnchor.Right])
+        ).toEqual([
+            { x: 10, y: 280 },
+            { x: 350, y: 280 },
+            { x: 690, y: 280 },
+        ]);
+        expect(
+            positions([
+                HudAnchor.BottomLeft,
+                HudAnchor.Bottom,
+                HudAnchor.BottomRight,
+            ])
+        ).toEqual([
+            { x: 10, y: 550 },
+            { x: 350, y: 550 },
+            { x: 690, y: 550 },
+        ]);
+    });
+
+    it("stacks widgets at an anchor in order with spacing", () => {
+        const layout = new HudLayout({ margin: 8, spacing: 4 });
+        const score = new FixedWidget({ x: 120, y: 24 });
+        const combo = new FixedWidget({ x: 80, y: 30 });
+        layout.add(score, HudAnchor.TopRight);
+        layout.add(combo, HudAnchor.TopRight);
+        const bar = new FixedWidget({ x: 200, y: 20 });
+        const label = new FixedWidget({ x: 100, y: 10 });
+        layout.add(bar, HudAnchor.Bottom);
+        layout.add(label, HudAnchor.Bottom);
+        layout.layout({ x: 800, y: 600 });
+
+        expect(score.position).toEqual({ x: 672, y: 8 });
+        expect(combo.position).toEqual({ x: 712, y: 36 });
+        expect(bar.position).toEqual({ x: 300, y: 558 });
+        expect(label.position).toEqual({ x: 350, y: 582 });
+    });
+
+    it("leaves no gap for hidden widgets", () => {
+        const layout = new HudLayout({ margin: 0, spacing: 5 });
+        const hidden = new FixedWidget({ x: 50, y: 50 });
+        const shown = new FixedWidget({ x: 50, y: 20 });
+        layout.add(hidden, HudAnchor.TopLeft);
+        layout.add(shown, HudAnchor.TopLeft);
+        hidden.isVisible = false;
+
+        const p = new FakeP5();
+        layout.draw(p.asP5());
+        expect(hidden.drawnAt).toEqual([]);
+        expect(shown.drawnAt).toEqual([{ x: 0, y: 0 }]);
+    });
+
+    it("moves widgets and lays them out again when the canvas resizes", () => {
+        const layout = new HudLayout({ margin: 0 });
+        const widget = new FixedWidget({ x: 100, y: 20 });
+        layout.add(widget, HudAnchor.TopLeft);
+        layout.add(widget, HudAnchor.BottomRight);
+
+        layout.draw(new FakeP5({ width: 800, height: 600 }).asP5());
+        layout.draw(new FakeP5({ width: 400, height: 300 }).asP5());
+        expect(widget.drawnAt).toEqual([
+            { x: 700, y: 580 },
+            { x: 300, y: 280 },
+        ]);
+    });
+
+    it("stops placing removed widgets", () => {
+        const layout = new HudLayout();
+        const widget = new FixedWidget({ x: 100, y: 20 });
+        layout.add(widget, HudAnchor.Center);
+        layout.remove(widget);
+        layout.draw(new FakeP5().asP5());
+        expect(widget.drawnAt).toEqual([]);
+    });
+});
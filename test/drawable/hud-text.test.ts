@@ -0,0 +1,111 @@
+/**
+ * @file Tests for the HUD text drawable.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FontMetadata } from "@game/utils/font";
+import { HudAlignment, HudText } from "@game/drawable/hud-text";
+import { FakeP5 } from "../support/fake-p5";
+import { stubTextWidth } from "../support/measurement";
+
+/**
+ * Creates a HUD with a 6-character label and the given alignment.
+ *
+ * @param alignment - Horizontal text alignment mode.
+ * @param x - Starting x-coordinate on the canvas in pixels.
+ * @returns New HUD text.
+ */
+function createHudText(alignment: HudAlignment, x: number): HudText {
+    const font = new FontMetadata({
+        weight: "normal",
+        size: 24,
+        family: "sans-serif",
+    });
+    return new HudText({
+        x: x,
+        y: 0,
+        hMargin: 8,
+        vMargin: 4,
+        alignment: alignment,
+        labelStr: "Score ",
+        labelFont: font,
+        labelFillColor: { red: 255, green: 255, blue: 255 },
+    });
+}
+
+describe("HudText.draw", () => {
+    beforeEach(() => {
+        stubTextWidth();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("draws left-aligned text after the margin and the label", () => {
+        const p = new FakeP5();
+        const hudText = createHudText(HudAlignment.Left, 0);
+        hudText.setValueText("42");
+        hudText.draw(p.asP5());
+
+        expect(p.callsTo("textAlign")).toEqual([["left"]]);
+        expect(p.callsTo("text")).toEqual([
+            ["Score ", 8, 28],
+            ["42", 68, 28],
+        ]);
+    });
+
+    it("draws right-aligned text before the margin and the value", () => {
+        const p = new FakeP5();
+        const hudText = createHudText(HudAlignment.Right, p.width);
+        hudText.setValueText("42");
+        hudText.draw(p.asP5());
+
+        expect(p.callsTo("textAlign")).toEqual([["right"]]);
+        expect(p.callsTo("text")).toEqual([
+            ["Score ", 772, 28],
+            ["42", 792, 28],
+        ]);
+    });
+
+    it("does not draw an empty value", () => {
+        const p = new FakeP5();
+        const hudText = createHudText(HudAlignment.Left, 0);
+        hudText.draw(p.asP5());
+
+        expect(p.callsTo("text")).toEqual([["Score ", 8, 28]]);
+    });
+
+    it("fills the label and value with the colors last set", () => {
+        const p = new FakeP5();
+        const hudText = createHudText(HudAlignment.Left, 0);
+        hudText.setValueText("42");
+        hudText.setFillColor(
+            { red: 255, green: 255, blue: 0 },
+            { red: 0, green: 255, blue: 255 }
+        );
+        hudText.draw(p.asP5());
+
+        expect(p.callsTo("fill")).toEqual([
+            [255, 255, 0, undefined],
+            [0, 255, 255, undefined],
+        ]);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * @file Tests for the HUD widgets.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+    ComboMeter,
+    CountdownTimer,
+    LivesRow,
+    PowerUpBar,
+} from "@game/drawable/hud-widgets";
+import { HudText } from "@game/drawable/hud-text";
+import { FontMetadata } from "@game/utils/font";
+import { FakeP5 } from "../support/fake-p5";
+import { stubTextWidth } from "../support/measurement";
+
+/** Font with a size of 20 pixels. */
+const font = new FontMetadata({
+    weight: "normal",
+    size: 20,
+    family: "sans-serif",
+});
+
+/** White fill color. */
+const white = { red: 255, green: 255, blue: 255 };
+
+describe("HUD widgets", () => {
+    beforeEach(() => {
+        stubTextWidth();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("measures HUD text as its label and value together", () => {
+        const text = new HudText({
+            labelStr: "Score ",
+            labelFont: font,
+            labelFillColor: white,
+        });
+        text.setValueText("42");
+        expect(text.size).toEqual({ x: 80, y: 20 });
+    });
+
+    it("draws an icon for each life, including lost lives", () => {
+        const livesRow = new LivesRow({
+            iconSize: 20,
+            spacing: 5,
+            fillColor: white,
+            emptyColor: { red: 0, green: 0, blue: 0 },
+        });
+        expect(livesRow.isVisible).toBe(false);
+
+        livesRow.lives = 1;
+        livesRow.maxLives = 3;
+        livesRow.position = { x: 10, y: 10 };
+        expect(livesRow.size).toEqual({ x: 70, y: 20 });
+
+        const p = new FakeP5();
+        livesRow.draw(p.asP5());
+        expect(p.callsTo("ellipse")).toEqual([
+            [20, 20, 20],
+            [45, 20, 20],
+            [70, 20, 20],
+        ]);
+        expect(p.callsTo("fill")).toEqual([
+            [255, 255, 255, undefined],
+            [0, 0, 0, undefined],
+            [0, 0, 0, undefined],
+        ]);
+    });
+
+    it("shows the time left in minutes and whole seconds", () => {
+        const countdown = new CountdownTimer({ font: font, fillColor: white });
+        expect(countdown.isVisible).toBe(false);
+
+        countdown.remaining = 65000;
+        expect(countdown.text).toBe("1:05");
+        countdown.remaining = 9001;
+        expect(countdown.text).toBe("0:10");
+        countdown.remaining = -500;
+        expect(countdown.text).toBe("0:00");
+        expect(countdown.size).toEqual({ x: 40, y: 20 });
+    });
+
+    it("uses the warning color once time is running out", () => {
+        const countdown = new CountdownTimer({
+            font: font,
+            fillColor: white,
+            warningColor: { red: 255, green: 0, blue: 0 },
+            warningTime: 5000,
+        });
+        const p = new FakeP5();
+        countdown.remaining = 6000;
+        countdown.draw(p.asP5());
+        countdown.remaining = 4000;
+        countdown.draw(p.asP5());
+        expect(p.callsTo("fill")).toEqual([
+            [255, 255, 255, undefined],
+            [255, 0, 0, undefined],
+        ]);
+    });
+
+    it("fills the combo meter as the combo grows", () => {
+        const meter = new ComboMeter({
+            font: font,
+            fillColor: white,
+            barWidth: 100,
+            barHeight: 6,
+            gap: 4,
+        });
+        meter.combo = 1;
+        expect(meter.isVisible).toBe(false);
+
+        meter.combo = 4;
+        expect(meter.isVisible).toBe(true);
+        expect(meter.size).toEqual({ x: 100, y: 30 });
+
+        const p = new FakeP5();
+        meter.draw(p.asP5());
+        expect(p.callsTo("text")).toEqual([["Combo x4", 0, 20]]);
+        expect(p.callsTo("rect")).toEqual([
+            [0, 24, 100, 6],
+            [0, 24, 40, 6],
+        ]);
+
+        meter.combo = 25;
+        const full = new FakeP5();
+        meter.draw(full.asP5());
+        expect(full.callsTo("rect")[1]).toEqual([0, 24, 100, 6]);
+    });
+
+    it("empties the power-up bar as the power-up runs out", () => {
+        const bar = new PowerUpBar({
+            font: font,
+            fillColor: white,
+            barWidth: 200,
+        });
+        bar.name = "Slow motion";
+        expect(bar.isVisible).toBe(false);
+
+        bar.duration = 5000;
+        bar.remaining = 1250;
+        expect(bar.isVisible).toBe(true);
+
+        // The label is wider than the bar.
+        bar.barWidth = 100;
+        expect(bar.size.x).toBe(110);
+
+        const p = new FakeP5();
+        bar.draw(p.asP5());
+        expect(p.callsTo("rect")[1]).toEqual([0, 24, 25, 6]);
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * @file Tests for the menu list.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MenuItem, MenuList } from "@game/drawable/menu-list";
+import { FontMetadata } from "@game/utils/font";
+import { FakeP5 } from "../support/fake-p5";
+import { stubTextWidth } from "../support/measurement";
+
+/**
+ * Creates a list of the given items with a 20 pixel font and 10 pixels
+ * between items, so that each item is 30 pixels tall, centered at x = 400.
+ *
+ * @param items - Items of the top menu.
+ * @returns New menu list.
+ */
+function createMenuList(items: MenuItem[]): MenuList {
+    return new MenuList({
+        items: items,
+        position: { x: 400, y: 100 },
+        font: new FontMetadata({
+            weight: "normal",
+            size: 20,
+            family: "sans-serif",
+        }),
+        spacing: 10,
+    });
+}
+
+describe("MenuList", () => {
+    beforeEach(() => {
+        stubTextWidth();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("selects the first enabled item", () => {
+        const menuList = createMenuList([
+            { label: "Title", disabled: true },
+            { label: "Start" },
+        ]);
+        expect(menuList.selectedIndex).toBe(1);
+        expect(menuList.selectedItem.label).toBe("Start");
+    });
+
+    it("wraps the selection around and skips disabled items", () => {
+        const menuList = createMenuList([
+            { label: "Start" },
+            { label: "Mode", disabled: true },
+            { label: "Settings" },
+        ]);
+        menuList.moveSelection(1);
+        expect(menuList.selectedIndex).toBe(2);
+        menuList.moveSelection(1);
+        expect(menuList.selectedIndex).toBe(0);
+        menuList.moveSelection(-1);
+        expect(menuList.selectedIndex).toBe(2);
+    });
+
+    it("keeps the selection if no other item is enabled", () => {
+        const menuList = createMenuList([
+            { label: "Start" },
+            { label: "Mode", disabled: true },
+        ]);
+        menuList.moveSelection(1);
+        expect(menuList.selectedIndex).toBe(0);
+
+        const disabled = createMenuList([{ label: "Mode", disabled: true }]);
+        disabled.moveSelection(1);
+        expect(disabled.selectedIndex).toBe(-1);
+        expect(disabled.activate()).toBe(false);
+    });
+
+    it("runs the callback of the activated item", () => {
+        const select = vi.fn();
+        const menuList = createMenuList([{ label: "Start", select: select }]);
+        expect(menuList.activate()).toBe(true);
+        expect(select).toHaveBeenCalledOnce();
+    });
+
+    it("does not activate or change a disabled item", () => {
+        const item: MenuItem = {
+            label: "Start",
+            select: vi.fn(),
+            change: vi.fn(),
+        };
+        const menuList = createMenuList([item]);
+        item.disabled = true;
+        expect(menuList.activate()).toBe(false);
+        expect(menuList.change(1)).toBe(false);
+        expect(item.select).not.toHaveBeenCalled();
+        expect(item.change).not.toHaveBeenCalled();
+    });
+
+    it("passes the direction of a change to the selected item", () => {
+        const change = vi.fn();
+        const menuList = createMenuList([{ label: "Mode", change: change }]);
+        expect(menuList.change(-1)).toBe(true);
+        expect(change).toHaveBeenCalledWith(-1);
+    });
+
+    it("opens submenus in place of the list until going back", () => {
+        const menuList = createMenuList([
+            { label: "Start" },
+            {
+                label: "Credits",
+                submenu: [
+                    { label: "Author", disabled: true },
+                    { label: "Back" },
+                ],
+            },
+        ]);
+        menuList.moveSelection(1);
+        menuList.activate();
+        expect(menuList.depth).toBe(1);
+        expect(menuList.items.map((item) => item.label)).toEqual([
+            "Author",
+            "Back",
+        ]);
+        expect(menuList.selectedIndex).toBe(1);
+
+        expect(menuList.back()).toBe(true);
+        expect(menuList.depth).toBe(0);
+        expect(menuList.selectedItem.label).toBe("Credits");
+        expect(menuList.back()).toBe(false);
+    });
+
+    it("closes submenus and selects the first item when reset", () => {
+        const menuList = createMenuList([
+            { label: "Start" },
+            { label: "Mode", submenu: [{ label: "Endless" }] },
+        ]);
+        menuList.moveSelection(1);
+        menuList.activate();
+        menuList.reset();
+        expect(menuList.depth).toBe(0);
+        expect(menuList.selectedIndex).toBe(0);
+    });
+
+    it("finds the item under a point", () => {
+        // "Start" is 50 pixels wide and "Settings" is 80 pixels wide.
+        const menuList = createMenuList([
+            { label: "Start" },
+            { label: "Settings" },
+        ]);
+        expect(menuList.itemAt({ x: 400, y: 110 })).toBe(0);
+        expect(menuList.itemAt({ x: 360, y: 140 })).toBe(1);
+        expect(menuList.itemAt({ x: 370, y: 110 })).toBe(-1);
+        expect(menuList.itemAt({ x: 400, y: 170 })).toBe(-1);
+    });
+
+    it("selects and activates enabled items under the pointer", () => {
+        const select = vi.fn();
+        const menuList = createMenuList([
+            { label: "Start" },
+            { label: "Mode", disabled: true, select: select },
+            { label: "Settings", select: select },
+        ]);
+        menuList.pointerMoved({ x: 400, y: 140 });
+        expect(menuList.selectedIndex).toBe(0);
+        menuList.pointerMoved({ x: 400, y: 170 });
+        expect(menuList.selectedIndex).toBe(2);
+
+        expect(menuList.pointerPressed({ x: 400, y: 140 })).toBe(false);
+        expect(menuList.pointerPressed({ x: 400, y: 170 })).toBe(true);
+        expect(select).toHaveBeenCalledOnce();
+    });
+
+    it("draws each item below the last, highlighting the selection", () => {
+        const p = new FakeP5();
+        const menuList = createMenuList([
+            { label: "Start" },
+            { label: "Mode", change: () => undefined },
+            { label: "Credits", disabled: true },
+        ]);
+        menuList.moveSelection(1);
+        menuList.draw(p.asP5());
+
+        expect(p.callsTo("text")).toEqual([
+            ["Start", 400, 120],
+            ["< Mode >", 400, 150],
+            ["Credits", 400, 180],
+        ]);
+        expect(p.callsTo("fill")).toEqual([
+            [255, 255, 255, undefined],
+            [255, 215, 0, undefined],
+            [128, 128, 128, undefined],
+        ]);
+        expect(p.callsTo("textStyle")).toEqual([
+            ["normal"],
+            ["bold"],
+            ["normal"],
+        ]);
+    });
+});
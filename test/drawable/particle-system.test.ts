@@ -0,0 +1,111 @@
+/**
+ * @file Tests for the particle system.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    ParticleEffect,
+    ParticleEffects,
+    ParticleSystem,
+} from "@game/drawable/particle-system";
+import { FakeP5 } from "../support/fake-p5";
+
+/** Effect with fixed values, so that particles move predictably. */
+const effect: ParticleEffect = {
+    count: 4,
+    shape: { type: "point" },
+    lifetime: { min: 100, max: 100 },
+    speed: { min: 1, max: 1 },
+    direction: 0,
+    spread: 0,
+    gravity: 0.01,
+    size: { start: 10, end: 0 },
+    colors: [
+        { red: 0, green: 0, blue: 0 },
+        { red: 200, green: 100, blue: 0 },
+    ],
+    alpha: { start: 255, end: 55 },
+};
+
+describe("ParticleSystem", () => {
+    it("moves particles by their velocity and gravity", () => {
+        const particles = new ParticleSystem();
+        particles.emit(effect, { x: 10, y: 20 });
+        particles.update(10);
+
+        const p = new FakeP5();
+        particles.draw(p.asP5());
+        const [x, y] = p.callsTo("ellipse")[0];
+        expect(x).toBeCloseTo(20);
+        expect(y).toBeCloseTo(21);
+    });
+
+    it("blends color, alpha and size over each particle's life", () => {
+        const particles = new ParticleSystem();
+        particles.emit(effect, { x: 0, y: 0 });
+        particles.update(50);
+
+        const p = new FakeP5();
+        particles.draw(p.asP5());
+        expect(p.callsTo("fill")[0]).toEqual([100, 50, 0, 155]);
+        expect(p.callsTo("ellipse")[0].slice(2)).toEqual([5, 5]);
+    });
+
+    it("uses colors passed when emitting in place of the effect's", () => {
+        const particles = new ParticleSystem();
+        particles.emit(effect, { x: 0, y: 0 }, [{ red: 1, green: 2, blue: 3 }]);
+
+        const p = new FakeP5();
+        particles.draw(p.asP5());
+        expect(p.callsTo("fill")[0]).toEqual([1, 2, 3, 255]);
+    });
+
+    it("pools particles once their lifetime ends", () => {
+        const particles = new ParticleSystem();
+        particles.emit(effect, { x: 0, y: 0 });
+        expect(particles.activeCount).toBe(4);
+        particles.update(100);
+        expect(particles.activeCount).toBe(0);
+        expect(particles.pooledCount).toBe(4);
+
+        particles.emit(effect, { x: 0, y: 0 });
+        expect(particles.activeCount).toBe(4);
+        expect(particles.pooledCount).toBe(0);
+    });
+
+    it("creates no more than the maximum number of particles", () => {
+        const particles = new ParticleSystem({ maxParticles: 6 });
+        particles.emit(effect, { x: 0, y: 0 });
+        particles.emit(effect, { x: 0, y: 0 });
+        expect(particles.activeCount).toBe(6);
+    });
+
+    it("spreads particles within the emitter shape", () => {
+        const particles = new ParticleSystem({ random: () => 1 });
+        particles.emit(ParticleEffects.missSplash, { x: 100, y: 100 });
+
+        const p = new FakeP5();
+        particles.draw(p.asP5());
+        p.callsTo("ellipse").forEach(([x, y]) => {
+            expect(x).toBe(120);
+            expect(y).toBe(100);
+        });
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * @file Tests for the player class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { Player, PlayerAnimationState } from "@game/entities/player";
+import { createWorld } from "../support/world";
+
+/**
+ * Creates a player with the movement properties used by the game.
+ *
+ * @returns New player.
+ */
+function createPlayer(): Player {
+    const player = new Player();
+    player.sprite.size = { x: 200, y: 200 };
+    player.accelerationModifier = { x: 1, y: 0.4 };
+    player.decelerationModifier = { x: 0.0075, y: 0.005 };
+    player.maxSpeed = { x: 0.75, y: 2 };
+    return player;
+}
+
+describe("Player.calcAxisVelocity", () => {
+    const calcAxisVelocity = Player["calcAxisVelocity"];
+
+    it("accelerates and then decelerates over the world's delta time", () => {
+        const velocity = calcAxisVelocity(createWorld({ deltaTime: 10 }), {
+            currentVelocity: 0.5,
+            acceleration: 0.01,
+            decelerationModifier: 0.005,
+        });
+        expect(velocity).toBeCloseTo((0.5 + 10 * 0.01) * (1 - 10 * 0.005));
+    });
+
+    it("snaps velocities below the deceleration modifier to zero", () => {
+        const world = createWorld({ deltaTime: 1 });
+        const props = { acceleration: 0, decelerationModifier: 0.01 };
+        expect(
+            calcAxisVelocity(world, { currentVelocity: 0.005, ...props })
+        ).toBe(0);
+        expect(
+            calcAxisVelocity(world, { currentVelocity: -0.005, ...props })
+        ).toBe(0);
+        expect(
+            calcAxisVelocity(world, { currentVelocity: 0.5, ...props })
+        ).not.toBe(0);
+    });
+});
+
+describe("Player.update", () => {
+    it("clamps the velocity to the maximum speed", () => {
+        const world = createWorld({ deltaTime: 100, width: 100000 });
+        const player = createPlayer();
+        player.reset(world.bounds);
+        player.inputDirection.right = true;
+        for (let i = 0; i < 10; ++i) {
+            player.update(world);
+            expect(player.velocity.x).toBeLessThanOrEqual(player.maxSpeed.x);
+        }
+        expect(player.velocity.x).toBe(player.maxSpeed.x);
+
+        player.inputDirection = { left: true, right: false };
+        for (let i = 0; i < 10; ++i) {
+            player.update(world);
+        }
+        expect(player.velocity.x).toBe(-player.maxSpeed.x);
+    });
+
+    it("keeps the player inside the world bounds", () => {
+        const world = createWorld({ deltaTime: 100 });
+        const player = createPlayer();
+        player.reset(world.bounds);
+        player.inputDirection.left = true;
+        player.update(world);
+        expect(player.position.x).toBe(player.sprite.centerPoint.x);
+        expect(player.position.y).toBe(
+            world.bounds.y - player.sprite.centerPoint.y
+        );
+    });
+
+    it("rises while jumping and lands back on the ground", () => {
+        const world = createWorld();
+        const player = createPlayer();
+        player.reset(world.bounds);
+        const ground = player.position.y;
+
+        player.isJumping = true;
+        player.update(world);
+        player.isJumping = false;
+        expect(player.velocity.y).toBeLessThan(0);
+
+        let highest = ground;
+        for (let i = 0; i < 1000; ++i) {
+            player.update(world);
+            highest = Math.min(highest, player.position.y);
+        }
+        expect(highest).toBeLessThan(ground);
+        expect(player.position.y).toBe(ground);
+    });
+});
+
+describe("Player.animationState", () => {
+    it("follows the player's movement", () => {
+        const world = createWorld({ width: 2000 });
+        const player = createPlayer();
+        player.reset(world.bounds);
+        player.update(world);
+        expect(player.animationState).toBe(PlayerAnimationState.Idle);
+
+        player.inputDirection.right = true;
+        player.update(world);
+        expect(player.animationState).toBe(PlayerAnimationState.RunRight);
+
+        player.inputDirection = { left: true, right: false };
+        for (let i = 0; i < 10; ++i) {
+            player.update(world);
+        }
+        expect(player.animationState).toBe(PlayerAnimationState.RunLeft);
+
+        player.inputDirection.left = false;
+        player.isJumping = true;
+        player.update(world);
+        expect(player.animationState).toBe(PlayerAnimationState.Rise);
+
+        player.isJumping = false;
+        while (player.animationState === PlayerAnimationState.Rise) {
+            player.update(world);
+        }
+        expect(player.animationState).toBe(PlayerAnimationState.Fall);
+    });
+
+    it("plays the animation for the state when the sprite has one", () => {
+        const world = createWorld();
+        const player = createPlayer();
+        const animation = { frames: [0], frameRate: 1, loop: false };
+        player.sprite.animations.set(PlayerAnimationState.Idle, animation);
+        player.sprite.animations.set(PlayerAnimationState.Rise, animation);
+        player.reset(world.bounds);
+        expect(player.sprite.animationName).toBe(PlayerAnimationState.Idle);
+
+        player.isJumping = true;
+        player.update(world);
+        expect(player.sprite.animationName).toBe(PlayerAnimationState.Rise);
+    });
+});
+
+describe("Player.reset", () => {
+    it("clears movement and input and moves to the bottom left", () => {
+        const world = createWorld();
+        const player = createPlayer();
+        player.velocity = { x: 1, y: 1 };
+        player.inputDirection.right = true;
+        player.isJumping = true;
+        player.reset(world.bounds);
+        expect(player.velocity).toEqual({ x: 0, y: 0 });
+        expect(player.inputDirection).toEqual({ left: false, right: false });
+        expect(player.isJumping).toBe(false);
+        expect(player.position).toEqual({ x: 100, y: 500 });
+        expect(player.previousPosition).toEqual(player.position);
+    });
+});
+
+describe("Player.targetX", () => {
+    it("moves the player to the target without overshooting", () => {
+        const world = createWorld({ width: 2000 });
+        const player = createPlayer();
+        player.reset(world.bounds);
+        player.targetX = 1000;
+
+        let furthest = player.position.x;
+        for (let i = 0; i < 120 * 5; ++i) {
+            player.update(world);
+            furthest = Math.max(furthest, player.position.x);
+        }
+        expect(Math.abs(player.position.x - 1000)).toBeLessThan(20);
+        expect(furthest).toBeLessThan(1020);
+        expect(player.velocity.x).toBe(0);
+    });
+});
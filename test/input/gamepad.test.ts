@@ -0,0 +1,116 @@
+/**
+ * @file Tests for the gamepad poller class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    GamepadButton,
+    GamepadPoller,
+    GamepadSource,
+    GamepadState,
+} from "@game/input/gamepad";
+
+/** Controller whose stick and buttons can be set by tests. */
+class FakePad implements GamepadState {
+    readonly connected = true;
+    axes = [0, 0];
+    buttons = Array.from({ length: 16 }, () => ({ pressed: false }));
+
+    constructor(readonly index: number, readonly id = "Fake pad") {}
+
+    press(button: GamepadButton): void {
+        this.buttons[button] = { pressed: true };
+    }
+}
+
+/** Source whose controller slots can be set by tests. */
+class FakeSource implements GamepadSource {
+    pads: (FakePad | null)[] = [];
+
+    getGamepads(): (FakePad | null)[] {
+        return this.pads;
+    }
+}
+
+describe("GamepadPoller", () => {
+    it("reports connected and disconnected controllers", () => {
+        const source = new FakeSource();
+        const poller = new GamepadPoller({ source });
+        const pad = new FakePad(0);
+        source.pads = [pad];
+        expect(poller.poll().connected).toEqual([pad]);
+        expect(poller.poll().connected).toEqual([]);
+        expect(poller.connectedCount).toBe(1);
+
+        source.pads = [null];
+        expect(poller.poll().disconnected).toEqual([0]);
+        expect(poller.connectedCount).toBe(0);
+    });
+
+    it("reports a different controller in the same slot", () => {
+        const source = new FakeSource();
+        const poller = new GamepadPoller({ source });
+        source.pads = [new FakePad(0, "First")];
+        poller.poll();
+        source.pads = [new FakePad(0, "Second")];
+        const result = poller.poll();
+        expect(result.disconnected).toEqual([0]);
+        expect(result.connected).toHaveLength(1);
+    });
+
+    it("reports button actions once when pressed and released", () => {
+        const source = new FakeSource();
+        const poller = new GamepadPoller({ source });
+        const pad = new FakePad(0);
+        source.pads = [pad];
+        pad.press(GamepadButton.South);
+        expect(poller.poll().pressed).toEqual(["jump", "confirm"]);
+        expect(poller.poll().pressed).toEqual([]);
+        expect(poller.isDown("jump")).toBe(true);
+
+        pad.buttons[GamepadButton.South] = { pressed: false };
+        expect(poller.poll().released).toEqual(["jump", "confirm"]);
+        expect(poller.isDown("jump")).toBe(false);
+    });
+
+    it("ignores stick movement within the dead zone", () => {
+        const source = new FakeSource();
+        const poller = new GamepadPoller({ source, deadZone: 0.3 });
+        const pad = new FakePad(0);
+        source.pads = [pad];
+        pad.axes = [-0.2, 0.25];
+        expect(poller.poll().pressed).toEqual([]);
+
+        pad.axes = [-0.8, 0.5];
+        expect(poller.poll().pressed).toEqual(["moveLeft", "navigateDown"]);
+    });
+
+    it("releases actions held on a disconnected controller", () => {
+        const source = new FakeSource();
+        const poller = new GamepadPoller({ source });
+        const pad = new FakePad(0);
+        pad.press(GamepadButton.DPadRight);
+        source.pads = [pad];
+        poller.poll();
+
+        source.pads = [];
+        expect(poller.poll().released).toEqual(["moveRight"]);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * @file Tests for the input map class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { InputMap } from "@game/input/input-map";
+import { MemoryStorage } from "@game/utils/storage";
+
+describe("InputMap", () => {
+    it("maps default keys to actions", () => {
+        const input = new InputMap(new MemoryStorage());
+        expect(input.actionsFor("ArrowLeft")).toEqual(["moveLeft"]);
+        expect(input.actionsFor("d")).toEqual(["moveRight"]);
+        expect(input.actionsFor("Escape")).toEqual(["back", "pause"]);
+        expect(input.actionsFor("m")).toEqual(["mute"]);
+    });
+
+    it("matches single character keys regardless of case", () => {
+        const input = new InputMap(new MemoryStorage());
+        expect(input.press("A")).toEqual(["moveLeft"]);
+        expect(input.isDown("moveLeft")).toBe(true);
+        expect(input.release("a")).toEqual(["moveLeft"]);
+        expect(input.isDown("moveLeft")).toBe(false);
+    });
+
+    it("reports actions only on the first press and last release", () => {
+        const input = new InputMap(new MemoryStorage());
+        expect(input.press("ArrowLeft")).toEqual(["moveLeft"]);
+        expect(input.press("a")).toEqual([]);
+        expect(input.release("ArrowLeft")).toEqual([]);
+        expect(input.isDown("moveLeft")).toBe(true);
+        expect(input.release("a")).toEqual(["moveLeft"]);
+    });
+
+    it("combines actions held by other devices with keys", () => {
+        const input = new InputMap(new MemoryStorage());
+        expect(input.pressAction("jump")).toBe(true);
+        expect(input.press(" ")).toEqual([]);
+        expect(input.releaseAction("jump")).toBe(false);
+        expect(input.isDown("jump")).toBe(true);
+        expect(input.release(" ")).toEqual(["jump"]);
+    });
+
+    it("releases all keys", () => {
+        const input = new InputMap(new MemoryStorage());
+        input.press("a");
+        input.pressAction("jump");
+        input.releaseAll();
+        expect(input.isDown("moveLeft")).toBe(false);
+        expect(input.isDown("jump")).toBe(false);
+    });
+
+    it("saves rebound keys for new input maps", () => {
+        const storage = new MemoryStorage();
+        const input = new InputMap(storage);
+        input.setBindings("jump", ["J"]);
+        input.bind("moveLeft", "h");
+        input.unbind("moveLeft", "a");
+
+        const loaded = new InputMap(storage);
+        expect(loaded.bindings.jump).toEqual(["j"]);
+        expect(loaded.bindings.moveLeft).toEqual(["ArrowLeft", "h"]);
+        expect(loaded.actionsFor("a")).toEqual([]);
+    });
+
+    it("replaces a single key of an action, keeping the others", () => {
+        const input = new InputMap(new MemoryStorage());
+        input.rebind("moveLeft", 0, "J");
+        expect(input.bindings.moveLeft).toEqual(["j", "a"]);
+        input.rebind("moveLeft", 5, "k");
+        expect(input.bindings.moveLeft).toEqual(["j", "a", "k"]);
+
+        // Binding a key the action already has does not repeat it.
+        input.rebind("moveLeft", 2, "a");
+        expect(input.bindings.moveLeft).toEqual(["j", "a"]);
+    });
+
+    it("unbinds a rebound key from the exclusive actions only", () => {
+        const input = new InputMap(new MemoryStorage());
+        const exclusive = ["moveLeft", "moveRight", "jump", "pause"] as const;
+        input.rebind("jump", 0, "a", exclusive);
+        expect(input.bindings.jump).toEqual(["a", "ArrowUp", "w"]);
+        expect(input.bindings.moveLeft).toEqual(["ArrowLeft"]);
+        expect(input.actionsFor("a")).toEqual(["jump"]);
+
+        // Menu navigation shares keys with movement and is left alone.
+        input.rebind("moveRight", 1, "ArrowUp", exclusive);
+        expect(input.bindings.jump).toEqual(["a", "w"]);
+        expect(input.actionsFor("ArrowUp")).toEqual([
+            "moveRight",
+            "navigateUp",
+        ]);
+    });
+
+    it("names the first key of an action for prompts", () => {
+        const input = new InputMap(new MemoryStorage());
+        expect(input.keyLabel("confirm")).toBe("RETURN");
+        expect(input.keyLabel("jump")).toBe("SPACE");
+        expect(input.keyLabel("navigateUp")).toBe("UP");
+
+        input.rebind("pause", 0, "p");
+        expect(input.keyLabel("pause")).toBe("P");
+        input.setBindings("quit", []);
+        expect(input.keyLabel("quit")).toBe("NO KEY");
+    });
+
+    it("restores the default bindings", () => {
+        const storage = new MemoryStorage();
+        const input = new InputMap(storage);
+        input.setBindings("quit", ["x"]);
+        input.resetBindings();
+        expect(input.bindings).toEqual(InputMap.defaultBindings);
+        expect(new InputMap(storage).bindings.quit).toEqual(["q"]);
+    });
+
+    it("ignores invalid saved bindings", () => {
+        const storage = new MemoryStorage();
+        storage.setItem(
+            "catch-game.input-bindings",
+            JSON.stringify({ jump: "j", quit: [1], confirm: ["c"] })
+        );
+        const input = new InputMap(storage);
+        expect(input.bindings.jump).toEqual(InputMap.defaultBindings.jump);
+        expect(input.bindings.quit).toEqual(InputMap.defaultBindings.quit);
+        expect(input.bindings.confirm).toEqual(["c"]);
+
+        storage.setItem("catch-game.input-bindings", "{");
+        expect(new InputMap(storage).bindings).toEqual(
+            InputMap.defaultBindings
+        );
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * @file Tests for the high-score table.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+    formatMode,
+    HighScoreEntry,
+    HighScoreTable,
+} from "@game/scores/high-score-table";
+import { MemoryStorage } from "@game/utils/storage";
+
+/**
+ * Creates a run with the given name and score on normal difficulty.
+ *
+ * @param name - Name of the player.
+ * @param score - Final score.
+ * @returns New run.
+ */
+function run(name: string, score: number): HighScoreEntry {
+    return {
+        name: name,
+        score: score,
+        date: "2024-01-01T00:00:00.000Z",
+        difficulty: "normal",
+    };
+}
+
+describe("HighScoreTable", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("keeps the best runs in order from the highest score", () => {
+        const table = new HighScoreTable({
+            storage: new MemoryStorage(),
+            capacity: 3,
+        });
+        expect(table.add(run("b", 20))).toBe(0);
+        expect(table.add(run("a", 30))).toBe(0);
+        expect(table.add(run("c", 10))).toBe(2);
+        expect(table.add(run("d", 5))).toBe(-1);
+        expect(table.add(run("e", 25))).toBe(1);
+        expect(table.entries.map((entry) => entry.name)).toEqual([
+            "a",
+            "e",
+            "b",
+        ]);
+    });
+
+    it("places new runs below earlier runs with the same score", () => {
+        const table = new HighScoreTable({ storage: new MemoryStorage() });
+        table.add(run("first", 10));
+        expect(table.add(run("second", 10))).toBe(1);
+    });
+
+    it("only qualifies scores above zero which beat the lowest run", () => {
+        const table = new HighScoreTable({
+            storage: new MemoryStorage(),
+            capacity: 1,
+        });
+        expect(table.qualifies(0)).toBe(false);
+        expect(table.qualifies(1)).toBe(true);
+        table.add(run("a", 10));
+        expect(table.qualifies(10)).toBe(false);
+        expect(table.qualifies(11)).toBe(true);
+    });
+
+    it("saves runs with a version number and loads them again", () => {
+        const storage = new MemoryStorage();
+        new HighScoreTable({ storage: storage }).add({
+            ...run("a", 10),
+            level: 1,
+        });
+        const saved = JSON.parse(storage.getItem("catch-game.high-scores"));
+        expect(saved.version).toBe(HighScoreTable.version);
+
+        const loaded = new HighScoreTable({ storage: storage });
+        expect(loaded.entries).toEqual([{ ...run("a", 10), level: 1 }]);
+    });
+
+    it("skips invalid saved runs and discards unknown versions", () => {
+        const storage = new MemoryStorage();
+        storage.setItem(
+            "catch-game.high-scores",
+            JSON.stringify({
+                version: HighScoreTable.version,
+                entries: [run("a", 10), { name: "b", score: "lots" }],
+            })
+        );
+        expect(new HighScoreTable({ storage: storage }).entries).toEqual([
+            run("a", 10),
+        ]);
+
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        storage.setItem(
+            "catch-game.high-scores",
+            JSON.stringify({ version: 99, entries: [run("a", 10)] })
+        );
+        expect(new HighScoreTable({ storage: storage }).entries).toEqual([]);
+        expect(console.error).toHaveBeenCalledOnce();
+    });
+
+    it("ignores saved data which is not JSON", () => {
+        const storage = new MemoryStorage();
+        storage.setItem("catch-game.high-scores", "{");
+        expect(new HighScoreTable({ storage: storage }).entries).toEqual([]);
+    });
+});
+
+describe("formatMode", () => {
+    it("describes the difficulty and level", () => {
+        expect(formatMode(run("a", 1))).toBe("normal, endless");
+        expect(formatMode({ ...run("a", 1), level: 0 })).toBe(
+            "normal, level 1"
+        );
+    });
+});
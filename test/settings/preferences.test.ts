@@ -0,0 +1,154 @@
+/**
+ * @file Tests for the player preferences.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { Preferences } from "@game/settings/preferences";
+import { DifficultyPresetName } from "@game/simulation/difficulty";
+import { MemoryStorage } from "@game/utils/storage";
+
+describe("Preferences", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("starts with the defaults when nothing is saved", () => {
+        const preferences = new Preferences({ storage: new MemoryStorage() });
+        expect(preferences.values).toEqual(Preferences.defaults);
+    });
+
+    it("saves changes with a version number and loads them again", () => {
+        const storage = new MemoryStorage();
+        const preferences = new Preferences({ storage: storage });
+        preferences.set("musicVolume", 0.3);
+        preferences.set("difficulty", "hard");
+        preferences.set("showFps", true);
+        const saved = JSON.parse(storage.getItem("catch-game.preferences"));
+        expect(saved.version).toBe(Preferences.version);
+
+        const loaded = new Preferences({ storage: storage });
+        expect(loaded.values).toEqual({
+            ...Preferences.defaults,
+            musicVolume: 0.3,
+            difficulty: "hard",
+            showFps: true,
+        });
+    });
+
+    it("limits volumes to the range from 0 to 1", () => {
+        const preferences = new Preferences({ storage: new MemoryStorage() });
+        preferences.set("sfxVolume", 1.5);
+        expect(preferences.values.sfxVolume).toBe(1);
+        preferences.set("sfxVolume", -0.5);
+        expect(preferences.values.sfxVolume).toBe(0);
+    });
+
+    it("keeps the volumes while muted", () => {
+        const storage = new MemoryStorage();
+        const preferences = new Preferences({ storage: storage });
+        preferences.set("masterVolume", 0.6);
+        preferences.set("muted", true);
+        expect(new Preferences({ storage: storage }).values).toEqual({
+            ...Preferences.defaults,
+            masterVolume: 0.6,
+            muted: true,
+        });
+
+        preferences.reset();
+        expect(preferences.values.muted).toBe(false);
+    });
+
+    it("rejects unknown difficulties", () => {
+        const preferences = new Preferences({ storage: new MemoryStorage() });
+        expect(() =>
+            preferences.set("difficulty", "impossible" as DifficultyPresetName)
+        ).toThrow(RangeError);
+        expect(preferences.values.difficulty).toBe("normal");
+    });
+
+    it("calls listeners after each change until they are removed", () => {
+        const preferences = new Preferences({ storage: new MemoryStorage() });
+        const listener = vi.fn();
+        const remove = preferences.onChange(listener);
+
+        preferences.set("highContrast", true);
+        expect(listener).toHaveBeenCalledWith(
+            "highContrast",
+            expect.objectContaining({ highContrast: true })
+        );
+
+        // Setting the same value again is not a change.
+        preferences.set("highContrast", true);
+        expect(listener).toHaveBeenCalledOnce();
+
+        remove();
+        preferences.set("highContrast", false);
+        expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it("restores the defaults and reports each changed preference", () => {
+        const preferences = new Preferences({ storage: new MemoryStorage() });
+        preferences.set("masterVolume", 0.5);
+        preferences.set("reducedMotion", true);
+        const listener = vi.fn();
+        preferences.onChange(listener);
+
+        preferences.reset();
+        expect(preferences.values).toEqual(Preferences.defaults);
+        expect(listener.mock.calls.map((call) => call[0])).toEqual([
+            "masterVolume",
+            "reducedMotion",
+        ]);
+    });
+
+    it("keeps the defaults of invalid saved values", () => {
+        const storage = new MemoryStorage();
+        storage.setItem(
+            "catch-game.preferences",
+            JSON.stringify({
+                version: Preferences.version,
+                values: {
+                    masterVolume: "loud",
+                    musicVolume: 2,
+                    difficulty: "impossible",
+                    reducedMotion: true,
+                },
+            })
+        );
+        expect(new Preferences({ storage: storage }).values).toEqual({
+            ...Preferences.defaults,
+            musicVolume: 1,
+            reducedMotion: true,
+        });
+    });
+
+    it("discards preferences saved by an unknown version", () => {
+        const storage = new MemoryStorage();
+        storage.setItem(
+            "catch-game.preferences",
+            JSON.stringify({ version: 99, values: { showFps: true } })
+        );
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        expect(new Preferences({ storage: storage }).values).toEqual(
+            Preferences.defaults
+        );
+        expect(console.error).toHaveBeenCalledOnce();
+    });
+});
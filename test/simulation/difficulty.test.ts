@@ -0,0 +1,88 @@
+/**
+ * @file Tests for the difficulty class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    Difficulty,
+    DifficultyPreset,
+    DifficultyPresets,
+} from "@game/simulation/difficulty";
+
+const preset: DifficultyPreset = {
+    name: "Test",
+    startingLives: 3,
+    timePerLevel: 1000,
+    pointsPerLevel: 10,
+    maxLevel: 5,
+    keyframes: [
+        { level: 1, spawnInterval: 500, fallSpeedScale: 1, hazardScale: 1 },
+        { level: 3, spawnInterval: 300, fallSpeedScale: 2, hazardScale: 1 },
+    ],
+};
+
+describe("Difficulty", () => {
+    it("interpolates settings between keyframes", () => {
+        const settings = Difficulty.settingsAt(preset.keyframes, 2);
+        expect(settings.spawnInterval).toBe(400);
+        expect(settings.fallSpeedScale).toBe(1.5);
+    });
+
+    it("uses the nearest keyframe outside the keyframes", () => {
+        expect(Difficulty.settingsAt(preset.keyframes, 0).spawnInterval).toBe(
+            500
+        );
+        expect(Difficulty.settingsAt(preset.keyframes, 5).spawnInterval).toBe(
+            300
+        );
+    });
+
+    it("raises the level with both time and score", () => {
+        const difficulty = new Difficulty(preset);
+        expect(difficulty.level).toBe(1);
+        expect(difficulty.update({ elapsed: 500, score: 4 })).toBe(false);
+        expect(difficulty.update({ elapsed: 500, score: 5 })).toBe(true);
+        expect(difficulty.level).toBe(2);
+        expect(difficulty.settings.spawnInterval).toBe(400);
+    });
+
+    it("keeps the highest level reached when the score drops", () => {
+        const difficulty = new Difficulty(preset);
+        difficulty.update({ elapsed: 500, score: 5 });
+        expect(difficulty.update({ elapsed: 600, score: 1 })).toBe(false);
+        expect(difficulty.level).toBe(2);
+        expect(difficulty.settings.spawnInterval).toBe(400);
+    });
+
+    it("stops at the highest level", () => {
+        const difficulty = new Difficulty(preset);
+        difficulty.update({ elapsed: 60000, score: 1000 });
+        expect(difficulty.level).toBe(preset.maxLevel);
+    });
+
+    it("orders the built-in presets from easiest to hardest", () => {
+        const intervals = [
+            DifficultyPresets.easy,
+            DifficultyPresets.normal,
+            DifficultyPresets.hard,
+        ].map((preset) => new Difficulty(preset).settings.spawnInterval);
+        expect(intervals).toEqual([...intervals].sort((a, b) => b - a));
+    });
+});
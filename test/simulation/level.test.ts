@@ -0,0 +1,156 @@
+/**
+ * @file Tests for level validation.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+
+import {
+    LevelValidationError,
+    parseLevel,
+    positionToFraction,
+} from "@game/simulation/level";
+
+const levelsDirectory = path.resolve(__dirname, "../../static/levels");
+
+/**
+ * Creates the data of a valid level file with a single wave.
+ *
+ * @returns Parsed JSON data.
+ */
+function createLevelData(): Record<string, unknown> {
+    return {
+        name: "Test",
+        lanes: 3,
+        waves: [
+            {
+                start: 0,
+                pattern: "line",
+                count: 2,
+                from: { lane: 0 },
+                kind: "basic",
+            },
+        ],
+        win: { score: 2 },
+    };
+}
+
+/**
+ * Gets the issues found when validating level data.
+ *
+ * @param data - Parsed JSON data.
+ * @returns Issues reported by the validation error.
+ */
+function issuesOf(data: unknown): readonly string[] {
+    try {
+        parseLevel(data, "test.json");
+    } catch (error) {
+        expect(error).toBeInstanceOf(LevelValidationError);
+        return (error as LevelValidationError).issues;
+    }
+    return [];
+}
+
+describe("parseLevel", () => {
+    it("fills in default wave values", () => {
+        const level = parseLevel(createLevelData(), "test.json");
+        expect(level.waves[0].interval).toBe(500);
+        expect(level.waves[0].to).toEqual({ lane: 0 });
+        expect(level.waves[0].legLength).toBe(4);
+    });
+
+    it("reports every problem with its path", () => {
+        const data = createLevelData();
+        data.waves = [
+            {
+                start: -1,
+                pattern: "spiral",
+                count: 0,
+                from: { lane: 3 },
+                kind: "diamond",
+            },
+        ];
+        data.win = {};
+        expect(issuesOf(data)).toEqual([
+            "waves[0].start: expected a number of at least 0",
+            "waves[0].pattern: expected line, zigzag or burst",
+            "waves[0].count: expected an integer of at least 1",
+            "waves[0].from.lane: expected an integer from 0 to 2",
+            expect.stringMatching(/^waves\[0\]\.kind: expected one of basic/),
+            "win: expected at least one condition",
+        ]);
+    });
+
+    it("requires lanes for lane positions", () => {
+        const data = createLevelData();
+        delete data.lanes;
+        expect(issuesOf(data)).toEqual([
+            "waves[0].from.lane: expected lanes to be set for the level",
+        ]);
+    });
+
+    it("rejects goals which the waves cannot reach", () => {
+        const data = createLevelData();
+        data.waves = [
+            {
+                start: 0,
+                pattern: "line",
+                count: 2,
+                from: { lane: 0 },
+                kind: "basic",
+            },
+            {
+                start: 0,
+                pattern: "line",
+                count: 3,
+                from: { lane: 0 },
+                kind: "rotten",
+            },
+        ];
+        data.win = { score: 3, caught: 3 };
+        expect(issuesOf(data)).toEqual([
+            "win.score: expected at most 2, the most possible",
+            "win.caught: expected at most 2, the number of scoring items",
+        ]);
+    });
+
+    it("rejects data which is not an object", () => {
+        expect(issuesOf([])).toEqual(["level: expected an object"]);
+    });
+
+    it("accepts the bundled level files", () => {
+        const files = readdirSync(levelsDirectory);
+        expect(files.length).toBeGreaterThan(0);
+        files.forEach((file) => {
+            const data = JSON.parse(
+                readFileSync(path.join(levelsDirectory, file), "utf8")
+            );
+            expect(() => parseLevel(data, file)).not.toThrow();
+        });
+    });
+});
+
+describe("positionToFraction", () => {
+    it("converts lanes to the centers of the lanes", () => {
+        const level = parseLevel(createLevelData(), "test.json");
+        expect(positionToFraction(level, { lane: 1 })).toBeCloseTo(0.5);
+        expect(positionToFraction(level, { x: 0.25 })).toBe(0.25);
+    });
+});
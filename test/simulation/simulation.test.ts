@@ -0,0 +1,385 @@
+/**
+ * @file Tests for the game simulation class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { Collectible } from "@game/entities/collectible";
+import {
+    CollectibleKind,
+    CollectibleKinds,
+} from "@game/simulation/collectible-kind";
+import { DifficultyPresets } from "@game/simulation/difficulty";
+import { parseLevel } from "@game/simulation/level";
+import { Simulation } from "@game/simulation/simulation";
+import { Sprite } from "@game/utils/sprite";
+import { createSeededRandom } from "@game/utils/random";
+import { createWorld } from "../support/world";
+
+/**
+ * Creates a stationary collectible with a square sprite.
+ *
+ * @param x - x-coordinate in pixels.
+ * @param y - y-coordinate in pixels.
+ * @param kind - Kind of item.
+ * @returns New collectible.
+ */
+function createCollectible(
+    x: number,
+    y: number,
+    kind?: CollectibleKind
+): Collectible {
+    return new Collectible({
+        x: x,
+        y: y,
+        sprite: new Sprite({ width: 100, height: 100 }),
+        kind: kind,
+    });
+}
+
+/**
+ * Runs a whole game with an idle player until all lives are lost.
+ *
+ * @param seed - Seed for the world's source of pseudo-random numbers.
+ * @returns Simulation of the finished game.
+ */
+function runGame(seed: number): Simulation {
+    const world = createWorld({ random: createSeededRandom(seed) });
+    const simulation = new Simulation();
+    simulation.reset(world.bounds);
+    for (let i = 0; i < 120 * 60 && !simulation.isOver; ++i) {
+        simulation.step(world);
+    }
+    return simulation;
+}
+
+describe("Simulation", () => {
+    it("limits the score to 999999", () => {
+        const simulation = new Simulation();
+        simulation.reset(createWorld().bounds);
+        simulation.score = 999998;
+        ++simulation.score;
+        ++simulation.score;
+        expect(simulation.score).toBe(999999);
+    });
+
+    it("increments the score when the player catches a collectible", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.collectibles.add(
+            createCollectible(
+                simulation.player.position.x,
+                simulation.player.position.y
+            )
+        );
+        simulation.step(world);
+        expect(simulation.score).toBe(1);
+        expect(simulation.lives).toBe(simulation.startingLives);
+    });
+
+    it("loses a life when a collectible falls past the bottom", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.collectibles.add(
+            createCollectible(world.bounds.x - 50, world.bounds.y + 51)
+        );
+        simulation.step(world);
+        expect(simulation.score).toBe(0);
+        expect(simulation.lives).toBe(simulation.startingLives - 1);
+        expect(simulation.isOver).toBe(false);
+    });
+
+    it("reports caught and missed items as events", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        const player = simulation.player.position;
+        simulation.collectibles.add(createCollectible(player.x, player.y));
+        simulation.collectibles.add(
+            createCollectible(world.bounds.x - 50, world.bounds.y + 51)
+        );
+        simulation.step(world);
+        expect(simulation.events.map((event) => event.type)).toEqual([
+            "catch",
+            "miss",
+        ]);
+        expect(simulation.events[1].position).toEqual({
+            x: world.bounds.x - 50,
+            y: world.bounds.y,
+        });
+
+        simulation.step(world);
+        expect(simulation.events).toEqual([]);
+    });
+
+    it("reports the player jumping and landing as events", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        const types: string[] = [];
+        simulation.player.isJumping = true;
+        for (let i = 0; i < 120 * 5; ++i) {
+            simulation.step(world);
+            simulation.player.isJumping = false;
+            types.push(...simulation.events.map((event) => event.type));
+        }
+        expect(
+            types.filter((type) => type === "jump" || type === "land")
+        ).toEqual(["jump", "land"]);
+    });
+
+    it("removes points without losing a life for rotten items", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.score = 3;
+        const { x, y } = simulation.player.position;
+        simulation.collectibles.add(
+            createCollectible(x, y, CollectibleKinds.rotten)
+        );
+        simulation.collectibles.add(
+            createCollectible(50, world.bounds.y + 51, CollectibleKinds.rotten)
+        );
+        simulation.step(world);
+        expect(simulation.score).toBe(0);
+        expect(simulation.lives).toBe(simulation.startingLives);
+    });
+
+    it("restores a life up to the maximum for extra life items", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.lives = simulation.maxLives;
+        const { x, y } = simulation.player.position;
+        simulation.collectibles.add(
+            createCollectible(x, y, CollectibleKinds.extraLife)
+        );
+        simulation.step(world);
+        expect(simulation.lives).toBe(simulation.maxLives);
+
+        simulation.lives = 1;
+        simulation.collectibles.add(
+            createCollectible(x, y, CollectibleKinds.extraLife)
+        );
+        simulation.step(world);
+        expect(simulation.lives).toBe(2);
+    });
+
+    it("slows falling items for slow motion items", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        const { x, y } = simulation.player.position;
+        simulation.collectibles.add(
+            createCollectible(x, y, CollectibleKinds.slowMotion)
+        );
+        simulation.step(world);
+        expect(simulation.isSlowMotion).toBe(true);
+        expect(simulation.slowMotionRemaining).toBe(
+            simulation.slowMotionDuration
+        );
+
+        const item = simulation.collectibles.active[0];
+        const previousY = item.position.y;
+        simulation.step(world);
+        expect(item.position.y - previousY).toBeCloseTo(
+            world.deltaTime * item.kind.fallSpeed * simulation.slowMotionScale
+        );
+    });
+
+    it("counts items caught in a row until an item is lost", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        const { x, y } = simulation.player.position;
+        simulation.collectibles.add(createCollectible(x, y));
+        simulation.step(world);
+        simulation.collectibles.add(createCollectible(x, y));
+        simulation.step(world);
+        expect(simulation.combo).toBe(2);
+
+        // Missed rotten items do not end the combo, but caught ones do.
+        simulation.collectibles.add(
+            createCollectible(50, world.bounds.y + 51, CollectibleKinds.rotten)
+        );
+        simulation.step(world);
+        expect(simulation.combo).toBe(2);
+        simulation.collectibles.add(
+            createCollectible(x, y, CollectibleKinds.rotten)
+        );
+        simulation.step(world);
+        expect(simulation.combo).toBe(0);
+
+        simulation.collectibles.add(createCollectible(x, y));
+        simulation.step(world);
+        simulation.collectibles.add(
+            createCollectible(world.bounds.x - 50, world.bounds.y + 51)
+        );
+        simulation.step(world);
+        expect(simulation.combo).toBe(0);
+    });
+
+    it("starts a fresh game when reset", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.score = 10;
+        simulation.lives = 0;
+        simulation.reset(world.bounds);
+        expect(simulation.score).toBe(0);
+        expect(simulation.lives).toBe(simulation.startingLives);
+        expect(simulation.collectibles.active).toEqual([]);
+    });
+
+    it("reuses collectibles over a long game", () => {
+        const world = createWorld({ random: createSeededRandom(2) });
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.startingLives = Infinity;
+        simulation.lives = Infinity;
+        for (let i = 0; i < 120 * 60 * 5; ++i) {
+            simulation.step(world);
+        }
+        const created = simulation.collectibles.createdCount;
+        for (let i = 0; i < 120 * 60 * 5; ++i) {
+            simulation.step(world);
+        }
+        expect(simulation.collectibles.createdCount).toBe(created);
+        expect(simulation.collectibles.activeCount).toBeLessThan(created);
+    });
+
+    it("starts with the lives of the difficulty preset", () => {
+        const simulation = new Simulation();
+        simulation.reset(createWorld().bounds, DifficultyPresets.easy);
+        expect(simulation.lives).toBe(DifficultyPresets.easy.startingLives);
+        expect(simulation.difficulty.level).toBe(1);
+    });
+
+    it("raises the difficulty level as game time passes", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        simulation.reset(world.bounds);
+        simulation.lives = Infinity;
+        const steps = DifficultyPresets.normal.timePerLevel / world.deltaTime;
+        for (let i = 0; i < steps + 2; ++i) {
+            simulation.step(world);
+        }
+        expect(simulation.difficulty.level).toBeGreaterThan(1);
+    });
+
+    it("wins a level once its waves are cleared", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        const level = parseLevel(
+            {
+                name: "Test",
+                waves: [
+                    {
+                        start: 0,
+                        pattern: "line",
+                        count: 1,
+                        from: { x: 0 },
+                        kind: "basic",
+                    },
+                ],
+                win: { caught: 1, allWaves: true },
+            },
+            "test.json"
+        );
+        simulation.reset(world.bounds, DifficultyPresets.normal, level);
+        for (let i = 0; i < 120 * 10 && !simulation.isWon; ++i) {
+            simulation.step(world);
+        }
+        expect(simulation.caught).toBe(1);
+        expect(simulation.isWon).toBe(true);
+    });
+
+    it("fails a level once its waves are cleared below its goals", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        const level = parseLevel(
+            {
+                name: "Test",
+                waves: [
+                    {
+                        start: 0,
+                        pattern: "line",
+                        count: 2,
+                        from: { x: 0 },
+                        kind: "basic",
+                    },
+                ],
+                win: { score: 2, allWaves: true },
+            },
+            "test.json"
+        );
+        simulation.reset(world.bounds, DifficultyPresets.normal, level);
+        simulation.lives = Infinity;
+
+        // The first item is caught, but the score goal can no longer be met
+        // once the second has fallen.
+        simulation.score = 1;
+        for (let i = 0; i < 120 * 20 && !simulation.isFailed; ++i) {
+            expect(simulation.isFailed).toBe(false);
+            simulation.step(world);
+            simulation.collectibles.active.forEach((item) => {
+                item.position.x = world.bounds.x - 50;
+            });
+        }
+        expect(simulation.score).toBe(1);
+        expect(simulation.isWon).toBe(false);
+        expect(simulation.isFailed).toBe(true);
+    });
+
+    it("does not fail a level which is won by surviving", () => {
+        const world = createWorld();
+        const simulation = new Simulation();
+        const level = parseLevel(
+            {
+                name: "Test",
+                waves: [
+                    {
+                        start: 0,
+                        pattern: "line",
+                        count: 1,
+                        from: { x: 0 },
+                        kind: "rotten",
+                    },
+                ],
+                win: { survive: 60000 },
+            },
+            "test.json"
+        );
+        simulation.reset(world.bounds, DifficultyPresets.normal, level);
+        for (let i = 0; i < 120 * 10; ++i) {
+            simulation.step(world);
+        }
+        expect(simulation.collectibles.activeCount).toBe(0);
+        expect(simulation.isFailed).toBe(false);
+    });
+
+    it("runs whole games repeatably without a canvas", () => {
+        const first = runGame(1);
+        const second = runGame(1);
+        expect(first.isOver).toBe(true);
+        expect(second.score).toBe(first.score);
+    });
+});
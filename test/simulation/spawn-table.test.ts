@@ -0,0 +1,63 @@
+/**
+ * @file Tests for the spawn table class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { CollectibleKinds } from "@game/simulation/collectible-kind";
+import { SpawnTable } from "@game/simulation/spawn-table";
+import { createSeededRandom } from "@game/utils/random";
+
+describe("SpawnTable", () => {
+    it("picks kinds in proportion to their weights", () => {
+        const table = new SpawnTable([
+            { kind: CollectibleKinds.basic, weight: 3 },
+            { kind: CollectibleKinds.golden, weight: 1 },
+        ]);
+        expect(table.pick(() => 0)).toBe(CollectibleKinds.basic);
+        expect(table.pick(() => 0.74)).toBe(CollectibleKinds.basic);
+        expect(table.pick(() => 0.75)).toBe(CollectibleKinds.golden);
+
+        const random = createSeededRandom(3);
+        let golden = 0;
+        for (let i = 0; i < 4000; ++i) {
+            if (table.pick(random) === CollectibleKinds.golden) {
+                ++golden;
+            }
+        }
+        expect(golden / 4000).toBeCloseTo(0.25, 1);
+    });
+
+    it("never picks kinds without weight", () => {
+        const table = new SpawnTable([
+            { kind: CollectibleKinds.basic, weight: 1 },
+            { kind: CollectibleKinds.rotten, weight: 0 },
+        ]);
+        expect(table.pick(() => 0.9999999)).toBe(CollectibleKinds.basic);
+    });
+
+    it("rejects invalid weights", () => {
+        expect(
+            () => new SpawnTable([{ kind: CollectibleKinds.basic, weight: -1 }])
+        ).toThrow(RangeError);
+        expect(
+            () => new SpawnTable([{ kind: CollectibleKinds.basic, weight: 0 }])
+        ).toThrow(RangeError);
+    });
+});
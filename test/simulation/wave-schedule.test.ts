@@ -0,0 +1,86 @@
+/**
+ * @file Tests for the wave schedule class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { CollectibleKinds } from "@game/simulation/collectible-kind";
+import { LevelDefinition, WaveDefinition } from "@game/simulation/level";
+import { WaveSchedule } from "@game/simulation/wave-schedule";
+
+/**
+ * Creates a level with a single wave spanning the width of the world.
+ *
+ * @param wave - Properties of the wave to override.
+ * @returns New level.
+ */
+function createLevel(wave: Partial<WaveDefinition>): LevelDefinition {
+    return {
+        name: "Test",
+        waves: [
+            {
+                start: 1000,
+                pattern: "line",
+                count: 3,
+                interval: 100,
+                from: { x: 0 },
+                to: { x: 1 },
+                legLength: 2,
+                kind: "golden",
+                ...wave,
+            },
+        ],
+        win: { allWaves: true },
+    };
+}
+
+describe("WaveSchedule", () => {
+    it("spreads lines evenly over time and position", () => {
+        const level = createLevel({});
+        const spawns = WaveSchedule.expand(level, level.waves[0]);
+        expect(spawns.map((spawn) => spawn.time)).toEqual([1000, 1100, 1200]);
+        expect(spawns.map((spawn) => spawn.x)).toEqual([0, 0.5, 1]);
+        expect(spawns[0].kind).toBe(CollectibleKinds.golden);
+        expect(spawns[0].speed).toBe(CollectibleKinds.golden.fallSpeed);
+    });
+
+    it("moves zigzags back and forth", () => {
+        const level = createLevel({ pattern: "zigzag", count: 6 });
+        const spawns = WaveSchedule.expand(level, level.waves[0]);
+        expect(spawns.map((spawn) => spawn.x)).toEqual([
+            0, 0.5, 1, 0.5, 0, 0.5,
+        ]);
+    });
+
+    it("spawns bursts at once", () => {
+        const level = createLevel({ pattern: "burst", speed: 0.5 });
+        const spawns = WaveSchedule.expand(level, level.waves[0]);
+        expect(spawns.map((spawn) => spawn.time)).toEqual([1000, 1000, 1000]);
+        expect(spawns[2].speed).toBe(0.5);
+    });
+
+    it("hands out items as their times pass", () => {
+        const schedule = new WaveSchedule(createLevel({}));
+        expect(schedule.take(999)).toEqual([]);
+        expect(schedule.take(1100).map((spawn) => spawn.x)).toEqual([0, 0.5]);
+        expect(schedule.remaining).toBe(1);
+        schedule.take(5000);
+        expect(schedule.isFinished).toBe(true);
+    });
+});
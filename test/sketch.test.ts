@@ -0,0 +1,124 @@
+/**
+ * @file Tests for activating the sketch's scenes by index.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Sketch } from "@game/sketch";
+import { DifficultyPresets } from "@game/simulation/difficulty";
+import { Scene, SceneName } from "@game/utils/scene";
+import { FakeP5 } from "./support/fake-p5";
+
+/** Scene which records the payloads it is entered with. */
+class RecordingScene extends Scene {
+    /** Payloads passed to {@link enter}, in order. */
+    payloads: unknown[] = [];
+
+    enter(_p: unknown, payload: unknown): void {
+        this.payloads.push(payload);
+    }
+
+    draw(): void {
+        return;
+    }
+}
+
+/** Sketch whose scenes are recording scenes. */
+interface RecordingSketch {
+    sketch: Sketch;
+
+    /** Scenes registered in the sketch, by name. */
+    scenes: Record<SceneName, RecordingScene>;
+}
+
+/**
+ * Creates a sketch whose scenes are replaced by recording scenes, keeping
+ * their order of registration.
+ *
+ * @returns The sketch and its scenes.
+ */
+function createSketch(): RecordingSketch {
+    const sketch = new Sketch(new FakeP5().asP5());
+    const names: SceneName[] = [
+        "menu",
+        "game",
+        "loading",
+        "pause",
+        "gameOver",
+        "nameEntry",
+        "highScores",
+        "settings",
+    ];
+    const scenes = {} as Record<SceneName, RecordingScene>;
+    names.forEach((name) => {
+        scenes[name] = new RecordingScene(sketch);
+    });
+    names.forEach((name) => {
+        if (name === "game") {
+            sketch.registerScene(name, scenes[name], () => ({
+                difficulty: DifficultyPresets.easy,
+            }));
+        } else {
+            sketch.registerScene(name, scenes[name]);
+        }
+    });
+    return { sketch: sketch, scenes: scenes };
+}
+
+describe("Sketch", () => {
+    beforeEach(() => {
+        vi.stubGlobal("window", { addEventListener: () => undefined });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("activates the menu and the game by their first indices", async () => {
+        const { sketch, scenes } = createSketch();
+        await sketch.activateScene(0);
+        expect(scenes.menu.payloads).toEqual([undefined]);
+
+        await sketch.activateScene(1);
+        expect(scenes.game.payloads).toEqual([
+            { difficulty: DifficultyPresets.easy },
+        ]);
+        await expect(sketch.activateScene(8)).rejects.toBe(
+            "Scene index out of range"
+        );
+    });
+
+    it("advances from the menu to the game", async () => {
+        const { sketch, scenes } = createSketch();
+        await sketch.activateScene(0);
+        await sketch.advanceScene();
+        expect(scenes.game.payloads).toEqual([
+            { difficulty: DifficultyPresets.easy },
+        ]);
+    });
+
+    it("rejects advancing to a scene which requires a payload", async () => {
+        const { sketch, scenes } = createSketch();
+        await sketch.activateScene(3);
+        await expect(sketch.advanceScene()).rejects.toMatch(
+            /"gameOver" at index 4 requires a payload/
+        );
+        expect(scenes.gameOver.payloads).toEqual([]);
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * @file Fake p5 instance for tests.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+
+/**
+ * Represents a single call made to a drawing method of a {@link FakeP5}.
+ */
+export interface FakeP5Call {
+    /** Name of the method. */
+    name: string;
+
+    /** Arguments passed to the method. */
+    args: unknown[];
+}
+
+/**
+ * Test double for a p5 instance, which records calls to drawing methods
+ * instead of drawing to a canvas. Only the properties and methods used by the
+ * game are provided.
+ */
+export class FakeP5 {
+    width: number;
+    height: number;
+    deltaTime = 0;
+    key = "";
+    keyCode = 0;
+    mouseX = 0;
+    mouseY = 0;
+
+    readonly LEFT_ARROW = 37;
+    readonly RIGHT_ARROW = 39;
+    readonly UP_ARROW = 38;
+    readonly DOWN_ARROW = 40;
+    readonly RETURN = 13;
+    readonly ESCAPE = 27;
+    readonly CENTER = "center";
+
+    /** Calls made to drawing methods, in order. */
+    calls: FakeP5Call[] = [];
+
+    /** Fake 2D drawing context. */
+    drawingContext = { globalAlpha: 1 };
+
+    /**
+     * Creates a fake p5 instance with a canvas of the given size.
+     *
+     * @param props - Destructured property parameters.
+     * @param props.width - Width of the canvas in pixels.
+     * @param props.height - Height of the canvas in pixels.
+     */
+    constructor({
+        width = 800,
+        height = 600,
+    }: { width?: number; height?: number } = {}) {
+        this.width = width;
+        this.height = height;
+    }
+
+    /**
+     * Gets the fake instance typed as a p5 instance, for passing to game code.
+     *
+     * @returns The fake instance.
+     */
+    asP5(): p5 {
+        return this as unknown as p5;
+    }
+
+    /**
+     * Gets the recorded calls to a given method.
+     *
+     * @param name - Name of the method.
+     * @returns Arguments of each call, in order.
+     */
+    callsTo(name: string): unknown[][] {
+        return this.calls
+            .filter((call) => call.name === name)
+            .map((call) => call.args);
+    }
+
+    background(...args: unknown[]): this {
+        return this.record("background", args);
+    }
+
+    ellipse(...args: unknown[]): this {
+        return this.record("ellipse", args);
+    }
+
+    fill(...args: unknown[]): this {
+        return this.record("fill", args);
+    }
+
+    image(...args: unknown[]): this {
+        return this.record("image", args);
+    }
+
+    noStroke(): this {
+        return this.record("noStroke", []);
+    }
+
+    pop(): this {
+        return this.record("pop", []);
+    }
+
+    push(): this {
+        return this.record("push", []);
+    }
+
+    rect(...args: unknown[]): this {
+        return this.record("rect", args);
+    }
+
+    resetMatrix(): this {
+        return this.record("resetMatrix", []);
+    }
+
+    scale(...args: unknown[]): this {
+        return this.record("scale", args);
+    }
+
+    stroke(...args: unknown[]): this {
+        return this.record("stroke", args);
+    }
+
+    text(...args: unknown[]): this {
+        return this.record("text", args);
+    }
+
+    textAlign(...args: unknown[]): this {
+        return this.record("textAlign", args);
+    }
+
+    textSize(...args: unknown[]): this {
+        return this.record("textSize", args);
+    }
+
+    textStyle(...args: unknown[]): this {
+        return this.record("textStyle", args);
+    }
+
+    translate(...args: unknown[]): this {
+        return this.record("translate", args);
+    }
+
+    /**
+     * Records a call to a drawing method.
+     *
+     * @param name - Name of the method.
+     * @param args - Arguments passed to the method.
+     * @returns The fake instance, for chaining like p5.
+     */
+    private record(name: string, args: unknown[]): this {
+        this.calls.push({ name: name, args: args });
+        return this;
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Stubs for browser text and style measurement in tests.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { vi } from "vitest";
+
+import { TextProperties } from "@game/utils/text";
+
+/** Width in pixels of each character measured by {@link stubTextWidth}. */
+export const CHARACTER_WIDTH = 10;
+
+/**
+ * Replaces canvas-based text measurement with a fixed width per character.
+ * Restored by {@link vi.restoreAllMocks}.
+ */
+export function stubTextWidth(): void {
+    vi.spyOn(TextProperties, "getWidth").mockImplementation(
+        (text: string) => text.length * CHARACTER_WIDTH
+    );
+}
+
+/**
+ * Provides a fake document body and computed style with the given CSS
+ * properties, for code which reads the page's default font. Restored by
+ * {@link vi.unstubAllGlobals}.
+ *
+ * @param properties - CSS property values keyed by property name.
+ */
+export function stubCssStyle(properties: Record<string, string>): void {
+    vi.stubGlobal("document", { body: {} });
+    vi.stubGlobal("window", {
+        getComputedStyle: () => ({
+            getPropertyValue: (property: string) => properties[property] ?? "",
+        }),
+    });
+}
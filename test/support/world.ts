@@ -0,0 +1,49 @@
+/**
+ * @file World context factory for tests.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { World } from "@game/utils/world";
+
+/**
+ * Creates a world context for stepping entities and simulations in tests.
+ *
+ * @param props - Destructured property parameters.
+ * @param props.deltaTime - Game time in milliseconds passed per update.
+ * @param props.width - Width of the world in pixels.
+ * @param props.height - Height of the world in pixels.
+ * @param props.random - Source of pseudo-random numbers.
+ * @returns New world context.
+ */
+export function createWorld({
+    deltaTime = 1000 / 120,
+    width = 800,
+    height = 600,
+    random = () => 0.5,
+}: {
+    deltaTime?: number;
+    width?: number;
+    height?: number;
+    random?: () => number;
+} = {}): World {
+    return {
+        deltaTime: deltaTime,
+        bounds: { x: width, y: height },
+        random: random,
+    };
+}
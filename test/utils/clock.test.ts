@@ -0,0 +1,51 @@
+/**
+ * @file Tests for the game clock class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { GameClock } from "@game/utils/clock";
+
+describe("GameClock", () => {
+    it("passes real time by default", () => {
+        const clock = new GameClock();
+        clock.tick(16);
+        clock.tick(20);
+        expect(clock.deltaTime).toBe(20);
+        expect(clock.elapsed).toBe(36);
+    });
+
+    it("passes no time while paused", () => {
+        const clock = new GameClock();
+        clock.tick(16);
+        clock.pause();
+        clock.tick(16);
+        expect(clock.deltaTime).toBe(0);
+        expect(clock.elapsed).toBe(16);
+        clock.resume();
+        clock.tick(16);
+        expect(clock.elapsed).toBe(32);
+    });
+
+    it("scales and limits each step", () => {
+        const clock = new GameClock({ timeScale: 0.5, maxStep: 50 });
+        clock.tick(1000);
+        expect(clock.deltaTime).toBe(25);
+    });
+});
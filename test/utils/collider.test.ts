@@ -0,0 +1,144 @@
+/**
+ * @file Tests for collider shapes.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { Collider, ColliderShape } from "@game/utils/collider";
+
+const origin = { x: 0, y: 0 };
+
+/** Creates a collider with no offset. */
+function collider(shape: ColliderShape): Collider {
+    return new Collider({ shape: shape });
+}
+
+const circle = collider({ type: "circle", radius: 10 });
+const box = collider({ type: "box", halfSize: { x: 10, y: 5 } });
+
+describe("Collider.collide", () => {
+    it("reports depth and normal between circles", () => {
+        const result = circle.collide(origin, circle, { x: 15, y: 0 });
+        expect(result?.depth).toBeCloseTo(5);
+        expect(result?.normal.x).toBeCloseTo(1);
+        expect(result?.normal.y).toBeCloseTo(0);
+    });
+
+    it("misses circles at the corners of their bounding boxes", () => {
+        expect(circle.collide(origin, circle, { x: 18, y: 18 })).toBe(
+            undefined
+        );
+        expect(box.collide(origin, box, { x: 18, y: 8 })).toBeDefined();
+    });
+
+    it("counts touching shapes with zero depth", () => {
+        const result = box.collide(origin, box, { x: 20, y: 0 });
+        expect(result?.depth).toBeCloseTo(0);
+    });
+
+    it("separates boxes along the axis of least overlap", () => {
+        const result = box.collide(origin, box, { x: 4, y: 8 });
+        expect(result?.depth).toBeCloseTo(2);
+        expect(result?.normal.x).toBeCloseTo(0);
+        expect(result?.normal.y).toBeCloseTo(1);
+    });
+
+    it("points the normal from the first collider to the second", () => {
+        const result = circle.collide({ x: 0, y: 30 }, box, { x: 0, y: 16 });
+        expect(result?.depth).toBeCloseTo(1);
+        expect(result?.normal.x).toBeCloseTo(0);
+        expect(result?.normal.y).toBeCloseTo(-1);
+    });
+
+    it("tests circles against box corners", () => {
+        const corner = { x: 10 + 6, y: 5 + 6 };
+        expect(box.collide(origin, circle, corner)).toBeDefined();
+        const far = { x: 10 + 8, y: 5 + 8 };
+        expect(box.collide(origin, circle, far)).toBe(undefined);
+    });
+
+    it("tests capsules along their length", () => {
+        const capsule = collider({
+            type: "capsule",
+            start: { x: 0, y: -20 },
+            end: { x: 0, y: 20 },
+            radius: 5,
+        });
+        const result = capsule.collide(origin, circle, { x: 12, y: 18 });
+        expect(result?.depth).toBeCloseTo(3);
+        expect(capsule.collide(origin, circle, { x: 0, y: 36 })).toBe(
+            undefined
+        );
+    });
+
+    it("tests convex polygons with the separating axis test", () => {
+        const triangle = collider({
+            type: "polygon",
+            vertices: [
+                { x: 0, y: -10 },
+                { x: 10, y: 10 },
+                { x: -10, y: 10 },
+            ],
+        });
+        expect(triangle.collide(origin, box, { x: 0, y: 12 })).toBeDefined();
+        expect(triangle.collide(origin, box, { x: 18, y: -12 })).toBe(
+            undefined
+        );
+    });
+
+    it("applies offsets to both colliders", () => {
+        const offset = new Collider({
+            shape: { type: "circle", radius: 10 },
+            offset: { x: 0, y: -50 },
+        });
+        expect(offset.collide(origin, circle, origin)).toBe(undefined);
+        expect(offset.collide(origin, circle, { x: 0, y: -45 })).toBeDefined();
+    });
+
+    it("rejects invalid shapes", () => {
+        expect(() => collider({ type: "circle", radius: -1 })).toThrow(
+            RangeError
+        );
+        expect(() =>
+            collider({ type: "polygon", vertices: [origin, origin] })
+        ).toThrow(RangeError);
+    });
+});
+
+describe("Collider.bounds", () => {
+    it("contains rounded shapes and offsets", () => {
+        const capsule = new Collider({
+            shape: {
+                type: "capsule",
+                start: { x: -10, y: 0 },
+                end: { x: 10, y: 5 },
+                radius: 2,
+            },
+            offset: { x: 0, y: 10 },
+        });
+        expect(capsule.bounds({ x: 100, y: 100 })).toEqual({
+            min: { x: 88, y: 108 },
+            max: { x: 112, y: 117 },
+        });
+        expect(box.bounds(origin)).toEqual({
+            min: { x: -10, y: -5 },
+            max: { x: 10, y: 5 },
+        });
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * @file Tests for the entity manager class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { Collectible } from "@game/entities/collectible";
+import { EntityManager } from "@game/utils/entity-manager";
+import { Sprite } from "@game/utils/sprite";
+
+/**
+ * Creates a manager of collectibles with square sprites.
+ *
+ * @param maxPooled - Largest number of removed entities kept for reuse.
+ * @returns New entity manager.
+ */
+function createManager(maxPooled?: number): EntityManager<Collectible> {
+    return new EntityManager({
+        create: () =>
+            new Collectible({ sprite: new Sprite({ width: 10, height: 10 }) }),
+        maxPooled: maxPooled,
+    });
+}
+
+describe("EntityManager", () => {
+    it("reuses removed entities", () => {
+        const manager = createManager();
+        const first = manager.spawn();
+        expect(manager.remove(first)).toBe(true);
+        expect(manager.pooledCount).toBe(1);
+        expect(manager.spawn()).toBe(first);
+        expect(manager.createdCount).toBe(1);
+        expect(manager.pooledCount).toBe(0);
+    });
+
+    it("removes entities without leaving holes", () => {
+        const manager = createManager();
+        const entities = [manager.spawn(), manager.spawn(), manager.spawn()];
+        const removed = manager.removeWhere((entity) => entity === entities[1]);
+        expect(removed).toEqual([entities[1]]);
+        expect(manager.active).toEqual([entities[0], entities[2]]);
+        expect(manager.remove(entities[1])).toBe(false);
+    });
+
+    it("culls entities entirely outside the bounds", () => {
+        const manager = createManager();
+        const inside = manager.spawn();
+        inside.reset({ x: -4, y: 50 });
+        const outside = manager.spawn();
+        outside.reset({ x: 50, y: 106 });
+        expect(manager.cull({ x: 100, y: 100 })).toEqual([outside]);
+        expect(manager.active).toEqual([inside]);
+    });
+
+    it("limits the size of the pool", () => {
+        const manager = createManager(2);
+        manager.spawn();
+        manager.spawn();
+        manager.spawn();
+        manager.clear();
+        expect(manager.activeCount).toBe(0);
+        expect(manager.pooledCount).toBe(2);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * @file Tests for entity classes.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { Collectible } from "@game/entities/collectible";
+import { Sprite } from "@game/utils/sprite";
+import { createWorld } from "../support/world";
+
+/**
+ * Creates a stationary collectible with a square sprite.
+ *
+ * @param x - x-coordinate in pixels.
+ * @param y - y-coordinate in pixels.
+ * @param size - Width and height of the sprite in pixels.
+ * @returns New collectible.
+ */
+function square(x: number, y: number, size = 100): Collectible {
+    return new Collectible({
+        x: x,
+        y: y,
+        sprite: new Sprite({ width: size, height: size }),
+    });
+}
+
+describe("Entity.didCollide", () => {
+    it("detects overlapping sprites", () => {
+        expect(square(0, 0).didCollide(square(50, 50))).toBe(true);
+    });
+
+    it("detects sprites touching at an edge", () => {
+        expect(square(0, 0).didCollide(square(100, 0))).toBe(true);
+    });
+
+    it("ignores sprites separated on either axis", () => {
+        expect(square(0, 0).didCollide(square(101, 0))).toBe(false);
+        expect(square(0, 0).didCollide(square(0, -101))).toBe(false);
+    });
+
+    it("is symmetric for sprites of different sizes", () => {
+        const small = square(0, 0, 10);
+        const large = square(50, 0, 100);
+        expect(small.didCollide(large)).toBe(true);
+        expect(large.didCollide(small)).toBe(true);
+    });
+});
+
+describe("Entity.interpolate", () => {
+    it("draws between the previous and current positions", () => {
+        const entity = square(0, 0);
+        entity.storePreviousPosition();
+        entity.position = { x: 10, y: -20 };
+        entity.interpolate(0.25);
+        expect(entity.renderPosition).toEqual({ x: 2.5, y: -5 });
+    });
+});
+
+describe("MovingEntity.calcAxisPosition", () => {
+    it("moves by velocity multiplied by the world's delta time", () => {
+        const entity = new Collectible({
+            y: 10,
+            dy: 0.2,
+            sprite: new Sprite(),
+        });
+        entity.update(createWorld({ deltaTime: 50 }));
+        expect(entity.position.y).toBeCloseTo(20);
+    });
+});
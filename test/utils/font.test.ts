@@ -0,0 +1,61 @@
+/**
+ * @file Tests for font face utilities.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { FontMetadata } from "@game/utils/font";
+import { stubCssStyle } from "../support/measurement";
+
+describe("FontMetadata", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("formats a CSS font descriptor", () => {
+        const font = new FontMetadata({
+            weight: "bold",
+            size: 24,
+            family: "serif",
+        });
+        expect(font.toString()).toBe("bold 24px serif");
+    });
+
+    it("uses the element's computed font by default", () => {
+        stubCssStyle({
+            "font-weight": "400",
+            "font-size": "16px",
+            "font-family": "sans-serif",
+        });
+        const font = FontMetadata.auto();
+        expect(font.weight).toBe("400");
+        expect(font.size).toBe(16);
+        expect(font.family).toBe("sans-serif");
+    });
+
+    it("overrides the computed font with given properties", () => {
+        stubCssStyle({
+            "font-weight": "400",
+            "font-size": "16px",
+            "font-family": "sans-serif",
+        });
+        const font = FontMetadata.auto({ weight: "bold", size: 32 });
+        expect(font.toString()).toBe("bold 32px sans-serif");
+    });
+});
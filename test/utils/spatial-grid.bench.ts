@@ -0,0 +1,121 @@
+/**
+ * @file Benchmarks for the spatial grid.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { bench, describe } from "vitest";
+
+import { Collectible } from "@game/entities/collectible";
+import { Player } from "@game/entities/player";
+import { Collider } from "@game/utils/collider";
+import { SpatialGrid } from "@game/utils/spatial-grid";
+import { Sprite } from "@game/utils/sprite";
+
+/** Width and height of the canvas in pixels. */
+const bounds = { x: 1280, y: 720 };
+
+/** Number of collectibles in the game. */
+const count = 5000;
+
+/**
+ * Creates collectibles spread over the canvas by a fixed pseudo-random
+ * sequence, so that each run is the same.
+ *
+ * @param size - Width and height of each item in pixels.
+ * @param length - Number of items to create.
+ * @returns New collectibles.
+ */
+function createItems(size: number, length: number): Collectible[] {
+    let seed = 1;
+    const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+    };
+    return Array.from(
+        { length },
+        () =>
+            new Collectible({
+                x: random() * bounds.x,
+                y: random() * bounds.y,
+                dy: 0.1 + random() * 0.2,
+                sprite: new Sprite({ width: size, height: size }),
+            })
+    );
+}
+
+/** Moves every item down by one fixed step, wrapping at the bottom. */
+function moveItems(items: Collectible[]): void {
+    items.forEach((item) => {
+        item.position.y = (item.position.y + item.velocity.y * 8) % bounds.y;
+    });
+}
+
+const player = new Player();
+player.collider = new Collider({ shape: { type: "circle", radius: 100 } });
+player.position = { x: bounds.x / 2, y: bounds.y - 100 };
+
+// A single query gains nothing from the grid, since rebuilding it visits
+// every item anyway, so the simulation tests the player against each item
+// directly. This case shows the cost of the grid when it is not needed.
+describe(`${count} collectibles against the player`, () => {
+    const items = createItems(60, count);
+    const grid = new SpatialGrid<Collectible>({ cellSize: 200 });
+
+    bench("spatial grid", () => {
+        moveItems(items);
+        grid.rebuild(items);
+        grid.queryEntity(player).filter((item) => item.didCollide(player));
+    });
+
+    bench("pairwise", () => {
+        moveItems(items);
+        items.filter((item) => item.didCollide(player));
+    });
+});
+
+// Every item is tested against every other item, as item-item collisions
+// would need. Testing each pair directly takes over twelve million tests, so
+// it only runs a few times. At 60 frames per second each frame has 16.7
+// milliseconds, so the grid should run at around 60 operations per second to
+// check these collisions every frame, while testing each pair directly falls
+// short by more than ten times.
+describe(`${count} collectibles against each other`, () => {
+    const items = createItems(20, count);
+    const grid = new SpatialGrid<Collectible>({ cellSize: 40 });
+
+    bench("spatial grid", () => {
+        moveItems(items);
+        grid.rebuild(items);
+        items.forEach((item) =>
+            grid.queryEntity(item).filter((other) => item.didCollide(other))
+        );
+    });
+
+    bench(
+        "pairwise",
+        () => {
+            moveItems(items);
+            items.forEach((item, i) => {
+                for (let j = i + 1; j < items.length; ++j) {
+                    item.didCollide(items[j]);
+                }
+            });
+        },
+        { iterations: 5, time: 0 }
+    );
+});
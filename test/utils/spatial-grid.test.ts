@@ -0,0 +1,106 @@
+/**
+ * @file Tests for the spatial grid.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { Collectible } from "@game/entities/collectible";
+import { SpatialGrid } from "@game/utils/spatial-grid";
+import { Sprite } from "@game/utils/sprite";
+
+/**
+ * Creates a stationary collectible with a circular collider.
+ *
+ * @param x - x-coordinate in pixels.
+ * @param y - y-coordinate in pixels.
+ * @param size - Diameter of the collider in pixels.
+ * @returns New collectible.
+ */
+function item(x: number, y: number, size = 20): Collectible {
+    return new Collectible({
+        x: x,
+        y: y,
+        sprite: new Sprite({ width: size, height: size }),
+    });
+}
+
+describe("SpatialGrid", () => {
+    it("finds entities overlapping a rectangle", () => {
+        const near = item(50, 50);
+        const far = item(500, 500);
+        const grid = new SpatialGrid<Collectible>({ cellSize: 100 });
+        grid.rebuild([near, far]);
+        const found = grid.query({
+            min: { x: 0, y: 0 },
+            max: { x: 100, y: 100 },
+        });
+        expect(found).toEqual([near]);
+    });
+
+    it("lists entities spanning several cells once", () => {
+        const large = item(100, 100, 150);
+        const grid = new SpatialGrid<Collectible>({ cellSize: 50 });
+        grid.update(large);
+        const found = grid.query({
+            min: { x: 0, y: 0 },
+            max: { x: 200, y: 200 },
+        });
+        expect(found).toEqual([large]);
+    });
+
+    it("ignores entities in the same cell outside the rectangle", () => {
+        const grid = new SpatialGrid<Collectible>({ cellSize: 1000 });
+        grid.update(item(900, 900));
+        const found = grid.query({
+            min: { x: 0, y: 0 },
+            max: { x: 100, y: 100 },
+        });
+        expect(found).toEqual([]);
+    });
+
+    it("moves entities which are updated after moving", () => {
+        const entity = item(50, 50);
+        const grid = new SpatialGrid<Collectible>({ cellSize: 100 });
+        grid.update(entity);
+        entity.position = { x: 450, y: 50 };
+        grid.update(entity);
+        expect(
+            grid.query({ min: { x: 0, y: 0 }, max: { x: 100, y: 100 } })
+        ).toEqual([]);
+        expect(grid.queryEntity(item(440, 60))).toEqual([entity]);
+        expect(grid.size).toBe(1);
+    });
+
+    it("removes entities", () => {
+        const entity = item(-50, -50);
+        const grid = new SpatialGrid<Collectible>();
+        grid.update(entity);
+        expect(grid.remove(entity)).toBe(true);
+        expect(grid.remove(entity)).toBe(false);
+        expect(grid.queryEntity(item(-50, -50))).toEqual([]);
+    });
+
+    it("excludes the searched entity from its own results", () => {
+        const entity = item(0, 0);
+        const other = item(10, 0);
+        const grid = new SpatialGrid<Collectible>();
+        grid.rebuild([entity, other]);
+        expect(grid.queryEntity(entity)).toEqual([other]);
+    });
+});
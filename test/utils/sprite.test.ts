@@ -0,0 +1,121 @@
+/**
+ * @file Tests for the sprite class.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as p5 from "p5";
+import { describe, expect, it } from "vitest";
+
+import { Sprite, SpriteSheet } from "@game/utils/sprite";
+import { FakeP5 } from "../support/fake-p5";
+
+/**
+ * Creates a sprite with a 4 by 2 frame sprite sheet and a walking animation.
+ *
+ * @param loop - Whether the walking animation loops.
+ * @returns New sprite.
+ */
+function createAnimatedSprite(loop = true): Sprite {
+    const image = { width: 64, height: 32 } as p5.Image;
+    return new Sprite({
+        width: 32,
+        height: 32,
+        sheet: new SpriteSheet({ image, frameWidth: 16, frameHeight: 16 }),
+        animations: {
+            walk: { frames: [5, 6, 7], frameRate: 10, loop: loop },
+            turn: { frames: [1], frameRate: 10, loop: false, flipX: true },
+        },
+    });
+}
+
+describe("Sprite", () => {
+    it("defaults to an empty size", () => {
+        const sprite = new Sprite();
+        expect(sprite.size).toEqual({ x: 0, y: 0 });
+        expect(sprite.centerPoint).toEqual({ x: 0, y: 0 });
+    });
+
+    it("sets the center point from the constructed size", () => {
+        const sprite = new Sprite({ width: 100, height: 50 });
+        expect(sprite.centerPoint).toEqual({ x: 50, y: 25 });
+    });
+
+    it("updates the center point when the size is set", () => {
+        const sprite = new Sprite();
+        sprite.size = { x: 30, y: 200 };
+        expect(sprite.centerPoint).toEqual({ x: 15, y: 100 });
+    });
+
+    it("finds frames in the sprite sheet grid", () => {
+        const image = { width: 64, height: 32 } as p5.Image;
+        const sheet = new SpriteSheet({
+            image,
+            frameWidth: 16,
+            frameHeight: 16,
+        });
+        expect(sheet.columns).toBe(4);
+        expect(sheet.frameOrigin(6)).toEqual({ x: 32, y: 16 });
+    });
+
+    it("advances animations at their frame rate", () => {
+        const sprite = createAnimatedSprite();
+        sprite.play("walk");
+        expect(sprite.frame).toBe(5);
+        sprite.update(99);
+        expect(sprite.frame).toBe(5);
+        sprite.update(1);
+        expect(sprite.frame).toBe(6);
+        sprite.update(200);
+        expect(sprite.frame).toBe(5);
+    });
+
+    it("holds the last frame of animations which do not loop", () => {
+        const sprite = createAnimatedSprite(false);
+        sprite.play("walk");
+        sprite.update(1000);
+        expect(sprite.frame).toBe(7);
+    });
+
+    it("ignores animations which have not been added", () => {
+        const sprite = createAnimatedSprite();
+        sprite.play("walk");
+        sprite.update(100);
+        sprite.play("jump");
+        sprite.play("walk");
+        expect(sprite.animationName).toBe("walk");
+        expect(sprite.frame).toBe(6);
+    });
+
+    it("draws the current frame centered on the position", () => {
+        const p = new FakeP5();
+        const sprite = createAnimatedSprite();
+        sprite.play("turn");
+        expect(sprite.draw(p.asP5(), { x: 100, y: 50 })).toBe(true);
+        expect(p.callsTo("translate")).toEqual([[100, 50]]);
+        expect(p.callsTo("scale")).toEqual([[-1, 1]]);
+        expect(p.callsTo("image")[0].slice(1)).toEqual([
+            -16, -16, 32, 32, 16, 0, 16, 16,
+        ]);
+    });
+
+    it("draws nothing without art", () => {
+        const p = new FakeP5();
+        expect(new Sprite().draw(p.asP5(), { x: 0, y: 0 })).toBe(false);
+        expect(p.calls).toEqual([]);
+    });
+});
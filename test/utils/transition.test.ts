@@ -0,0 +1,86 @@
+/**
+ * @file Tests for the easing functions and transition progress.
+ * @author Natalie Wiggins <islifepeachy@outlook.com>
+ * @version 1.0.0
+ * @copyright (c) 2023 Natalie Wiggins, Ceri Miller and Sulaiman Syed.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    CrossfadeTransition,
+    Easing,
+    EasingFunction,
+    FadeTransition,
+} from "@game/utils/transition";
+
+/** Easing functions provided by {@link Easing}, by name. */
+const easings: Record<string, EasingFunction> = {
+    linear: Easing.linear,
+    easeIn: Easing.easeIn,
+    easeOut: Easing.easeOut,
+    easeInOut: Easing.easeInOut,
+};
+
+describe("Easing", () => {
+    Object.keys(easings).forEach((name) => {
+        it(`${name} starts at 0, ends at 1 and never goes back`, () => {
+            const ease = easings[name];
+            expect(ease(0)).toBe(0);
+            expect(ease(1)).toBe(1);
+            for (let t = 0; t < 1; t += 0.05) {
+                expect(ease(t + 0.05)).toBeGreaterThanOrEqual(ease(t));
+            }
+        });
+    });
+
+    it("eases in slowly and out quickly, and the reverse", () => {
+        expect(Easing.linear(0.25)).toBe(0.25);
+        expect(Easing.easeIn(0.5)).toBe(0.25);
+        expect(Easing.easeOut(0.5)).toBe(0.75);
+        expect(Easing.easeInOut(0.25)).toBe(0.125);
+        expect(Easing.easeInOut(0.5)).toBe(0.5);
+        expect(Easing.easeInOut(0.75)).toBe(0.875);
+    });
+});
+
+describe("Transition", () => {
+    it("advances in proportion to the time elapsed", () => {
+        const transition = new CrossfadeTransition({ duration: 400 });
+        expect(transition.progressAt(0)).toBe(0);
+        expect(transition.progressAt(100)).toBe(0.25);
+        expect(transition.progressAt(200)).toBe(0.5);
+    });
+
+    it("completes once its duration has elapsed", () => {
+        const transition = new FadeTransition({ duration: 400 });
+        expect(transition.progressAt(399)).toBeLessThan(1);
+        expect(transition.progressAt(400)).toBe(1);
+        expect(transition.progressAt(1000)).toBe(1);
+    });
+
+    it("completes immediately without a duration", () => {
+        const transition = new FadeTransition({ duration: 0 });
+        expect(transition.progressAt(0)).toBe(1);
+    });
+
+    it("rejects negative durations", () => {
+        expect(() => new FadeTransition({ duration: -1 })).toThrow(RangeError);
+        expect(() => new CrossfadeTransition({ duration: NaN })).toThrow(
+            RangeError
+        );
+    });
+});
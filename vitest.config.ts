@@ -0,0 +1,16 @@
+import * as path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@game": path.resolve(__dirname, "src/game"),
+        },
+    },
+    test: {
+        include: ["test/**/*.test.ts"],
+        benchmark: {
+            include: ["test/**/*.bench.ts"],
+        },
+    },
+});